@@ -0,0 +1,98 @@
+import type { BaseManager } from "../managers/baseManager";
+import type {
+  Channel,
+  MessageStruct,
+  Role,
+  Server,
+  ServerChannel,
+  ServerMember,
+  User,
+} from "../struct/index";
+
+/**
+ * The storage used by a manager's `cache`.
+ *
+ * Implementations decide how long entries live and in which order they are iterated.
+ * The manager's own `maxSize` evicts entries from the front of `keys()`, so stores should
+ * yield their least valuable entries first.
+ *
+ * Every method is synchronous and entries are live structures bound to the client, so stores
+ * keep their entries in process. They cannot be read back from disk or shared between processes.
+ */
+export interface CacheStore<V> extends Iterable<[string, V]> {
+  /** The number of entries in the store. */
+  readonly size: number;
+
+  /** Gets an entry, or `undefined` if it is not stored. */
+  get(key: string): V | undefined;
+
+  /** Stores an entry, replacing any entry with the same key. */
+  set(key: string, value: V): this;
+
+  /** Removes an entry, returning whether it existed. */
+  delete(key: string): boolean;
+
+  /** Checks whether an entry is stored. */
+  has(key: string): boolean;
+
+  /** Removes every entry. */
+  clear(): void;
+
+  /** Iterates over the stored keys. */
+  keys(): IterableIterator<string>;
+
+  /** Iterates over the stored values. */
+  values(): IterableIterator<V>;
+
+  /** Iterates over the stored entries. */
+  entries(): IterableIterator<[string, V]>;
+
+  /** Calls a function for every stored entry. */
+  forEach(
+    callback: (value: V, key: string, store: CacheStore<V>) => void,
+  ): void;
+
+  /**
+   * Marks an entry as recently used, moving it to the end of `keys()`. Used by managers in `lru` mode.
+   * Stores that order their entries by something else, e.g. expiry, leave it out.
+   */
+  touch?(key: string): void;
+}
+
+/**
+ * Creates the cache store for a manager.
+ * Receives the manager the store is created for, e.g. to pick a size by the kind of manager.
+ */
+export type CacheStoreFactory<V extends { id: string } = { id: string }> = (
+  manager: BaseManager<V>,
+) => CacheStore<V>;
+
+/**
+ * The structures held by each kind of manager, by the name used to select its cache store.
+ */
+export interface CachedStructures {
+  channels: Channel;
+  servers: Server;
+  users: User;
+  messages: MessageStruct;
+  roles: Role;
+  serverChannels: ServerChannel;
+  members: ServerMember;
+}
+
+/**
+ * The names used to select a cache store for each kind of manager in `clientOptions.cache`.
+ */
+export type CacheName = keyof CachedStructures;
+
+/**
+ * Represents the cache store configuration in `clientOptions`.
+ * Managers without an entry use `default`, or a `MapCacheStore` if that is not set either.
+ */
+export type CacheOptions = {
+  [K in CacheName]?: CacheStoreFactory<CachedStructures[K]>;
+} & {
+  default?: <V extends { id: string }>(
+    manager: BaseManager<V>,
+  ) => CacheStore<V>;
+};
@@ -0,0 +1,5 @@
+export * from "./cacheStore";
+export * from "./mapCacheStore";
+export * from "./lruCacheStore";
+export * from "./ttlCacheStore";
+export * from "./sweepers";
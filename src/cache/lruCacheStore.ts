@@ -0,0 +1,104 @@
+import type { CacheStore } from "./cacheStore";
+
+/**
+ * Represents the options for an LRU cache store.
+ */
+export interface LRUCacheStoreOptions {
+  /** The maximum number of entries to keep. `-1` for no limit. */
+  maxSize: number;
+}
+
+/**
+ * A cache store that evicts the least recently used entry once it is full.
+ * Reading an entry with `get` marks it as recently used; iteration does not.
+ *
+ * Entries are iterated from least to most recently used.
+ *
+ * @example
+ * ```typescript
+ * const bot = new client({
+ *   cache: { messages: () => new LRUCacheStore({ maxSize: 200 }) },
+ * });
+ * ```
+ */
+export class LRUCacheStore<V> implements CacheStore<V> {
+  /** The entries, ordered from least to most recently used. */
+  #entries = new Map<string, V>();
+
+  /**
+   * Creates a new LRUCacheStore instance.
+   *
+   * @param {LRUCacheStoreOptions} options - The options for the store.
+   */
+  constructor(readonly options: LRUCacheStoreOptions) {
+    if (!Number.isInteger(options.maxSize) || options.maxSize < -1) {
+      throw new RangeError("maxSize must be -1 or a non-negative integer");
+    }
+  }
+
+  get size(): number {
+    return this.#entries.size;
+  }
+
+  get(key: string): V | undefined {
+    if (!this.#entries.has(key)) return undefined;
+
+    this.touch(key);
+    return this.#entries.get(key);
+  }
+
+  touch(key: string): void {
+    if (!this.#entries.has(key)) return;
+
+    const value = this.#entries.get(key) as V;
+    this.#entries.delete(key);
+    this.#entries.set(key, value);
+  }
+
+  set(key: string, value: V): this {
+    this.#entries.delete(key);
+    this.#entries.set(key, value);
+
+    const { maxSize } = this.options;
+    while (maxSize !== -1 && this.#entries.size > maxSize) {
+      const oldest = this.#entries.keys().next().value as string;
+      this.#entries.delete(oldest);
+    }
+
+    return this;
+  }
+
+  delete(key: string): boolean {
+    return this.#entries.delete(key);
+  }
+
+  has(key: string): boolean {
+    return this.#entries.has(key);
+  }
+
+  clear(): void {
+    this.#entries.clear();
+  }
+
+  keys(): IterableIterator<string> {
+    return this.#entries.keys();
+  }
+
+  values(): IterableIterator<V> {
+    return this.#entries.values();
+  }
+
+  entries(): IterableIterator<[string, V]> {
+    return this.#entries.entries();
+  }
+
+  forEach(
+    callback: (value: V, key: string, store: CacheStore<V>) => void,
+  ): void {
+    for (const [key, value] of this.#entries) callback(value, key, this);
+  }
+
+  [Symbol.iterator](): IterableIterator<[string, V]> {
+    return this.entries();
+  }
+}
@@ -0,0 +1,17 @@
+import type { CacheStore } from "./cacheStore";
+
+/**
+ * The default cache store, a plain insertion ordered `Map`.
+ * Entries live until they are removed or evicted by the manager's `maxSize`.
+ *
+ * @extends Map
+ */
+export class MapCacheStore<V> extends Map<string, V> implements CacheStore<V> {
+  touch(key: string): void {
+    if (!this.has(key)) return;
+
+    const value = this.get(key) as V;
+    this.delete(key);
+    this.set(key, value);
+  }
+}
@@ -0,0 +1,297 @@
+import type { client } from "../client/client";
+import type {
+  Channel,
+  MessageStruct,
+  ServerMember,
+  User,
+} from "../struct/index";
+import { Events } from "../utils/constants";
+import type { CacheStore } from "./cacheStore";
+import { UUID } from "../utils/UUID";
+import type { BaseManager } from "../managers/baseManager";
+
+/**
+ * The kinds of cached structures that can be swept.
+ */
+export type SweepType =
+  | "users"
+  | "members"
+  | "channels"
+  | "messages"
+  | "reactions";
+
+/**
+ * Represents the options for sweeping one kind of cached structure.
+ * An entry is removed when it is older than `lifetime` or matches `filter`.
+ */
+export interface SweepOptions<V> {
+  /** How often to sweep, in milliseconds. */
+  interval: number;
+  /** The age in milliseconds after which an entry is removed. */
+  lifetime?: number;
+  /** Returns `true` for entries that should be removed. */
+  filter?: (value: V) => boolean;
+}
+
+/**
+ * Represents the sweeper configuration in `clientOptions`.
+ *
+ * The age of an entry is worked out from:
+ * - messages and reactions: the time the message was last edited, or else created
+ * - channels: the time of the last message, or else the time the channel was created
+ * - users and members: the time the entry was last added, updated or read through its manager
+ */
+export interface SweeperOptions {
+  /** Sweeps `client.users`. The client user is never removed. */
+  users?: SweepOptions<User>;
+  /** Sweeps the members of every server. The client's own member is never removed. */
+  members?: SweepOptions<ServerMember>;
+  /** Sweeps DM and group channels from `client.channels`. Server channels are kept. */
+  channels?: SweepOptions<Channel>;
+  /** Sweeps the message cache of every text channel. */
+  messages?: SweepOptions<MessageStruct>;
+  /** Clears the `reactions` of cached messages. */
+  reactions?: SweepOptions<MessageStruct>;
+}
+
+/**
+ * Periodically removes stale structures from the client's caches.
+ * Each sweep emits a `cacheSweep` event with the kind of structure and the number removed.
+ *
+ * @example
+ * ```typescript
+ * const bot = new client({
+ *   sweepers: {
+ *     messages: { interval: 5 * 60 * 1000, lifetime: 30 * 60 * 1000 },
+ *     users: { interval: 60 * 60 * 1000, filter: (user) => user.bot },
+ *   },
+ * });
+ * ```
+ */
+export class Sweepers {
+  /** The running timers, keyed by sweep type. */
+  #timers = new Map<SweepType, NodeJS.Timeout>();
+
+  /**
+   * Creates a new Sweepers instance.
+   *
+   * @param {client} client - The client instance.
+   */
+  constructor(protected readonly client: client) {}
+
+  /**
+   * Gets the sweeper options for the client.
+   *
+   * @returns {SweeperOptions} The configured options.
+   */
+  get options(): SweeperOptions {
+    return this.client.options.sweepers ?? {};
+  }
+
+  /**
+   * Starts the timers for every configured sweeper. Called when the client logs in.
+   */
+  start(): void {
+    this.stop();
+
+    for (const type of Object.keys(this.options) as SweepType[]) {
+      const options = this.options[type];
+      if (!options?.interval) continue;
+
+      const timer = setInterval(() => this.sweep(type), options.interval);
+      timer.unref();
+      this.#timers.set(type, timer);
+    }
+  }
+
+  /**
+   * Stops every running sweeper. Called when the client is destroyed.
+   */
+  stop(): void {
+    for (const timer of this.#timers.values()) clearInterval(timer);
+    this.#timers.clear();
+  }
+
+  /**
+   * Runs a sweeper once using its configured `lifetime` and `filter`.
+   *
+   * @param {SweepType} type - The kind of structure to sweep.
+   * @returns {number} The number of entries removed.
+   */
+  sweep(type: SweepType): number {
+    switch (type) {
+      case "users":
+        return this.sweepUsers(
+          this.predicate(type, (u) => this.seenAge(this.client.users, u)),
+        );
+      case "members":
+        return this.sweepMembers(
+          this.predicate(type, (m) => this.seenAge(m.server.members, m)),
+        );
+      case "channels":
+        return this.sweepChannels(
+          this.predicate(type, (c) => this.channelAge(c)),
+        );
+      case "messages":
+        return this.sweepMessages(
+          this.predicate(type, (m) => this.messageAge(m)),
+        );
+      case "reactions":
+        return this.sweepReactions(
+          this.predicate(type, (m) => this.messageAge(m)),
+        );
+    }
+  }
+
+  /**
+   * Removes users from `client.users`. The client user is never removed.
+   *
+   * @param {(user: User) => boolean} filter - Returns `true` for users to remove.
+   * @returns {number} The number of users removed.
+   */
+  sweepUsers(filter: (user: User) => boolean): number {
+    const selfId = this.client.user?.id;
+    const removed = this.sweepStore(
+      this.client.users.cache,
+      (user) => user.id !== selfId && filter(user),
+    );
+    return this.report("users", removed);
+  }
+
+  /**
+   * Removes members from every server. The client's own member is never removed.
+   *
+   * @param {(member: ServerMember) => boolean} filter - Returns `true` for members to remove.
+   * @returns {number} The number of members removed.
+   */
+  sweepMembers(filter: (member: ServerMember) => boolean): number {
+    const selfId = this.client.user?.id;
+    let removed = 0;
+    for (const server of this.client.servers.cache.values()) {
+      removed += this.sweepStore(
+        server.members.cache,
+        (member) => member.id !== selfId && filter(member),
+      );
+    }
+    return this.report("members", removed);
+  }
+
+  /**
+   * Removes DM and group channels from `client.channels`. Server channels are kept.
+   *
+   * @param {(channel: Channel) => boolean} filter - Returns `true` for channels to remove.
+   * @returns {number} The number of channels removed.
+   */
+  sweepChannels(filter: (channel: Channel) => boolean): number {
+    const removed = this.sweepStore(
+      this.client.channels.cache,
+      (channel) => !channel.inServer() && filter(channel),
+    );
+    return this.report("channels", removed);
+  }
+
+  /**
+   * Removes messages from the message cache of every text channel.
+   *
+   * @param {(message: MessageStruct) => boolean} filter - Returns `true` for messages to remove.
+   * @returns {number} The number of messages removed.
+   */
+  sweepMessages(filter: (message: MessageStruct) => boolean): number {
+    let removed = 0;
+    for (const channel of this.client.channels.cache.values()) {
+      if (channel.isText()) {
+        removed += this.sweepStore(channel.messages.cache, filter);
+      }
+    }
+    return this.report("messages", removed);
+  }
+
+  /**
+   * Clears the reactions of cached messages.
+   *
+   * @param {(message: MessageStruct) => boolean} filter - Returns `true` for messages whose reactions should be cleared.
+   * @returns {number} The number of messages whose reactions were cleared.
+   */
+  sweepReactions(filter: (message: MessageStruct) => boolean): number {
+    let removed = 0;
+    for (const channel of this.client.channels.cache.values()) {
+      if (!channel.isText()) continue;
+      for (const message of channel.messages.cache.values()) {
+        if (message.reactions.size && filter(message)) {
+          message.reactions.clear();
+          removed++;
+        }
+      }
+    }
+    return this.report("reactions", removed);
+  }
+
+  /**
+   * Removes matching entries from a cache store.
+   * @private
+   */
+  private sweepStore<V>(
+    store: CacheStore<V>,
+    filter: (value: V) => boolean,
+  ): number {
+    const keys: string[] = [];
+    for (const [key, value] of store.entries()) {
+      if (filter(value)) keys.push(key);
+    }
+    for (const key of keys) store.delete(key);
+    return keys.length;
+  }
+
+  /**
+   * Builds the predicate for a sweeper from its `lifetime` and `filter` options.
+   * @private
+   */
+  private predicate<V>(
+    type: SweepType,
+    age: (value: V) => number,
+  ): (value: V) => boolean {
+    const options = this.options[type] as SweepOptions<V> | undefined;
+    const lifetime = options?.lifetime;
+    const filter = options?.filter;
+
+    return (value) =>
+      (lifetime !== undefined && age(value) > lifetime) ||
+      (filter?.(value) ?? false);
+  }
+
+  /**
+   * Emits the result of a sweep.
+   * @private
+   */
+  private report(type: SweepType, removed: number): number {
+    this.client.emit(Events.CACHE_SWEEP, type, removed);
+    this.client.logger.debug(`Swept ${removed} ${type} from the cache`, {
+      component: "cache",
+    });
+    return removed;
+  }
+
+  /** @private */
+  private idAge(value: { id: string }): number {
+    return Date.now() - UUID.timestampOf(value.id).getTime();
+  }
+
+  /** @private */
+  private seenAge<V extends { id: string }>(
+    manager: BaseManager<V>,
+    value: V,
+  ): number {
+    return Date.now() - manager._lastSeen(value);
+  }
+
+  /** @private */
+  private messageAge(message: MessageStruct): number {
+    return Date.now() - (message.editedTimestamp ?? message.createdTimestamp);
+  }
+
+  /** @private */
+  private channelAge(channel: Channel): number {
+    const lastMessageId = channel.isText() ? channel.lastMessageId : null;
+    return this.idAge({ id: lastMessageId ?? channel.id });
+  }
+}
@@ -0,0 +1,125 @@
+import type { CacheStore } from "./cacheStore";
+
+/**
+ * Represents the options for a TTL cache store.
+ */
+export interface TTLCacheStoreOptions {
+  /** How long an entry lives after it is set, in milliseconds. */
+  ttl: number;
+  /** Whether reading an entry with `get` restarts its lifetime. Defaults to `false`. */
+  refreshOnGet?: boolean;
+}
+
+/**
+ * A cache store whose entries expire a fixed time after they were last set.
+ * Expired entries are dropped lazily whenever the store is read or iterated.
+ *
+ * Entries are iterated from the soonest to expire to the latest.
+ *
+ * @example
+ * ```typescript
+ * const bot = new client({
+ *   cache: { users: () => new TTLCacheStore({ ttl: 10 * 60 * 1000 }) },
+ * });
+ * ```
+ */
+export class TTLCacheStore<V> implements CacheStore<V> {
+  /** The entries with their expiry timestamps, ordered by expiry. */
+  #entries = new Map<string, { value: V; expires: number }>();
+
+  /**
+   * Creates a new TTLCacheStore instance.
+   *
+   * @param {TTLCacheStoreOptions} options - The options for the store.
+   */
+  constructor(readonly options: TTLCacheStoreOptions) {
+    if (!Number.isFinite(options.ttl) || options.ttl <= 0) {
+      throw new RangeError("ttl must be a positive finite number");
+    }
+  }
+
+  get size(): number {
+    this.purge();
+    return this.#entries.size;
+  }
+
+  get(key: string): V | undefined {
+    const entry = this.#entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expires <= Date.now()) {
+      this.#entries.delete(key);
+      return undefined;
+    }
+
+    if (this.options.refreshOnGet) this.set(key, entry.value);
+    return entry.value;
+  }
+
+  set(key: string, value: V): this {
+    // Re-insert so the map stays ordered by expiry
+    this.#entries.delete(key);
+    this.#entries.set(key, { value, expires: Date.now() + this.options.ttl });
+    return this;
+  }
+
+  delete(key: string): boolean {
+    return this.#entries.delete(key);
+  }
+
+  has(key: string): boolean {
+    const entry = this.#entries.get(key);
+    if (!entry) return false;
+
+    if (entry.expires <= Date.now()) {
+      this.#entries.delete(key);
+      return false;
+    }
+    return true;
+  }
+
+  clear(): void {
+    this.#entries.clear();
+  }
+
+  *keys(): IterableIterator<string> {
+    for (const [key] of this.entries()) yield key;
+  }
+
+  *values(): IterableIterator<V> {
+    for (const [, value] of this.entries()) yield value;
+  }
+
+  *entries(): IterableIterator<[string, V]> {
+    this.purge();
+    for (const [key, entry] of this.#entries) yield [key, entry.value];
+  }
+
+  forEach(
+    callback: (value: V, key: string, store: CacheStore<V>) => void,
+  ): void {
+    for (const [key, value] of this.entries()) callback(value, key, this);
+  }
+
+  [Symbol.iterator](): IterableIterator<[string, V]> {
+    return this.entries();
+  }
+
+  /**
+   * Drops every expired entry.
+   *
+   * @returns {number} The number of entries dropped.
+   */
+  purge(): number {
+    const now = Date.now();
+    let removed = 0;
+
+    for (const [key, entry] of this.#entries) {
+      if (entry.expires > now) break;
+      this.#entries.delete(key);
+      removed++;
+    }
+
+    return removed;
+  }
+}
@@ -11,6 +11,15 @@ import { RestClient } from "../rest/restClient";
 import { MessageStruct } from "../struct/index";
 import { client } from "./client";
 import { CDNClient } from "../rest/CDNClient";
+import { ConfigurationError } from "../errors/index";
+import { createDefaultLogger, type Logger } from "../utils/logger";
+import type { RateLimitData } from "../rest/restUtils/rateLimitQueue";
+import type {
+  APIRequestData,
+  APIResponseData,
+} from "../rest/restUtils/interceptors";
+import type { Transport } from "../rest/transport/index";
+import type { WebSocketConstructor } from "./webSocket";
 import {
   WebhookCreateData,
   WebhookDeleteData,
@@ -22,6 +31,15 @@ import {
 } from "./events/userVoiceStateUpdate";
 import { VoiceChannelJoinData } from "./events/voiceChannelJoin";
 import { VoiceChannelLeaveData } from "./events/voiceChannelLeave";
+import type { ShardOptions } from "../cluster/shard";
+import type { CacheOptions, SweeperOptions, SweepType } from "../cache/index";
+import type {
+  Command,
+  CommandContext,
+  CommandDeniedReason,
+  CommandManagerOptions,
+} from "../commands/index";
+import type { NodeSelection } from "./nodeSelector";
 
 /**
  * Represents the base client that provides core functionality for interacting with the API.
@@ -79,12 +97,14 @@ export interface ClientEvents {
   [Events.MESSAGE_DELETE]: [MessageStruct];
   /** Emitted when a message is updated. */
   [Events.MESSAGE_UPDATE]: [MessageStruct, MessageStruct];
-  /** Emitted when a reaction is added to a message. */
-  [Events.MESSAGE_REACT]: [MessageStruct];
-  /** Emitted when a reaction is removed from a message. */
-  [Events.MESSAGE_REACT_REMOVE]: [MessageStruct];
+  /** Emitted when a reaction is added to a message, with the ID of the user and the emoji. */
+  [Events.MESSAGE_REACT]: [MessageStruct, string, string];
+  /** Emitted when a reaction is removed from a message, with the ID of the user and the emoji. */
+  [Events.MESSAGE_REACT_REMOVE]: [MessageStruct, string, string];
   /** Emitted when a message is bulk deleted. */
   [Events.MESSAGE_DELETE_BULK]: [string[]];
+  /** Emitted when a sweeper runs, with the kind of structure swept and the number removed. */
+  [Events.CACHE_SWEEP]: [SweepType, number];
   /** Emitted when a channel is created. */
   [Events.CHANNEL_CREATE]: [Channel];
   /** Emitted when a channel is deleted. */
@@ -113,10 +133,24 @@ export interface ClientEvents {
   [Events.GROUP_JOIN]: [Channel, User];
   /** Emitted when a group member leaves. */
   [Events.GROUP_LEAVE]: [Channel, User];
+  /** Emitted when the client is destroyed. */
+  [Events.DESTROY]: [];
   /** Emitted when the client is ready. */
   [Events.READY]: [client];
+  /** Emitted when the WebSocket connection is lost, with the close code and reason. */
+  [Events.SHARD_DISCONNECT]: [number, string];
+  /** Emitted before a reconnect attempt, with the attempt number and the delay in milliseconds. */
+  [Events.RECONNECTING]: [number, number];
+  /** Emitted when the client is ready again after reconnecting. */
+  [Events.RESUMED]: [client];
   /** Emitted when an error occurs. */
   [Events.ERROR]: [unknown];
+  /** Emitted when a REST request has to wait for a rate limit to reset. */
+  [Events.RATE_LIMITED]: [RateLimitData];
+  /** Emitted before a REST or CDN request is sent. */
+  [Events.API_REQUEST]: [APIRequestData];
+  /** Emitted when a REST or CDN request receives a response or fails to connect. */
+  [Events.API_RESPONSE]: [APIResponseData];
   /** Emitted when a raw event is received. */
   [Events.RAW]: [unknown];
   /** emitted when a role is created */
@@ -137,6 +171,12 @@ export interface ClientEvents {
   [Events.VOICE_CHANNEL_JOIN]: [VoiceChannelJoinData];
   /** emitted when a user leaves a voice channel */
   [Events.VOICE_CHANNEL_LEAVE]: [VoiceChannelLeaveData];
+  /** emitted when a command is about to run */
+  [Events.COMMAND_RUN]: [Command, CommandContext];
+  /** emitted when a command throws an error */
+  [Events.COMMAND_ERROR]: [Command, CommandContext, unknown];
+  /** emitted when a command is denied by a permission, cooldown or argument check */
+  [Events.COMMAND_DENIED]: [Command, CommandContext, CommandDeniedReason];
 }
 
 /**
@@ -155,6 +195,22 @@ export interface clientOptions {
   /** wether to use X-Session-Token or X-Bot-Token*/
   isBot?: boolean;
 
+  /**
+   * The logger the library writes its output to. Defaults to emitting debug and info entries as
+   * `debug` events and writing warnings and errors to the console.
+   */
+  logger?: Logger;
+
+  /**
+   * Whether to fetch the instance's WebSocket, CDN and voice configuration from the API on login. Defaults to `true`.
+   * Set to `false` for instances whose API root cannot be reached, and set `ws.instanceURL`,
+   * `rest.instanceCDNURL` and optionally `voice` instead.
+   */
+  discovery?: boolean;
+
+  /** The voice (LiveKit) configuration. Fetched on login, with any settings given here taking precedence. */
+  voice?: VoiceClientOptions;
+
   /** Configuration for REST API requests. */
   rest?: {
     /** The timeout for REST requests in milliseconds. */
@@ -165,6 +221,34 @@ export interface clientOptions {
     instanceURL?: string;
     /** URL for stoat CDN instance without trailing slash */
     instanceCDNURL?: string;
+    /** The HTTP client used for REST, CDN and download requests. Defaults to a `FetchTransport`. */
+    transport?: Transport;
+  };
+
+  /**
+   * The cache store factories for each kind of manager.
+   * Managers without an entry use `default`, or an in-process `Map` if that is not set either.
+   */
+  cache?: CacheOptions;
+
+  /** Sweepers that periodically remove stale structures from the caches. */
+  sweepers?: SweeperOptions;
+
+  /** Runs the client as one shard of a cluster, handling only its share of servers. */
+  shard?: ShardOptions;
+
+  /** Configuration for the prefix command framework. */
+  commands?: CommandManagerOptions;
+
+  /** Configuration for shutting down with `destroy`. */
+  shutdown?: {
+    /**
+     * Process signals that destroy the client gracefully, e.g. `["SIGINT", "SIGTERM"]`.
+     * A second signal while shutting down exits straight away. No signals are handled by default.
+     */
+    signals?: NodeJS.Signals[];
+    /** How long a graceful shutdown waits for requests in progress in milliseconds. */
+    timeout?: number;
   };
 
   MessageCache?: {
@@ -178,14 +262,26 @@ export interface clientOptions {
     heartbeatInterval?: number;
     /** Whether to automatically reconnect on disconnection. */
     reconnect?: boolean;
+    /** The number of reconnect attempts before giving up. Use `Infinity` to retry forever. */
+    maxReconnectAttempts?: number;
+    /** The delay before the first reconnect attempt in milliseconds. Doubles with each failed attempt. */
+    reconnectDelay?: number;
+    /** The maximum delay between reconnect attempts in milliseconds. */
+    maxReconnectDelay?: number;
     /** URL for stoat WebSocket instance without trailing slash */
     instanceURL?: string;
+    /** The `WebSocket` implementation to connect with. Defaults to the global `WebSocket`. */
+    webSocket?: WebSocketConstructor;
   };
 }
 
 export interface VoiceClientOptions {
   enabled?: boolean;
   nodes?: VoiceNode[];
+  /** How the node to join calls on is chosen. Defaults to the first node listed. */
+  nodeSelection?: NodeSelection;
+  /** Whether to try the next node if joining a call or connecting to LiveKit fails. Defaults to `true`. */
+  failover?: boolean;
 }
 
 export interface VoiceNode {
@@ -224,29 +320,29 @@ export abstract class BaseClient extends EventEmitter {
   /** Whether to use the default error handler */
   #useDefaultErrorHandler = true;
 
+  /** The logger used when `logger` is not set. */
+  #defaultLogger: Logger = createDefaultLogger(this);
+
   /**
    * Creates a new BaseClient instance.
    *
    * @param {clientOptions} [options={}] - The options for configuring the client.
+   * @throws {ConfigurationError} Throws if an instance URL is not a valid URL.
    */
   constructor(options: clientOptions = {}) {
-    if (options.rest?.instanceURL) {
-      if (!options.rest?.instanceURL) {
-        console.error(
-          'instance URLs must be provided (REST) see docs at "https://jade3375.github.io/stoatbot.js/interfaces/clientOptions.html"',
-        );
-        process.exit(0);
-      } else {
-        console.warn(
-          "You are connecting to a custom instance of Revolt. compatibility with StoatBot.js is not guaranteed.",
-        );
-      }
-    }
+    validateURLs(options);
     super();
     this.options = {
       ...DEFAULT_CLIENT_OPTIONS,
       ...options,
     };
+    if (options.rest?.instanceURL) {
+      this.logger.warn(
+        "You are connecting to a custom instance of Revolt. compatibility with StoatBot.js is not guaranteed.",
+        { component: "client" },
+      );
+    }
+    this.voiceOptions = this.options.voice ?? { enabled: false };
     this.bot = this.options.isBot ?? true;
     this.api = new RestClient(this);
     this.cdn = new CDNClient(this);
@@ -255,13 +351,10 @@ export abstract class BaseClient extends EventEmitter {
     this.on("error", (error) => {
       // Only use default handler if user hasn't added their own
       if (this.#useDefaultErrorHandler && this.listenerCount("error") === 1) {
-        console.error(
-          "[stoatbot.js] Unhandled client error occurred. " +
-            "Consider adding an error listener to your client:",
-          error,
-        );
-        console.error(
-          "Example: client.on('error', (error) => { console.error('Bot error:', error); });",
+        this.logger.error(
+          "Unhandled client error occurred. Consider adding an error listener to your client, " +
+            "e.g. client.on('error', (error) => { console.error('Bot error:', error); })",
+          { component: "client", error },
         );
       }
     });
@@ -275,12 +368,21 @@ export abstract class BaseClient extends EventEmitter {
   }
 
   /**
-   * Emits a debug message.
+   * Gets the logger the library writes its output to.
    *
-   * @param {unknown} msg - The debug message to emit.
+   * @returns {Logger} The `logger` option, or the default logger.
+   */
+  get logger(): Logger {
+    return this.options.logger ?? this.#defaultLogger;
+  }
+
+  /**
+   * Logs a debug message from the client.
+   *
+   * @param {unknown} msg - The debug message to log.
    */
   debug(msg: unknown): void {
-    this.emit(Events.DEBUG, msg);
+    this.logger.debug(String(msg), { component: "client" });
   }
 
   /**
@@ -301,3 +403,22 @@ export abstract class BaseClient extends EventEmitter {
     return this.#token;
   }
 }
+
+/**
+ * Checks that the instance URLs in the options are valid.
+ * @private
+ */
+function validateURLs(options: clientOptions): void {
+  const urls = {
+    "rest.instanceURL": options.rest?.instanceURL,
+    "rest.instanceCDNURL": options.rest?.instanceCDNURL,
+    "ws.instanceURL": options.ws?.instanceURL,
+  };
+  for (const [name, url] of Object.entries(urls)) {
+    if (url !== undefined && !URL.canParse(url)) {
+      throw new ConfigurationError(
+        `${name} must be a valid URL, received "${url}". See https://jade3375.github.io/stoatbot.js/interfaces/clientOptions.html`,
+      );
+    }
+  }
+}
@@ -2,19 +2,38 @@ import { ChannelManager, ServerManager } from "../managers";
 import { UserManager } from "../managers/userManager";
 import { WebhookManager } from "../managers/webhookManager";
 import { ClientUser } from "../struct/clientUser";
+import { CommandManager } from "../commands/commandManager";
+import { Sweepers } from "../cache/sweepers";
+import { shardIdForServer } from "../cluster/shard";
+import { DEFAULT_CLIENT_OPTIONS, Events } from "../utils/constants";
+import { ConfigurationError, StoatAPIError } from "../errors/index";
+import { sleep } from "../rest/restUtils/abort";
 import { BaseClient } from "./baseClient";
 import { EventManager } from "./events/eventManager";
 import { VoiceClient } from "./voiceClient";
 import { WebSocketClient } from "./webSocket";
 
+/**
+ * Represents the options for destroying the client.
+ */
+export interface DestroyOptions {
+  /** Whether to wait for REST and CDN requests in progress to finish before cancelling them. Defaults to `false`. */
+  graceful?: boolean;
+  /** How long to wait for requests in progress in milliseconds, when `graceful` is set. Defaults to `shutdown.timeout`. */
+  timeout?: number;
+}
+
 /**
  * Represents the main client for interacting with the API.
  *
  * @extends BaseClient
  */
 export class client extends BaseClient {
-  /** The WebSocket client used for real-time communication. */
-  protected readonly ws = new WebSocketClient(this);
+  /**
+   * The WebSocket client used for real-time communication.
+   * @private
+   */
+  readonly ws = new WebSocketClient(this);
 
   /** Manages the channels in the client. */
   readonly channels = new ChannelManager(this);
@@ -34,24 +53,87 @@ export class client extends BaseClient {
   /** Manages the voice connections in the client. */
   readonly voice = new VoiceClient(this);
 
+  /** Manages the prefix commands in the client. */
+  readonly commands = new CommandManager(this);
+
+  /** Periodically removes stale structures from the caches. */
+  readonly sweepers = new Sweepers(this);
+
   /** The authenticated user, or `null` if not logged in. */
   user: ClientUser | null = null;
 
   /** The timestamp when the client became ready, or `null` if not ready. */
   readyAt: Date | null = null;
 
+  /** The destroy in progress, shared by concurrent calls. */
+  #destroying: Promise<void> | null = null;
+
+  /** The listeners added for `shutdown.signals`. */
+  #signalHandlers = new Map<NodeJS.Signals, () => void>();
+
   /**
-   * Initializes the client.
+   * Initializes the client, fetching the instance's configuration unless `discovery` is disabled.
+   * @throws {ConfigurationError} Throws if the configuration could not be fetched, or is incomplete.
    * @private
    */
   async init(): Promise<void> {
     this.debug("Initializing client...");
     if (process.env.NODE_ENV === "DEV") {
-      console.info(
+      this.logger.info(
         "Development mode enabled: displaying additional debug info.",
+        { component: "client" },
       );
     }
-    await this.api.getConfig();
+    const discovery = this.options.discovery ?? true;
+    if (discovery) await this.discover();
+
+    const missing = [
+      !this.options.ws?.instanceURL && "ws.instanceURL",
+      !this.options.rest?.instanceCDNURL && "rest.instanceCDNURL",
+    ].filter(Boolean);
+    if (missing.length) {
+      throw new ConfigurationError(
+        discovery
+          ? `Discovery did not return ${missing.join(" or ")}`
+          : `${missing.join(" and ")} must be set when discovery is disabled`,
+      );
+    }
+  }
+
+  /**
+   * Fetches the instance's configuration, retrying network and server errors up to `rest.retries`
+   * times with the same backoff as reconnects.
+   * @private
+   */
+  private async discover(): Promise<void> {
+    const retries =
+      this.options.rest?.retries ?? DEFAULT_CLIENT_OPTIONS.rest!.retries!;
+    const base = this.options.ws?.reconnectDelay ?? 1000;
+    const max = this.options.ws?.maxReconnectDelay ?? 30000;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.api.getConfig();
+        return;
+      } catch (error) {
+        if (error instanceof ConfigurationError) throw error;
+
+        const retryable =
+          error instanceof StoatAPIError &&
+          (error.status === null || error.retryable);
+        if (!retryable || attempt >= retries) {
+          const reason = error instanceof Error ? error.message : error;
+          throw new ConfigurationError(
+            `Failed to fetch the instance configuration: ${reason}`,
+            error,
+          );
+        }
+
+        const delay = Math.min(max, base * 2 ** attempt);
+        this.debug(`Discovery failed, retrying in ${delay}ms: ${error}`);
+        await sleep(delay);
+      }
+    }
   }
 
   /**
@@ -63,6 +145,15 @@ export class client extends BaseClient {
     return this.readyAt ? this.readyAt.getTime() : null;
   }
 
+  /**
+   * Gets the latency of the WebSocket connection.
+   *
+   * @returns {number} The ping in milliseconds.
+   */
+  get ping(): number {
+    return this.ws.ping;
+  }
+
   /**
    * Gets the uptime of the client in milliseconds.
    *
@@ -77,6 +168,7 @@ export class client extends BaseClient {
    *
    * @param {string} token - The authentication token.
    * @returns {Promise<void>} A promise that resolves when the client is logged in.
+   * @throws {ConfigurationError} Throws if the instance's configuration could not be fetched.
    * @throws {Error} Throws an error if the token is not provided or if the WebSocket connection fails.
    *
    * @example
@@ -90,6 +182,7 @@ export class client extends BaseClient {
     this.token = token;
 
     this.debug("Logging in...");
+    await this.init();
     try {
       await this.ws.connect();
     } catch (error) {
@@ -97,24 +190,119 @@ export class client extends BaseClient {
       throw error;
     }
 
-    this.readyAt = new Date();
+    this.sweepers.start();
+    this.addSignalHandlers();
   }
 
   /**
    * Destroys the client, disconnecting it from the API and clearing its state.
    *
-   * @returns {Promise<void>} A promise that resolves when the client is destroyed.
+   * The WebSocket is closed first so no new events are dispatched, and every timer and voice
+   * player is stopped. REST and CDN requests in progress, including requests waiting for a rate
+   * limit, are cancelled with a `RequestCancelledError`, or given up to `timeout` to finish first
+   * when `graceful` is set. Requests made by handlers that are still running are waited for too.
+   *
+   * @param {DestroyOptions} [options={}] - The options for destroying the client.
+   * @returns {Promise<void>} A promise that resolves when everything is closed.
    *
    * @example
    * ```typescript
-   * await client.destroy();
+   * await client.destroy({ graceful: true, timeout: 5000 });
    * ```
    */
-  async destroy(): Promise<void> {
+  destroy(options: DestroyOptions = {}): Promise<void> {
+    this.#destroying ??= this.shutdown(options).finally(() => {
+      this.#destroying = null;
+    });
+    return this.#destroying;
+  }
+
+  /**
+   * Closes everything the client has open.
+   * @private
+   */
+  private async shutdown(options: DestroyOptions): Promise<void> {
+    this.debug(`Destroying client${options.graceful ? " gracefully" : ""}.`);
+    this.emit(Events.DESTROY);
+    this.removeSignalHandlers();
+    this.sweepers.stop();
+    await this.ws.destroy();
+
+    const timeout = options.graceful
+      ? (options.timeout ??
+        this.options.shutdown?.timeout ??
+        DEFAULT_CLIENT_OPTIONS.shutdown!.timeout!)
+      : 0;
+    await Promise.all([
+      this.api.close(timeout),
+      this.cdn.close(timeout),
+      this.voice.disconnectAll(),
+    ]);
+
     this.token = null;
     this.user = null;
     this.readyAt = null;
-    await this.ws.destroy(true);
+  }
+
+  /**
+   * Destroys the client gracefully when the process receives one of `shutdown.signals`.
+   * The signal is raised again once the client is destroyed, so the process exits as it would
+   * have without the handler, unless something else is listening for it.
+   * @private
+   */
+  private addSignalHandlers(): void {
+    for (const signal of this.options.shutdown?.signals ?? []) {
+      if (this.#signalHandlers.has(signal)) continue;
+
+      const handler = () => {
+        this.#signalHandlers.delete(signal);
+        this.debug(`Received ${signal}, shutting down.`);
+        this.destroy({ graceful: true })
+          .catch((error) => this.emit(Events.ERROR, error))
+          .finally(() => {
+            if (process.listenerCount(signal) === 0) {
+              process.kill(process.pid, signal);
+            }
+          });
+      };
+      this.#signalHandlers.set(signal, handler);
+      process.once(signal, handler);
+    }
+  }
+
+  /**
+   * Removes the listeners added for `shutdown.signals`.
+   * @private
+   */
+  private removeSignalHandlers(): void {
+    for (const [signal, handler] of this.#signalHandlers) {
+      process.off(signal, handler);
+    }
+    this.#signalHandlers.clear();
+  }
+
+  /**
+   * Checks whether a server is handled by this client.
+   * Always `true` unless the client runs as one shard of a cluster.
+   *
+   * @param {string} serverId - The ID of the server.
+   * @returns {boolean} `true` if the server belongs to this client's shard.
+   */
+  ownsServer(serverId: string): boolean {
+    const shard = this.options.shard;
+    return !shard || shardIdForServer(serverId, shard.count) === shard.id;
+  }
+
+  /**
+   * Checks whether a channel is handled by this client.
+   * Channels outside a server belong to the first shard.
+   *
+   * @param {string | null | undefined} serverId - The ID of the server the channel is in, if any.
+   * @returns {boolean} `true` if the channel belongs to this client's shard.
+   */
+  ownsChannel(serverId: string | null | undefined): boolean {
+    if (serverId) return this.ownsServer(serverId);
+    return (this.options.shard?.id ?? 0) === 0;
   }
 
   /**
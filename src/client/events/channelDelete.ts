@@ -13,7 +13,7 @@ export class ChannelDelete extends Event {
    * @returns {{ channel: unknown }} An object containing the deleted channel, or `undefined` if not found.
    */
   handle(data: { id: string }): unknown {
-    const channel = this.client.channels.cache.get(data.id);
+    const channel = this.client.channels._get(data.id);
 
     if (channel) {
       if (channel.inServer()) {
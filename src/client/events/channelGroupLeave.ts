@@ -13,7 +13,7 @@ export class ChannelGroupLeave extends Event {
    * @returns {Promise<{ channel: unknown; user: unknown }>} A promise that resolves with the updated channel and user.
    */
   async handle(data: { id: string; user: string }): Promise<unknown> {
-    const channel = this.client.channels.cache.get(data.id);
+    const channel = this.client.channels._get(data.id);
     const user = await this.client.users.fetch(data.user, { force: false });
 
     if (channel?.isGroup()) {
@@ -13,8 +13,8 @@ export class ChannelStopTyping extends Event {
    * @returns {{ channel: unknown; user: unknown }} An object containing the channel and user involved in the event.
    */
   handle(data: { id: string; user: string }): unknown {
-    const channel = this.client.channels.cache.get(data.id);
-    const user = this.client.users.cache.get(data.user);
+    const channel = this.client.channels._get(data.id);
+    const user = this.client.users._get(data.user);
 
     if (channel?.isText() && user) {
       this.client.emit(Events.TYPING_STOP, channel, user);
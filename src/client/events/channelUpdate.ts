@@ -17,7 +17,7 @@ export class ChannelUpdate extends Event {
     data: API.Channel;
     clear: API.FieldsChannel;
   }): void {
-    const channel = this.client.channels.cache.get(data.id);
+    const channel = this.client.channels._get(data.id);
     const oldChannel = channel?._update(data.data);
 
     if (channel && oldChannel && !channel.equals(oldChannel)) {
@@ -19,7 +19,7 @@ export class Message extends Event {
     if (data.system) {
       return {};
     }
-    const channel = this.client.channels.cache.get(data.channel);
+    const channel = this.client.channels._get(data.channel);
 
     if (channel?.isText()) {
       if (data.user?.bot && this.client.options.ignoreBots) {
@@ -13,10 +13,10 @@ export class MessageDelete extends Event {
    * @returns {{ message: unknown } | {}} An object containing the deleted message, or an empty object if the channel is not text-based or the message is not found.
    */
   handle(data: { id: string; channel: string }): unknown {
-    const channel = this.client.channels.cache.get(data.channel);
+    const channel = this.client.channels._get(data.channel);
 
     if (channel?.isText()) {
-      const message = channel.messages.cache.get(data.id);
+      const message = channel.messages._get(data.id);
 
       if (message) {
         channel.messages._remove(message.id);
@@ -30,19 +30,25 @@ export class MessageReact extends Event {
    * @returns {Promise<unknown>} A promise that resolves with an empty object.
    */
   async handle(data: MessageReactData): Promise<unknown> {
-    const channel = this.client.channels.cache.get(data.channel_id);
+    const channel = this.client.channels._get(data.channel_id);
 
     if (channel?.isText()) {
-      let message = channel.messages.cache.get(data.id)
-        ? channel.messages.cache.get(data.id)
-        : await channel.messages.fetch(data.id);
+      let message =
+        channel.messages._get(data.id) ??
+        (await channel.messages.fetch(data.id));
 
       if (message) {
-        if (message.reactions.get(data.emoji_id)?.indexOf(data.user_id)) return;
+        if (message.reactions.get(data.emoji_id)?.includes(data.user_id))
+          return;
         if (!message.reactions.get(data.emoji_id)?.push(data.user_id))
           message.reactions.set(data.emoji_id, [data.user_id]);
 
-        this.client.emit(Events.MESSAGE_REACT, message);
+        this.client.emit(
+          Events.MESSAGE_REACT,
+          message,
+          data.user_id,
+          data.emoji_id,
+        );
       }
     }
 
@@ -14,12 +14,12 @@ export class MessageUnreact extends Event {
    * @returns {Promise<unknown>} A promise that resolves with an empty object.
    */
   async handle(data: MessageReactData): Promise<unknown> {
-    const channel = this.client.channels.cache.get(data.channel_id);
+    const channel = this.client.channels._get(data.channel_id);
 
     if (channel?.isText()) {
-      let message = channel.messages.cache.get(data.id)
-        ? channel.messages.cache.get(data.id)
-        : await channel.messages.fetch(data.id);
+      let message =
+        channel.messages._get(data.id) ??
+        (await channel.messages.fetch(data.id));
 
       if (message) {
         const reaction = message.reactions.get(data.emoji_id);
@@ -32,7 +32,12 @@ export class MessageUnreact extends Event {
             message.reactions.delete(data.emoji_id);
           }
         }
-        this.client.emit(Events.MESSAGE_REACT_REMOVE, message);
+        this.client.emit(
+          Events.MESSAGE_REACT_REMOVE,
+          message,
+          data.user_id,
+          data.emoji_id,
+        );
       }
     }
 
@@ -13,11 +13,11 @@ export class MessageUpdate extends Event {
    * @returns {void}
    */
   handle(data: { id: string; channel: string; data: API.Message }): void {
-    const channel = this.client.channels.cache.get(data.channel);
+    const channel = this.client.channels._get(data.channel);
 
     if (!channel?.isText()) return;
 
-    const message = channel?.messages.cache.get(data.id);
+    const message = channel?.messages._get(data.id);
     const oldMessage = message?._update(data.data);
 
     if (oldMessage && message && !message.equals(oldMessage)) {
@@ -0,0 +1,254 @@
+import { ClientUser } from "../../struct/clientUser";
+import { Emoji } from "../../struct/emoji";
+import type { Role, Server, ServerMember } from "../../struct/index";
+import type { voiceParticipant } from "../../struct/voiceChannels";
+import { Event, API, Events } from "./event";
+
+/**
+ * Represents the raw `Ready` payload sent after authenticating.
+ * @private
+ */
+export interface ReadyData {
+  users: API.User[];
+  servers: API.Server[];
+  channels: API.Channel[];
+  members: API.Member[];
+  emojis: API.Emoji[];
+  voice_states?: { id: string; participants: voiceParticipant[] }[];
+}
+
+/**
+ * Represents the handler for the `Ready` payload.
+ * Fills the caches on the first connection. After a reconnect, the caches are compared with the
+ * payload: cached structures are updated in place so references held elsewhere stay valid, anything
+ * that vanished while offline is removed, and the matching create, update and delete events are
+ * emitted for what changed.
+ *
+ * Server members can only be compared when `fetchMembers` is enabled, as the payload only
+ * holds the client's own members.
+ *
+ * Not registered with the `EventManager`; the WebSocket client calls it directly so it cannot be
+ * ignored or filtered out by a shard.
+ * @private
+ * @extends Event
+ */
+export class Ready extends Event {
+  /**
+   * Handles the `Ready` payload.
+   *
+   * @param {ReadyData} data - The raw `Ready` payload.
+   * @param {boolean} [resumed=false] - Whether this payload follows a reconnect, so new structures emit create events.
+   * @returns {Promise<void>} A promise that resolves when the caches are filled and members are optionally fetched.
+   */
+  async handle(data: ReadyData, resumed: boolean = false): Promise<void> {
+    const promises: Promise<unknown>[] = [];
+
+    for (const user of data.users) {
+      if (user.relationship === "User") {
+        if (this.client.user) this.client.user._update(user);
+        else this.client.user = new ClientUser(this.client, user);
+        continue;
+      }
+
+      const old = this.upsert(this.client.users, user._id, user);
+      if (old) {
+        const current = this.client.users.cache.get(user._id)!;
+        if (!current.equals(old)) {
+          this.client.emit(Events.USER_UPDATE, old, current);
+        }
+      }
+    }
+
+    const serverIds = new Set(
+      data.servers
+        .map((server) => server._id)
+        .filter((id) => this.client.ownsServer(id)),
+    );
+
+    this.syncChannels(data.channels, serverIds, resumed);
+
+    for (const id of [...this.client.servers.cache.keys()]) {
+      if (serverIds.has(id) || !this.client.ownsServer(id)) continue;
+      const server = this.client.servers.cache.get(id)!;
+      this.client.servers._remove(id);
+      this.client.emit(Events.SERVER_DELETE, server);
+    }
+
+    for (const raw of data.servers) {
+      if (!serverIds.has(raw._id)) continue;
+
+      const existing = this.client.servers.cache.get(raw._id);
+      const members = new Map(existing?.members.cache.entries() ?? []);
+      const server = this.syncServer(raw, resumed);
+
+      if (this.client.options.fetchMembers) {
+        promises.push(
+          server.members
+            .fetch()
+            .then((fetched) =>
+              this.syncMembers(server, members, fetched, resumed),
+            ),
+        );
+      }
+    }
+
+    for (const member of data.members) {
+      const server = this.client.servers.cache.get(member._id.server);
+      if (!server) continue;
+
+      const old = this.upsert(server.members, member._id.user, member);
+      const current = server.members.cache.get(member._id.user)!;
+      if (old && !current.equals(old)) {
+        this.client.emit(Events.SERVER_MEMBER_UPDATE, old, current);
+      }
+    }
+
+    for (const emoji of data.emojis) {
+      if (emoji.parent.type !== "Server") continue;
+      this.client.servers.cache
+        .get(emoji.parent.id)
+        ?.emojis.set(emoji._id, new Emoji(this.client, emoji));
+    }
+
+    await Promise.all(promises);
+
+    for (const voice_state of data.voice_states ?? []) {
+      const channel = this.client.channels.cache.get(voice_state.id);
+      for (const participant of voice_state.participants) {
+        channel?.voice?.set(participant.id, participant);
+      }
+    }
+  }
+
+  /**
+   * Updates the channel cache from the payload.
+   * Direct message and saved message channels are kept, as the payload may leave out inactive
+   * ones. Channels of removed servers are left for the server removal to clean up.
+   * @private
+   */
+  private syncChannels(
+    channels: API.Channel[],
+    serverIds: Set<string>,
+    resumed: boolean,
+  ): void {
+    const seen = new Set<string>();
+
+    for (const raw of channels) {
+      const serverId = "server" in raw ? raw.server : null;
+      if (!this.client.ownsChannel(serverId)) continue;
+      seen.add(raw._id);
+
+      const old = this.upsert(this.client.channels, raw._id, raw);
+      const channel = this.client.channels.cache.get(raw._id)!;
+
+      if (!old) {
+        if (resumed) this.client.emit(Events.CHANNEL_CREATE, channel);
+      } else if (!channel.equals(old)) {
+        this.client.emit(Events.CHANNEL_UPDATE, old, channel);
+      }
+    }
+
+    for (const [id, channel] of [...this.client.channels.cache.entries()]) {
+      if (seen.has(id)) continue;
+
+      if (channel.inServer()) {
+        if (!this.client.ownsServer(channel.serverId)) continue;
+        if (!serverIds.has(channel.serverId)) continue;
+      } else if (!channel.isGroup()) {
+        continue;
+      }
+
+      this.client.channels._remove(id);
+      this.client.emit(Events.CHANNEL_DELETE, channel);
+    }
+  }
+
+  /**
+   * Updates or adds a server from the payload, along with its roles.
+   * @private
+   */
+  private syncServer(raw: API.Server, resumed: boolean): Server {
+    const existing = this.client.servers.cache.get(raw._id);
+
+    if (!existing) {
+      const server = this.client.servers._add(raw);
+      if (resumed) this.client.emit(Events.SERVER_CREATE, server);
+      return server;
+    }
+
+    const roles = new Map<string, Role>(existing.roles.cache.entries());
+    const old = existing._update(raw);
+    if (!existing.equals(old)) {
+      this.client.emit(Events.SERVER_UPDATE, old, existing);
+    }
+
+    const roleIds = new Set(Object.keys(raw.roles ?? {}));
+    for (const [id, role] of roles) {
+      const current = existing.roles.cache.get(id);
+
+      if (!roleIds.has(id)) {
+        existing.roles._remove(id);
+        this.client.emit(Events.ROLE_DELETE, role);
+      } else if (current && current !== role && !current.equals(role)) {
+        this.client.emit(Events.ROLE_UPDATE, role, current);
+      }
+    }
+
+    for (const id of roleIds) {
+      if (roles.has(id)) continue;
+      const role = existing.roles.cache.get(id);
+      if (role) this.client.emit(Events.ROLE_CREATE, role);
+    }
+
+    return existing;
+  }
+
+  /**
+   * Compares the members of a server before the reconnect with the freshly fetched members.
+   * @private
+   */
+  private syncMembers(
+    server: Server,
+    before: Map<string, ServerMember>,
+    fetched: Map<string, ServerMember>,
+    resumed: boolean,
+  ): void {
+    for (const [id, old] of before) {
+      const current = fetched.get(id);
+
+      if (!current) {
+        server.members._remove(id);
+        this.client.emit(Events.SERVER_MEMBER_LEAVE, old);
+      } else if (current !== old && !current.equals(old)) {
+        this.client.emit(Events.SERVER_MEMBER_UPDATE, old, current);
+      }
+    }
+
+    if (!resumed) return;
+
+    for (const [id, member] of fetched) {
+      if (!before.has(id)) {
+        this.client.emit(Events.SERVER_MEMBER_JOIN, member);
+      }
+    }
+  }
+
+  /**
+   * Updates a cached structure in place, or adds it if it is not cached.
+   *
+   * @returns The structure as it was before the update, or `null` if it was added.
+   * @private
+   */
+  private upsert<T extends { id: string; _update(data: any): T }, R>(
+    manager: { cache: { get(id: string): T | undefined }; _add(raw: R): T },
+    id: string,
+    raw: R,
+  ): T | null {
+    const existing = manager.cache.get(id);
+    if (!existing) {
+      manager._add(raw);
+      return null;
+    }
+    return existing._update(raw);
+  }
+}
@@ -13,7 +13,7 @@ export class ServerDelete extends Event {
    * @returns {{ server: unknown }} An object containing the deleted server, or `undefined` if not found.
    */
   handle(data: API.Server): unknown {
-    const server = this.client.servers.cache.get(data._id);
+    const server = this.client.servers._get(data._id);
 
     if (server) {
       this.client.servers._remove(server.id);
@@ -13,7 +13,7 @@ export class ServerMemberJoin extends Event {
    * @returns {Promise<{ member: unknown }>} A promise that resolves with the joined member.
    */
   async handle(data: { id: string; user: string }): Promise<unknown> {
-    let server = this.client.servers.cache.get(data.id);
+    let server = this.client.servers._get(data.id);
 
     if (!server) {
       server = await this.client.servers.fetch(data.id);
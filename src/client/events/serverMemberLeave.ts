@@ -13,10 +13,10 @@ export class ServerMemberLeave extends Event {
    * @returns {{ server: unknown; member?: unknown }} An object containing the server and the member who left, or just the server if the member is not found.
    */
   handle(data: { id: string; user: string }): unknown {
-    const server = this.client.servers.cache.get(data.id);
+    const server = this.client.servers._get(data.id);
 
     if (server) {
-      const member = server.members.cache.get(data.user);
+      const member = server.members._get(data.user);
 
       if (member) {
         server.members._remove(member.id);
@@ -21,8 +21,8 @@ export class ServerMemberUpdate extends Event {
       ...data.data,
       _id: { server: data.id.server, user: data.id.user },
     };
-    const server = this.client.servers.cache.get(data.id.server);
-    const member = server?.members.cache.get(data.id.user);
+    const server = this.client.servers._get(data.id.server);
+    const member = server?.members._get(data.id.user);
     const oldMember = member?._update(updateData);
 
     if (
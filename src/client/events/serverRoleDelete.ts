@@ -13,10 +13,10 @@ export class ServerRoleDelete extends Event {
    * @returns {{ role: unknown } | {}} An object containing the deleted role, or an empty object if the role or server is not found.
    */
   handle(data: { id: string; role_id: string }): unknown {
-    const server = this.client.servers.cache.get(data.id);
+    const server = this.client.servers._get(data.id);
 
     if (server) {
-      const role = server.roles.cache.get(data.role_id);
+      const role = server.roles._get(data.role_id);
 
       if (role) {
         server.roles._remove(role.id);
@@ -19,11 +19,11 @@ export class ServerRoleUpdate extends Event {
     data: API.Role & { _id: string };
     clear: API.FieldsRole[];
   }): Promise<void> {
-    const server = this.client.servers.cache.get(data.id);
+    const server = this.client.servers._get(data.id);
 
     if (!server) return;
 
-    let role = server.roles.cache.get(data.role_id);
+    let role = server.roles._get(data.role_id);
     const oldRole = role?._update(data.data, data.clear);
 
     if (!oldRole && !role) {
@@ -42,7 +42,7 @@ export class ServerRoleUpdate extends Event {
           }
         }),
       );
-      role = server.roles.cache.get(data.role_id)!;
+      role = server.roles._get(data.role_id)!;
     }
 
     if (role && oldRole && !role.equals(oldRole)) {
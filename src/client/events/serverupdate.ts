@@ -17,7 +17,7 @@ export class ServerUpdate extends Event {
     data: API.Server;
     clear: API.FieldsServer[];
   }): void {
-    const server = this.client.servers.cache.get(data.id);
+    const server = this.client.servers._get(data.id);
     const oldServer = server?._update(data.data, data.clear);
 
     if (oldServer && server && !oldServer.equals(server)) {
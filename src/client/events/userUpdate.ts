@@ -16,7 +16,7 @@ export class UserUpdate extends Event {
     const user =
       data.id === this.client.user!.id
         ? this.client.user
-        : this.client.users.cache.get(data.id);
+        : this.client.users._get(data.id);
     const oldUser = user?._update(data.data, data.clear);
 
     if (user && oldUser && !user.equals(oldUser)) {
@@ -22,7 +22,7 @@ export class VoiceChannelJoin extends Event {
    * @returns {void}
    */
   handle(data: VoiceChannelJoinData): void {
-    const channel = this.client.channels.cache.get(data.id);
+    const channel = this.client.channels._get(data.id);
     if (
       channel?.type === ChannelTypes.VOICE ||
       channel?.type === ChannelTypes.GROUP
@@ -0,0 +1,445 @@
+/**
+ * Information about the audio a PCM filter is processing
+ */
+export interface FilterContext {
+  /** The sample rate of the audio, in Hz */
+  sampleRate: number;
+  /** The number of interleaved channels */
+  channels: number;
+  /** The position of the first sample in the source audio, in milliseconds */
+  position: number;
+  /** The length of the source audio in milliseconds, or `null` for live streams */
+  duration: number | null;
+  /** Identifies the audio being processed. Filters that keep state between chunks keep it per source. */
+  source: object;
+}
+
+/**
+ * A filter that runs in-process on 16-bit PCM chunks, just before they are sent to LiveKit.
+ * Changes take effect on the next chunk.
+ */
+export interface PCMFilter {
+  /** The name of the filter. Adding a filter replaces any filter with the same name. */
+  readonly name: string;
+  /**
+   * Process a chunk of audio
+   * @param samples - The interleaved samples. May be modified in place.
+   * @param context - Information about the audio
+   * @returns The processed samples
+   */
+  process(samples: Int16Array, context: FilterContext): Int16Array;
+}
+
+/**
+ * A filter applied by ffmpeg with `-af` while the audio is converted.
+ * Changing ffmpeg filters during playback restarts ffmpeg from the current position.
+ */
+export class FFmpegFilter {
+  /**
+   * @param name - The name of the filter. Adding a filter replaces any filter with the same name.
+   * @param filter - The ffmpeg filter graph, e.g. `bass=g=10`
+   * @param tempo - How much faster than the source the filter plays audio, used to keep the position in source time (default: 1)
+   */
+  constructor(
+    readonly name: string,
+    readonly filter: string,
+    readonly tempo: number = 1,
+  ) {}
+
+  /**
+   * Boost low frequencies
+   * @param gain - The boost in dB (default: 10)
+   */
+  static bassBoost(gain: number = 10): FFmpegFilter {
+    return new FFmpegFilter("bassBoost", `bass=g=${gain}`);
+  }
+
+  /**
+   * Speed up audio and raise its pitch
+   * @param rate - How much faster to play (default: 1.25)
+   */
+  static nightcore(rate: number = 1.25): FFmpegFilter {
+    return new FFmpegFilter("nightcore", resample(rate), rate);
+  }
+
+  /**
+   * Slow down audio and lower its pitch
+   * @param rate - How much slower to play (default: 0.8)
+   */
+  static vaporwave(rate: number = 0.8): FFmpegFilter {
+    return new FFmpegFilter("vaporwave", resample(rate), rate);
+  }
+
+  /**
+   * Change the speed of audio without changing its pitch
+   * @param rate - The speed, e.g. 1.5 for 150%
+   */
+  static speed(rate: number): FFmpegFilter {
+    return new FFmpegFilter("speed", tempo(rate), rate);
+  }
+
+  /**
+   * Change the pitch of audio without changing its speed
+   * @param rate - The pitch, e.g. 1.1 for 10% higher
+   */
+  static pitch(rate: number): FFmpegFilter {
+    return new FFmpegFilter("pitch", `${resample(rate)},${tempo(1 / rate)}`);
+  }
+
+  /**
+   * Even out loudness to the EBU R128 standard
+   */
+  static normalize(): FFmpegFilter {
+    return new FFmpegFilter("normalize", "loudnorm");
+  }
+}
+
+/**
+ * A filter applied to the audio of an AudioPlayer
+ */
+export type AudioFilter = PCMFilter | FFmpegFilter;
+
+/**
+ * Change the volume of audio
+ */
+export class GainFilter implements PCMFilter {
+  readonly name = "gain";
+
+  /**
+   * @param gain - The change in dB, e.g. `6` to double the amplitude or `-6` to halve it
+   */
+  constructor(readonly gain: number) {}
+
+  process(samples: Int16Array): Int16Array {
+    const factor = 10 ** (this.gain / 20);
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = clamp(samples[i] * factor);
+    }
+    return samples;
+  }
+}
+
+/**
+ * A band of an EqualizerFilter
+ */
+export interface EqualizerBand {
+  /** The centre frequency, in Hz */
+  frequency: number;
+  /** The change in dB */
+  gain: number;
+  /** How narrow the band is (default: 1) */
+  q?: number;
+}
+
+/** The state of a biquad filter for one channel */
+type BiquadState = { x1: number; x2: number; y1: number; y2: number };
+
+/**
+ * Boost or cut frequency bands, using peaking biquad filters
+ *
+ * @example
+ * ```typescript
+ * player.filters.add(new EqualizerFilter([
+ *   { frequency: 60, gain: 6 },
+ *   { frequency: 250, gain: 3 },
+ *   { frequency: 4000, gain: -2 },
+ * ]));
+ * ```
+ */
+export class EqualizerFilter implements PCMFilter {
+  readonly name = "equalizer";
+  private readonly states = new WeakMap<object, BiquadState[][]>();
+
+  /**
+   * @param bands - The bands to apply
+   */
+  constructor(readonly bands: EqualizerBand[]) {}
+
+  process(samples: Int16Array, context: FilterContext): Int16Array {
+    const { sampleRate, channels, source } = context;
+    let states = this.states.get(source);
+    if (!states) {
+      states = this.bands.map(() =>
+        Array.from({ length: channels }, () => ({
+          x1: 0,
+          x2: 0,
+          y1: 0,
+          y2: 0,
+        })),
+      );
+      this.states.set(source, states);
+    }
+
+    this.bands.forEach((band, b) => {
+      const [b0, b1, b2, a1, a2] = peaking(band, sampleRate);
+      for (let i = 0; i < samples.length; i++) {
+        const state = states[b][i % channels];
+        const x = samples[i];
+        const y =
+          b0 * x +
+          b1 * state.x1 +
+          b2 * state.x2 -
+          a1 * state.y1 -
+          a2 * state.y2;
+        state.x2 = state.x1;
+        state.x1 = x;
+        state.y2 = state.y1;
+        state.y1 = y;
+        samples[i] = clamp(y);
+      }
+    });
+    return samples;
+  }
+}
+
+/**
+ * Fade audio in at the start and out at the end. Fading out needs the length, so live streams only fade in.
+ */
+export class FadeFilter implements PCMFilter {
+  readonly name: string = "fade";
+
+  /**
+   * @param fadeIn - How long to fade in for, in milliseconds (default: 0)
+   * @param fadeOut - How long to fade out for, in milliseconds (default: 0)
+   */
+  constructor(
+    readonly fadeIn: number = 0,
+    readonly fadeOut: number = 0,
+  ) {}
+
+  process(samples: Int16Array, context: FilterContext): Int16Array {
+    const { sampleRate, channels, position, duration } = context;
+    const samplesPerMs = (sampleRate / 1000) * channels;
+
+    for (let i = 0; i < samples.length; i++) {
+      const time = position + i / samplesPerMs;
+      let factor = 1;
+      if (this.fadeIn > 0 && time < this.fadeIn) {
+        factor = time / this.fadeIn;
+      }
+      if (
+        this.fadeOut > 0 &&
+        duration !== null &&
+        duration - time < this.fadeOut
+      ) {
+        factor = Math.min(factor, Math.max(0, duration - time) / this.fadeOut);
+      }
+      if (factor < 1) samples[i] = Math.round(samples[i] * factor);
+    }
+    return samples;
+  }
+}
+
+/**
+ * Crossfade between queued tracks. The next track in the queue starts while the current one fades out,
+ * and fades in over the same time.
+ */
+export class CrossfadeFilter extends FadeFilter {
+  readonly name = "crossfade";
+
+  /**
+   * @param duration - How long the tracks overlap for, in milliseconds
+   */
+  constructor(readonly duration: number) {
+    super(duration, duration);
+  }
+}
+
+/**
+ * The filters applied to the audio of an AudioPlayer, available as `player.filters`.
+ * Filters run in the order they were added, and can be changed during playback.
+ *
+ * @example
+ * ```typescript
+ * player.filters
+ *   .add(FFmpegFilter.bassBoost(8))
+ *   .add(FFmpegFilter.normalize())
+ *   .add(new CrossfadeFilter(3000));
+ *
+ * player.on('filtersChanged', (filters) => console.log(filters.map((f) => f.name)));
+ * player.filters.remove('bassBoost');
+ * ```
+ */
+export class FilterChain {
+  private filters: AudioFilter[] = [];
+
+  /**
+   * @param onChange - Called after every change, with whether the ffmpeg filters changed
+   */
+  constructor(private readonly onChange: (ffmpegChanged: boolean) => void) {}
+
+  /**
+   * Get the filters, in the order they are applied
+   */
+  get active(): readonly AudioFilter[] {
+    return [...this.filters];
+  }
+
+  /**
+   * Get how long queued tracks overlap for, in milliseconds, or 0 if there is no CrossfadeFilter
+   */
+  get crossfade(): number {
+    const filter = this.filters.find(
+      (f): f is CrossfadeFilter => f instanceof CrossfadeFilter,
+    );
+    return filter?.duration ?? 0;
+  }
+
+  /**
+   * Get how much faster than the source the ffmpeg filters play audio, e.g. 1.25 with `nightcore()`
+   */
+  get tempo(): number {
+    return this.filters.reduce(
+      (tempo, filter) =>
+        filter instanceof FFmpegFilter ? tempo * filter.tempo : tempo,
+      1,
+    );
+  }
+
+  /**
+   * Check whether a filter is applied
+   * @param name - The name of the filter
+   */
+  has(name: string): boolean {
+    return this.filters.some((filter) => filter.name === name);
+  }
+
+  /**
+   * Add a filter, replacing any filter with the same name in place
+   * @param filter - The filter to add
+   * @returns The filter chain
+   */
+  add(filter: AudioFilter): this {
+    return this.update(() => {
+      const index = this.filters.findIndex((f) => f.name === filter.name);
+      if (index === -1) this.filters.push(filter);
+      else this.filters[index] = filter;
+    });
+  }
+
+  /**
+   * Remove a filter
+   * @param name - The name of the filter
+   * @returns The filter chain
+   */
+  remove(name: string): this {
+    return this.update(() => {
+      this.filters = this.filters.filter((filter) => filter.name !== name);
+    });
+  }
+
+  /**
+   * Replace every filter
+   * @param filters - The filters to apply, in order
+   * @returns The filter chain
+   */
+  set(filters: AudioFilter[]): this {
+    return this.update(() => {
+      this.filters = [...filters];
+    });
+  }
+
+  /**
+   * Remove every filter
+   * @returns The filter chain
+   */
+  clear(): this {
+    return this.set([]);
+  }
+
+  /**
+   * Run the PCM filters on a chunk of audio
+   * @private
+   */
+  process(samples: Int16Array, context: FilterContext): Int16Array {
+    for (const filter of this.filters) {
+      if (!(filter instanceof FFmpegFilter)) {
+        samples = filter.process(samples, context);
+      }
+    }
+    return samples;
+  }
+
+  /**
+   * Get the ffmpeg arguments that apply the ffmpeg filters
+   * @private
+   */
+  ffmpegArgs(): string[] {
+    const graph = this.filters
+      .filter(
+        (filter): filter is FFmpegFilter => filter instanceof FFmpegFilter,
+      )
+      .map((filter) => filter.filter)
+      .join(",");
+    return graph ? ["-af", graph] : [];
+  }
+
+  /**
+   * Apply a change and report it
+   * @private
+   */
+  private update(change: () => void): this {
+    const before = this.ffmpegArgs().join(" ");
+    change();
+    this.onChange(this.ffmpegArgs().join(" ") !== before);
+    return this;
+  }
+}
+
+/**
+ * Clamp a sample to the 16-bit range
+ * @private
+ */
+function clamp(sample: number): number {
+  return Math.max(-32768, Math.min(32767, Math.round(sample)));
+}
+
+/**
+ * Build an ffmpeg filter that plays audio faster or slower by resampling, which also changes the pitch
+ * @private
+ */
+function resample(rate: number): string {
+  return `aresample=48000,asetrate=48000*${rate},aresample=48000`;
+}
+
+/**
+ * Build an ffmpeg filter that changes the speed of audio, chaining `atempo` to stay within its 0.5 to 2 range
+ * @private
+ */
+function tempo(rate: number): string {
+  if (!(rate > 0)) throw new RangeError("Rate must be greater than 0");
+
+  const filters: string[] = [];
+  while (rate > 2) {
+    filters.push("atempo=2");
+    rate /= 2;
+  }
+  while (rate < 0.5) {
+    filters.push("atempo=0.5");
+    rate /= 0.5;
+  }
+  filters.push(`atempo=${rate}`);
+  return filters.join(",");
+}
+
+/**
+ * Get the normalised coefficients of a peaking EQ biquad, from the Audio EQ Cookbook
+ * @private
+ */
+function peaking(
+  band: EqualizerBand,
+  sampleRate: number,
+): [number, number, number, number, number] {
+  const A = 10 ** (band.gain / 40);
+  const w0 = (2 * Math.PI * band.frequency) / sampleRate;
+  const alpha = Math.sin(w0) / (2 * (band.q ?? 1));
+  const cos = Math.cos(w0);
+  const a0 = 1 + alpha / A;
+  return [
+    (1 + alpha * A) / a0,
+    (-2 * cos) / a0,
+    (1 - alpha * A) / a0,
+    (-2 * cos) / a0,
+    (1 - alpha / A) / a0,
+  ];
+}
@@ -0,0 +1,178 @@
+import type { client } from "./client";
+import type { VoiceNode } from "./baseClient";
+
+/**
+ * A position on Earth, in degrees
+ */
+export interface GeoLocation {
+  lat: number;
+  lon: number;
+}
+
+/**
+ * How the voice node to join calls on is chosen. Nodes that are not chosen are kept as fallbacks
+ * for failover, in the order they are listed unless stated otherwise.
+ * - `first`: the first node listed by the instance (the default)
+ * - `name`: a node by name
+ * - `nearest`: the node closest to `location`, then the next closest and so on
+ * - `latency`: the node whose `public_url` responds fastest, then the next fastest and so on.
+ *   Measurements are reused for `cacheFor` milliseconds (default: 5 minutes), and nodes that do not respond
+ *   within `timeout` milliseconds (default: 2000) are tried last.
+ * - `custom`: the nodes returned by `select`, in order. Nodes left out are not tried.
+ *
+ * @example
+ * ```typescript
+ * const bot = new client({
+ *   voice: { nodeSelection: { strategy: "nearest", location: { lat: 52.5, lon: 13.4 } } },
+ * });
+ * ```
+ */
+export type NodeSelection =
+  | { strategy: "first" }
+  | { strategy: "name"; name: string }
+  | { strategy: "nearest"; location: GeoLocation }
+  | { strategy: "latency"; timeout?: number; cacheFor?: number }
+  | {
+      strategy: "custom";
+      select: (nodes: VoiceNode[]) => VoiceNode[] | Promise<VoiceNode[]>;
+    };
+
+/** The mean radius of Earth in kilometres */
+const EARTH_RADIUS = 6371;
+
+/**
+ * Orders the voice nodes of the instance by the configured `voice.nodeSelection` strategy
+ * @private
+ */
+export class NodeSelector {
+  /** Measured latencies in milliseconds by node name, with when they were measured */
+  private readonly latencies = new Map<
+    string,
+    { latency: number; measuredAt: number }
+  >();
+
+  constructor(private readonly client: client) {}
+
+  /**
+   * Get the nodes in the order they should be tried
+   */
+  async order(): Promise<VoiceNode[]> {
+    const nodes = [...(this.client.voiceOptions.nodes ?? [])];
+    const selection = this.client.voiceOptions.nodeSelection ?? {
+      strategy: "first",
+    };
+
+    switch (selection.strategy) {
+      case "first":
+        return nodes;
+      case "name": {
+        const node = nodes.find((n) => n.name === selection.name);
+        if (!node) {
+          this.client.logger.warn(
+            `Voice node ${selection.name} does not exist, using the first node`,
+            { component: "voice", nodes: nodes.map((n) => n.name) },
+          );
+          return nodes;
+        }
+        return [node, ...nodes.filter((n) => n !== node)];
+      }
+      case "nearest":
+        return sortBy(nodes, (node) => distance(selection.location, node));
+      case "latency": {
+        const latencies = await Promise.all(
+          nodes.map((node) =>
+            this.latency(
+              node,
+              selection.timeout ?? 2000,
+              selection.cacheFor ?? 300_000,
+            ),
+          ),
+        );
+        return sortBy(nodes, (node) => latencies[nodes.indexOf(node)]);
+      }
+      case "custom":
+        try {
+          return await selection.select(nodes);
+        } catch (error) {
+          this.client.logger.warn(
+            "Custom voice node selection failed, using the first node",
+            { component: "voice", error },
+          );
+          return nodes;
+        }
+    }
+  }
+
+  /**
+   * Get the latency of a node, measuring it if there is no recent measurement
+   * @returns The latency in milliseconds, or `Infinity` if the node did not respond
+   * @private
+   */
+  private async latency(
+    node: VoiceNode,
+    timeout: number,
+    cacheFor: number,
+  ): Promise<number> {
+    const cached = this.latencies.get(node.name);
+    if (cached && Date.now() - cached.measuredAt < cacheFor) {
+      return cached.latency;
+    }
+
+    const start = Date.now();
+    let latency: number;
+    try {
+      await this.client.api.transport.request({
+        method: "GET",
+        // LiveKit answers plain HTTP requests on its WebSocket URL
+        url: node.public_url.replace(/^ws(s?):\/\//i, "http$1://"),
+        headers: {},
+        signal: AbortSignal.timeout(timeout),
+      });
+      latency = Date.now() - start;
+    } catch (error) {
+      latency = Infinity;
+      this.client.logger.debug(`Voice node ${node.name} did not respond`, {
+        component: "voice",
+        error,
+      });
+    }
+
+    this.latencies.set(node.name, { latency, measuredAt: Date.now() });
+    this.client.logger.debug(`Measured voice node ${node.name}`, {
+      component: "voice",
+      latency,
+    });
+    return latency;
+  }
+}
+
+/**
+ * Sort nodes by a key, keeping the listed order for equal keys
+ * @private
+ */
+function sortBy(
+  nodes: VoiceNode[],
+  key: (node: VoiceNode) => number,
+): VoiceNode[] {
+  const keys = new Map(nodes.map((node) => [node, key(node)]));
+  return [...nodes].sort((a, b) => {
+    const difference = keys.get(a)! - keys.get(b)!;
+    return Number.isNaN(difference) ? 0 : difference;
+  });
+}
+
+/**
+ * Get the great-circle distance between two positions in kilometres, using the haversine formula
+ * @private
+ */
+function distance(from: GeoLocation, to: GeoLocation): number {
+  const radians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = radians(to.lat - from.lat);
+  const dLon = radians(to.lon - from.lon);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(radians(from.lat)) *
+      Math.cos(radians(to.lat)) *
+      Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS * Math.asin(Math.sqrt(a));
+}
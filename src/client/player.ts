@@ -15,6 +15,11 @@ import {
 } from "@livekit/rtc-node";
 
 import { client } from "./client";
+import { StoatAPIError } from "../errors/index";
+import type { LogFields, LogLevel } from "../utils/logger";
+import { Queue, type Track, type TrackEndReason } from "./queue";
+import { FilterChain, type AudioFilter } from "./filters";
+import { VoiceReceiver, type RecordingFile } from "./receiver";
 
 /**
  * Events emitted by the AudioPlayer
@@ -33,10 +38,56 @@ export interface AudioPlayerEvents {
   conversionStart: [source: string, sampleRate: number, channels: number];
   conversionEnd: [source: string, samplesProcessed: number];
   conversionError: [source: string, error: Error];
+  paused: [position: number];
+  resumed: [position: number];
+  seeked: [position: number];
+  filtersChanged: [filters: readonly AudioFilter[]];
+  trackStart: [track: Track];
+  trackEnd: [track: Track, reason: TrackEndReason];
+  queueEnd: [];
+  speakingStart: [userId: string];
+  speakingStop: [userId: string];
+  recordingSaved: [file: RecordingFile];
   debug: [message: string, data?: any];
   error: [error: Error, context?: string];
 }
 
+/**
+ * The audio being published, used to pause, resume and seek
+ * @private
+ */
+interface Playback {
+  /** The file path or URL to restart ffmpeg from when seeking, or `null` for streams */
+  input: string | null;
+  /** Whether the audio is a live stream, which is published as it arrives and cannot be seeked */
+  live: boolean;
+  /** The converted audio, empty for live streams */
+  pcm: Int16Array;
+  /** The position in the source, in milliseconds, of the first sample of `pcm` */
+  base: number;
+  /** How much faster than the source the samples play, from the ffmpeg filters they were converted with */
+  rate: number;
+  /** The number of samples of `pcm` pushed so far */
+  offset: number;
+  /** The position in the source, in milliseconds, the samples were pushed from */
+  start: number;
+  /** The number of samples pushed into the AudioSource since `start` */
+  pushed: number;
+  /** Restarts ffmpeg with the current filters, for live streams */
+  respawn?: () => void;
+}
+
+/** The number of mono samples played per millisecond at 48kHz */
+const SAMPLES_PER_MS = 48;
+
+/**
+ * Get the position in the source after a number of samples were pushed from `start`
+ * @private
+ */
+function sourcePosition(playback: Playback, pushed: number): number {
+  return playback.start + (pushed / SAMPLES_PER_MS) * playback.rate;
+}
+
 export declare interface AudioPlayer {
   on<K extends keyof AudioPlayerEvents>(
     event: K,
@@ -62,12 +113,31 @@ export class AudioPlayer extends EventEmitter {
   private isConnected: boolean = false;
   private shouldStop: boolean = false; // Flag to control audio playback cancellation
   private isStreaming: boolean = false; // Flag to control streaming audio playback
+  private playback?: Playback;
+  /** The name of the voice node the player is connected on */
+  private selectedNode: string | null = null;
+  private pauseGate: { promise: Promise<void>; release: () => void } | null =
+    null;
+
+  /** The tracks queued to play on this player */
+  readonly queue: Queue;
+
+  /** The filters applied to the audio of this player */
+  readonly filters: FilterChain;
+
+  /** Receives audio from the other participants of the channel */
+  readonly receiver: VoiceReceiver;
 
   constructor(channelId: string, serverId: string, client: client) {
     super();
     this.channelId = channelId;
     this.serverId = serverId;
     this.client = client;
+    this.queue = new Queue(this);
+    this.filters = new FilterChain((ffmpegChanged) =>
+      this.filtersChanged(ffmpegChanged),
+    );
+    this.receiver = new VoiceReceiver(this, client);
   }
 
   /**
@@ -98,6 +168,177 @@ export class AudioPlayer extends EventEmitter {
     return this.isConnected && !!this.room;
   }
 
+  /**
+   * Check if playback is paused
+   */
+  get paused(): boolean {
+    return this.pauseGate !== null;
+  }
+
+  /**
+   * Check if playback was stopped with `stop()` rather than reaching the end of the audio
+   * @private
+   */
+  get stopping(): boolean {
+    return this.shouldStop;
+  }
+
+  /**
+   * Get the playback position in the source audio in milliseconds, computed from the frames pushed into
+   * the AudioSource and the tempo of the ffmpeg filters
+   */
+  get position(): number {
+    const playback = this.playback;
+    if (!playback) return 0;
+    return Math.round(sourcePosition(playback, playback.pushed));
+  }
+
+  /**
+   * Pause playback. Frames are held back until `resume()` is called, so nothing is skipped.
+   */
+  pause(): void {
+    if (!this.playback || this.pauseGate) return;
+
+    let release!: () => void;
+    const promise = new Promise<void>((resolve) => (release = resolve));
+    this.pauseGate = { promise, release };
+
+    this.emit("debug", "Playback paused", { position: this.position });
+    this.emit("paused", this.position);
+  }
+
+  /**
+   * Resume paused playback from where it was paused
+   */
+  resume(): void {
+    const gate = this.pauseGate;
+    if (!gate) return;
+
+    this.pauseGate = null;
+    gate.release();
+
+    this.emit("debug", "Playback resumed", { position: this.position });
+    this.emit("resumed", this.position);
+  }
+
+  /**
+   * Seek to a position in the current audio.
+   * Files and URLs are converted again by ffmpeg from the new position, and playback continues from the old position until that is done.
+   * @param ms - The position to seek to, in milliseconds
+   * @throws {Error} If nothing is playing, or the audio is a live stream
+   */
+  async seek(ms: number): Promise<void> {
+    const playback = this.playback;
+    if (!playback) {
+      throw new Error("Nothing is playing");
+    }
+    if (playback.live) {
+      throw new Error("Live streams cannot be seeked");
+    }
+
+    const target = Math.max(0, ms);
+    if (playback.input !== null) {
+      // Playback ended or something else started while converting
+      if (!(await this.reconvert(playback, playback.input, target, false))) {
+        return;
+      }
+    } else {
+      playback.offset = Math.min(
+        playback.pcm.length,
+        Math.max(
+          0,
+          Math.round(
+            ((target - playback.base) / playback.rate) * SAMPLES_PER_MS,
+          ),
+        ),
+      );
+    }
+    playback.start = target;
+    playback.pushed = 0;
+
+    this.emit("debug", "Playback seeked", { position: target });
+    this.emit("seeked", target);
+  }
+
+  /**
+   * Convert a file or URL again from a position, and continue playback from there
+   * @param playback - The playback to replace the audio of
+   * @param input - The file path or URL
+   * @param target - The position in the source to convert from, in milliseconds
+   * @param catchUp - Whether to skip what played while converting, instead of continuing from `target`
+   * @returns Whether the audio is still playing and was replaced
+   * @private
+   */
+  private async reconvert(
+    playback: Playback,
+    input: string,
+    target: number,
+    catchUp: boolean,
+  ): Promise<boolean> {
+    const rate = this.filters.tempo;
+    const pcmData = await this.convertAudioToPCM(input, 48000, 1, target);
+    if (this.playback !== playback) return false;
+
+    const pcm = this.applyVolume(pcmData);
+    const skipped = catchUp ? Math.max(0, this.position - target) : 0;
+    playback.pcm = pcm;
+    playback.rate = rate;
+    playback.base = target;
+    playback.offset = Math.min(
+      pcm.length,
+      Math.round((skipped / rate) * SAMPLES_PER_MS),
+    );
+    playback.start = target + skipped;
+    playback.pushed = 0;
+    return true;
+  }
+
+  /**
+   * Apply changed filters to the audio that is playing. PCM filters apply from the next chunk, while
+   * ffmpeg filters need ffmpeg to be restarted. Streams that are not live cannot be converted again,
+   * so their ffmpeg filters change from the next audio.
+   * @private
+   */
+  private filtersChanged(ffmpegChanged: boolean): void {
+    const filters = this.filters.active;
+    this.emit("debug", "Filters changed", {
+      filters: filters.map((filter) => filter.name),
+    });
+    this.emit("filtersChanged", filters);
+
+    const playback = this.playback;
+    if (!ffmpegChanged || !playback) return;
+
+    if (playback.live) {
+      playback.respawn?.();
+    } else if (playback.input !== null) {
+      this.reconvert(playback, playback.input, this.position, true).catch(
+        (error) => this.log("error", "Failed to apply filters", { error }),
+      );
+    }
+  }
+
+  /**
+   * Clear the playback state once its audio has ended, so the next audio does not start paused
+   * @private
+   */
+  private endPlayback(playback: Playback): void {
+    if (this.playback !== playback) return;
+    this.playback = undefined;
+    this.pauseGate?.release();
+    this.pauseGate = null;
+  }
+
+  /**
+   * Wait until playback is resumed or stopped
+   * @private
+   */
+  private async whilePaused(): Promise<void> {
+    while (this.pauseGate && !this.shouldStop) {
+      await this.pauseGate.promise;
+    }
+  }
+
   /**
    * Set volume level
    * @param level - Volume level from 0.0 (mute) to 2.0 (200%)
@@ -205,6 +446,22 @@ export class AudioPlayer extends EventEmitter {
     return input instanceof Readable;
   }
 
+  /**
+   * Writes an entry to the client's logger, tagged with the player's channel and server
+   * @param level - The level to write at
+   * @param message - The message to write
+   * @param fields - Additional fields to attach
+   * @private
+   */
+  log(level: LogLevel, message: string, fields: LogFields = {}): void {
+    this.client.logger[level](message, {
+      component: "voice",
+      channelId: this.channelId,
+      serverId: this.serverId,
+      ...fields,
+    });
+  }
+
   /**
    * Connect to the voice channel
    */
@@ -226,87 +483,154 @@ export class AudioPlayer extends EventEmitter {
     });
 
     try {
-      const selectedNode =
-        this.client.voiceOptions.nodes?.[0].name || "worldwide";
-      // First attempt: Try normal join_call
-      let response: { token: string; url: string };
-
-      try {
-        response = (await this.client.api.post(
-          `/channels/${channelToConnect}/join_call`,
-          { body: { node: selectedNode } },
-        )) as { token: string; url: string };
-      } catch (joinError: any) {
-        // Check if this is the AlreadyConnected error
-        if (
-          joinError.message?.includes("AlreadyConnected") ||
-          joinError.response?.data?.type === "AlreadyConnected"
-        ) {
-          // Strategy 1: Try to DELETE on the same channel to clear connection
-          try {
-            await this.client.api.delete(
-              `/channels/${channelToConnect}/join_call`,
-            );
-
-            // Retry the join after clearing
-            response = (await this.client.api.post(
-              `/channels/${channelToConnect}/join_call`,
-              { body: { node: selectedNode } },
-            )) as { token: string; url: string };
-          } catch (deleteError) {
-            // Strategy 2: Try with force parameter
-            try {
-              response = (await this.client.api.post(
-                `/channels/${channelToConnect}/join_call`,
-                { body: { node: selectedNode, force: true } },
-              )) as { token: string; url: string };
-            } catch (forceError) {
-              // Final strategy: Provide clear error with solutions
-              throw new Error(
-                `Unable to join voice channel: Bot is already connected to another voice channel.\n\n` +
-                  `This typically happens when:\n` +
-                  `• The bot didn't disconnect properly from a previous session\n` +
-                  `• Another instance of the bot is running\n` +
-                  `• The bot crashed without proper cleanup\n\n` +
-                  `Solutions to try:\n` +
-                  `1. Restart the bot application completely\n` +
-                  `2. Wait 30-60 seconds for the connection to timeout\n` +
-                  `3. Check if another bot instance is running\n` +
-                  `4. Check server permissions for voice channels\n\n` +
-                  `If this persists, the API may need manual intervention to clear the connection state.`,
-              );
-            }
-          }
-        } else {
-          // Different error, re-throw it
-          throw joinError;
+      const nodes = (await this.client.voice.selectNodes()).map(
+        (node) => node.name,
+      );
+      // Without any nodes listed, the API picks one
+      const candidates = nodes.length ? nodes : ["worldwide"];
+      const attempts =
+        this.client.voiceOptions.failover === false
+          ? candidates.slice(0, 1)
+          : candidates;
+
+      for (let i = 0; i < attempts.length; i++) {
+        const node = attempts[i];
+        try {
+          const room = await this.connectToNode(channelToConnect, node);
+          this.selectedNode = node;
+          this.isConnected = true;
+          this.emit("connected", channelToConnect, this.serverId, room.name);
+          this.emit("debug", "Connection established", {
+            roomName: room.name,
+            node,
+          });
+          return;
+        } catch (error) {
+          if (i === attempts.length - 1) throw error;
+          this.log(
+            "warn",
+            `Failed to connect on voice node ${node}, trying ${attempts[i + 1]}`,
+            { node, error },
+          );
         }
       }
+    } catch (error) {
+      this.emit(
+        "error",
+        error instanceof Error ? error : new Error(String(error)),
+        "connection",
+      );
+      this.log("error", "Failed to connect", {
+        channelId: channelToConnect,
+        error,
+      });
+      throw error;
+    }
+  }
 
-      const room = new Room();
-      this.room = room;
+  /**
+   * Join the call on a voice node and connect to its LiveKit room
+   * @param channelId - The ID of the voice channel
+   * @param node - The name of the voice node
+   * @returns The connected room
+   * @private
+   */
+  private async connectToNode(channelId: string, node: string): Promise<Room> {
+    this.emit("debug", "Joining call", { channelId, node });
+    const response = await this.joinCall(channelId, node);
 
-      // Set up room event handlers
-      room.on(RoomEvent.Disconnected, this.handleDisconnected.bind(this));
+    const room = new Room();
+    this.room = room;
 
+    // Set up room event handlers
+    room.on(RoomEvent.Disconnected, this.handleDisconnected.bind(this));
+    this.receiver.attach(room);
+
+    try {
       // Connect to the voice room
       await room.connect(response.url, response.token, {
         dynacast: true,
         autoSubscribe: true,
       });
-
-      this.isConnected = true;
-      this.emit("connected", channelToConnect, this.serverId, room.name);
-      this.emit("debug", "Connection established", { roomName: room.name });
     } catch (error) {
-      this.emit(
-        "error",
-        error instanceof Error ? error : new Error(String(error)),
-        "connection",
-      );
-      console.error(`❌ [${channelToConnect}] Failed to connect:`, error);
+      // Leave the call so the next node can be joined
+      room.removeAllListeners();
+      this.receiver.unlisten();
+      this.room = undefined;
+      await room.disconnect().catch(() => {});
+      await this.client.api
+        .delete(`/channels/${channelId}/join_call`)
+        .catch(() => {});
       throw error;
     }
+    return room;
+  }
+
+  /**
+   * Join the call of a voice channel on a voice node, clearing a previous connection if needed
+   * @param channelId - The ID of the voice channel
+   * @param node - The name of the voice node
+   * @returns The LiveKit URL and token to connect with
+   * @private
+   */
+  private async joinCall(
+    channelId: string,
+    node: string,
+  ): Promise<{ token: string; url: string }> {
+    // First attempt: Try normal join_call
+    let response: { token: string; url: string };
+
+    try {
+      response = (await this.client.api.post(
+        `/channels/${channelId}/join_call`,
+        { body: { node } },
+      )) as { token: string; url: string };
+    } catch (joinError) {
+      // Check if this is the AlreadyConnected error
+      if (
+        joinError instanceof StoatAPIError &&
+        joinError.type === "AlreadyConnected"
+      ) {
+        // Strategy 1: Try to DELETE on the same channel to clear connection
+        try {
+          await this.client.api.delete(`/channels/${channelId}/join_call`);
+
+          // Retry the join after clearing
+          response = (await this.client.api.post(
+            `/channels/${channelId}/join_call`,
+            { body: { node } },
+          )) as { token: string; url: string };
+        } catch (deleteError) {
+          // Strategy 2: Try with force parameter
+          try {
+            response = (await this.client.api.post(
+              `/channels/${channelId}/join_call`,
+              { body: { node, force: true } },
+            )) as { token: string; url: string };
+          } catch (forceError) {
+            // Final strategy: Provide clear error with solutions
+            throw new Error(
+              `Unable to join voice channel: Bot is already connected to another voice channel.\n\n` +
+                `This typically happens when:\n` +
+                `• The bot didn't disconnect properly from a previous session\n` +
+                `• Another instance of the bot is running\n` +
+                `• The bot crashed without proper cleanup\n\n` +
+                `Solutions to try:\n` +
+                `1. Restart the bot application completely\n` +
+                `2. Wait 30-60 seconds for the connection to timeout\n` +
+                `3. Check if another bot instance is running\n` +
+                `4. Check server permissions for voice channels\n\n` +
+                `If this persists, the API may need manual intervention to clear the connection state.`,
+            );
+          }
+        }
+      } else {
+        // Different error, re-throw it
+        throw joinError;
+      }
+    }
+
+    return response;
   }
 
   /**
@@ -353,7 +677,8 @@ export class AudioPlayer extends EventEmitter {
   }
 
   /**
-   * Play audio from a URL (supports both files and streaming URLs like radio stations)
+   * Play audio from a URL (supports both files and streaming URLs like radio stations).
+   * Rejects if the request fails, times out or does not return 200, or if playback fails.
    * @private
    */
   private async playFromUrl(url: string): Promise<void> {
@@ -372,10 +697,15 @@ export class AudioPlayer extends EventEmitter {
         const client = url.startsWith("https:") ? https : http;
 
         const request = client.get(url, (response) => {
+          // The timeout is for the request, a paused or slow stream should not end it
+          request.setTimeout(0);
+
           if (response.statusCode !== 200) {
             const error = new Error(`HTTP Error: ${response.statusCode}`);
-            console.error("HTTP Error:", error.message);
+            response.resume();
+            this.log("error", "HTTP error", { url, error: error.message });
             this.emit("audioError", url, "url", error);
+            reject(error);
             return;
           }
 
@@ -393,13 +723,20 @@ export class AudioPlayer extends EventEmitter {
             // Use streaming method for continuous audio
             this.playStreamingAudio(response, url, "url")
               .then(() => {
-                this.emit("audioEnd", "URL playback completed", { url });
+                this.emit("debug", "URL playback completed", { url });
                 resolve();
               })
               .catch((error) => {
-                console.error("Error streaming audio from URL:", error);
+                // Settle first, emitting `error` without a listener throws
+                reject(error);
+                this.log("error", "Failed to stream audio from URL", {
+                  url,
+                  error,
+                });
                 this.emit("audioError", url, "url", error);
-                this.emit("error", error, "url-streaming");
+                if (this.listenerCount("error") > 0) {
+                  this.emit("error", error, "url-streaming");
+                }
               });
           } else {
             // Use standard conversion for finite files
@@ -409,22 +746,29 @@ export class AudioPlayer extends EventEmitter {
                 resolve();
               })
               .catch((error) => {
-                console.error("Error playing audio from URL:", error);
+                reject(error);
+                this.log("error", "Failed to play audio from URL", {
+                  url,
+                  error,
+                });
                 this.emit("audioError", url, "url", error);
-                this.emit("error", error, "url-standard");
+                if (this.listenerCount("error") > 0) {
+                  this.emit("error", error, "url-standard");
+                }
               });
           }
         });
 
         request.on("error", (error) => {
-          console.error("Request error:", error.message);
+          this.log("error", "Request failed", { url, error: error.message });
           this.emit("audioError", url, "url", error);
+          reject(error);
         });
 
         request.setTimeout(30000, () => {
           const timeoutError = new Error("Request timeout");
-          request.destroy();
-          this.emit("audioError", url, "url", timeoutError);
+          // Destroying with the error rejects through the `error` listener
+          request.destroy(timeoutError);
         });
       });
     } catch (error) {
@@ -432,7 +776,7 @@ export class AudioPlayer extends EventEmitter {
         error instanceof Error ? error : new Error(String(error));
       this.emit("audioError", url, "url", errorObj);
       this.emit("error", errorObj, "url-playback");
-      console.error(`❌ [${this.channelId}] URL playback failed:`, error);
+      this.log("error", "URL playback failed", { url, error });
       throw error;
     }
   }
@@ -468,6 +812,16 @@ export class AudioPlayer extends EventEmitter {
       const channels = 1;
 
       const source = new AudioSource(sampleRate, channels);
+      const playback: Playback = {
+        input: null,
+        live: true,
+        pcm: new Int16Array(0),
+        base: 0,
+        rate: this.filters.tempo,
+        offset: 0,
+        start: 0,
+        pushed: 0,
+      };
       const sourceId = `stream_${Date.now()}`;
       this.audioSources.set(sourceId, source);
       const track = LocalAudioTrack.createAudioTrack("audio", source);
@@ -494,10 +848,12 @@ export class AudioPlayer extends EventEmitter {
           this.emit("error", error, "track-unmute");
         }
 
-        // Set up FFmpeg for real-time conversion with simple, stable arguments
-        const args = [
+        // Set up FFmpeg for real-time conversion with simple, stable arguments.
+        // Built again when ffmpeg is restarted, so the current filters are used.
+        const args = () => [
           "-i",
           "pipe:0", // Read from stdin
+          ...this.filters.ffmpegArgs(), // Audio filters
           "-f",
           "s16le", // 16-bit little-endian PCM
           "-ar",
@@ -507,12 +863,13 @@ export class AudioPlayer extends EventEmitter {
           "-", // Output to stdout
         ];
 
-        const ffmpeg = spawn("ffmpeg", args);
+        let ffmpeg = spawn("ffmpeg", args());
 
         // Enhanced error handling for stdin
-        ffmpeg.stdin.on("error", (error) => {
+        const onStdinError = () => {
           // Don't stop streaming for stdin errors, they're often recoverable
-        });
+        };
+        ffmpeg.stdin.on("error", onStdinError);
 
         // Pipe the audio stream to ffmpeg with error handling
         audioStream.pipe(ffmpeg.stdin);
@@ -522,7 +879,7 @@ export class AudioPlayer extends EventEmitter {
         });
 
         audioStream.on("close", () => {
-          console.warn("⚠️ Audio stream closed unexpectedly");
+          this.log("warn", "Audio stream closed unexpectedly");
           if (this.isStreaming) {
           }
         });
@@ -542,10 +899,15 @@ export class AudioPlayer extends EventEmitter {
 
         let buffer = Buffer.alloc(0);
         let chunkCount = 0;
+        this.playback = playback;
 
-        ffmpeg.stdout.on("data", async (chunk: Buffer) => {
+        const onData = async (chunk: Buffer) => {
           try {
-            if (!this.isStreaming || this.shouldStop) return;
+            if (!this.isStreaming || this.shouldStop) {
+              // Playback was stopped, so end the stream instead of waiting for the source to end
+              ffmpeg.kill();
+              return;
+            }
 
             buffer = Buffer.concat([buffer, chunk]);
             chunkCount++;
@@ -556,6 +918,14 @@ export class AudioPlayer extends EventEmitter {
               this.isStreaming &&
               !this.shouldStop
             ) {
+              if (this.pauseGate) {
+                // Hold back the stream while paused instead of dropping frames
+                ffmpeg.stdout.pause();
+                await this.whilePaused();
+                ffmpeg.stdout.resume();
+                continue;
+              }
+
               const audioChunk = buffer.slice(0, bytesPerChunk);
               buffer = buffer.slice(bytesPerChunk);
 
@@ -567,8 +937,17 @@ export class AudioPlayer extends EventEmitter {
                 alignedBuffer.byteLength / 2,
               );
 
-              // Apply volume control to the audio data
-              const volumeAdjustedPcmData = this.applyVolume(originalPcmData);
+              // Apply volume control and filters to the audio data
+              const volumeAdjustedPcmData = this.filters.process(
+                this.applyVolume(originalPcmData),
+                {
+                  sampleRate,
+                  channels,
+                  position: sourcePosition(playback, playback.pushed),
+                  duration: null,
+                  source: playback,
+                },
+              );
 
               // Create AudioFrame and send to track (using actual data length)
               const frame = new AudioFrame(
@@ -580,9 +959,12 @@ export class AudioPlayer extends EventEmitter {
 
               // Use async captureFrame and handle errors gracefully
               try {
+                playback.pushed += volumeAdjustedPcmData.length;
                 await source.captureFrame(frame);
               } catch (frameError) {
-                console.error("Error processing audio chunk:", frameError);
+                this.log("error", "Failed to process audio chunk", {
+                  error: frameError,
+                });
                 if (!this.isStreaming || this.shouldStop) {
                   // If we're no longer streaming or should stop, stop processing
                   return;
@@ -597,10 +979,12 @@ export class AudioPlayer extends EventEmitter {
               }
             }
           } catch (error) {}
-        });
+        };
+        ffmpeg.stdout.on("data", onData);
 
-        ffmpeg.on("close", (code) => {
+        const onClose = (code: number | null) => {
           this.isStreaming = false;
+          this.endPlayback(playback);
 
           // For streaming audio, null or non-zero exit codes are often normal
           // when stopping streams or when streams end naturally
@@ -608,7 +992,8 @@ export class AudioPlayer extends EventEmitter {
             const error = new Error(`FFmpeg exited with code ${code}`);
             this.emit("audioError", "stream", "streaming", error);
           }
-        });
+        };
+        ffmpeg.on("close", onClose);
 
         // Set up a way to stop streaming
         this.once("disconnected", () => {
@@ -618,7 +1003,7 @@ export class AudioPlayer extends EventEmitter {
 
         // Return a promise that resolves when streaming ends
         return new Promise<void>((resolve, reject) => {
-          ffmpeg.on("close", (code) => {
+          const onEnd = (code: number | null) => {
             this.emit("debug", "FFmpeg streaming ended", {
               code,
               source,
@@ -644,21 +1029,43 @@ export class AudioPlayer extends EventEmitter {
             if (code === 0 || code === null) {
               resolve();
             } else {
-              console.warn(
-                `⚠️ FFmpeg exited with code ${code} - this may be normal for streaming`,
+              this.log(
+                "warn",
+                `FFmpeg exited with code ${code}, which may be normal for streaming`,
               );
               resolve(); // Resolve anyway since streaming termination is often expected
             }
-          });
+          };
+          ffmpeg.on("close", onEnd);
+
+          // Restart ffmpeg with the current filters, feeding it the rest of the stream
+          playback.respawn = () => {
+            // Samples from the new ffmpeg play at the new tempo
+            playback.start = sourcePosition(playback, playback.pushed);
+            playback.pushed = 0;
+            playback.rate = this.filters.tempo;
+
+            const previous = ffmpeg;
+            previous.stdout.off("data", onData);
+            previous.off("close", onClose);
+            previous.off("close", onEnd);
+            audioStream.unpipe(previous.stdin);
+            previous.kill();
+
+            ffmpeg = spawn("ffmpeg", args());
+            ffmpeg.stdin.on("error", onStdinError);
+            ffmpeg.stdout.on("data", onData);
+            ffmpeg.on("close", onClose);
+            ffmpeg.on("close", onEnd);
+            audioStream.pipe(ffmpeg.stdin);
+            this.emit("debug", "FFmpeg restarted to apply filters");
+          };
         });
       } else {
         throw new Error("Failed to publish audio track");
       }
     } catch (error) {
-      console.error(
-        `❌ [${this.channelId}] Failed to set up streaming:`,
-        error,
-      );
+      this.log("error", "Failed to set up streaming", { error });
       throw error;
     }
   }
@@ -676,10 +1083,15 @@ export class AudioPlayer extends EventEmitter {
     this.shouldStop = false;
     this.isStreaming = false; // This is not streaming audio, it's converted PCM
 
+    const rate = this.filters.tempo;
     const pcmData = await this.convertAudioToPCM(stream, 48000, 1);
     this.emit("debug", "PCM conversion completed", { source, type });
 
-    await this.publishPCMAudio(pcmData);
+    await this.publishPCMAudio(
+      pcmData,
+      type === "url" && source ? source : null,
+      rate,
+    );
     this.emit("debug", "Audio publishing completed", { source, type });
 
     // Emit audioEnd event if source information is provided
@@ -700,6 +1112,7 @@ export class AudioPlayer extends EventEmitter {
     input: string | Readable,
     sampleRate: number = 48000,
     channels: number = 1,
+    startMs: number = 0,
   ): Promise<Int16Array> {
     const sourceDesc = typeof input === "string" ? input : "stream";
 
@@ -714,7 +1127,9 @@ export class AudioPlayer extends EventEmitter {
       const args = [];
 
       if (typeof input === "string") {
-        // File path input
+        // Start from an offset when seeking
+        if (startMs > 0) args.push("-ss", (startMs / 1000).toString());
+        // File path or URL input
         args.push("-i", input);
       } else {
         // Stream input
@@ -722,6 +1137,7 @@ export class AudioPlayer extends EventEmitter {
       }
 
       args.push(
+        ...this.filters.ffmpegArgs(), // Audio filters
         "-f",
         "s16le", // 16-bit little-endian PCM
         "-ar",
@@ -766,27 +1182,31 @@ export class AudioPlayer extends EventEmitter {
             `FFmpeg failed with code ${code}: ${errorOutput}`,
           );
           this.emit("conversionError", sourceDesc, error);
-          console.error(error);
+          this.log("error", "Conversion failed", { source: sourceDesc, error });
+          reject(error);
         }
       });
 
       ffmpeg.on("error", (err) => {
         const error = new Error(`FFmpeg spawn error: ${err.message}`);
         this.emit("conversionError", sourceDesc, error);
-        console.error(error);
+        this.log("error", "Conversion failed", { source: sourceDesc, error });
+        reject(error);
       });
 
       // Send audio data to FFmpeg
       if (typeof input === "string") {
         ffmpeg.stdin.end();
       } else {
+        // Writing after ffmpeg exits fails with EPIPE, the `close` handler reports the failure
+        ffmpeg.stdin.on("error", () => {});
         input.pipe(ffmpeg.stdin);
         input.on("end", () => {
           ffmpeg.stdin.end();
         });
         input.on("error", (err) => {
           ffmpeg.kill("SIGTERM");
-          console.error(err);
+          this.log("error", "Input stream failed", { error: err });
         });
       }
     });
@@ -794,8 +1214,15 @@ export class AudioPlayer extends EventEmitter {
 
   /**
    * Publish PCM audio to the voice channel
+   * @param pcmData - The converted audio
+   * @param input - The file path or URL the audio was converted from, used to seek
+   * @param rate - The tempo of the ffmpeg filters the audio was converted with
    */
-  private async publishPCMAudio(pcmData: Int16Array): Promise<void> {
+  private async publishPCMAudio(
+    pcmData: Int16Array,
+    input: string | null = null,
+    rate: number = this.filters.tempo,
+  ): Promise<void> {
     if (!this.room) {
       throw new Error(
         `Not connected to voice channel ${this.channelId}. Call connect() first.`,
@@ -803,7 +1230,16 @@ export class AudioPlayer extends EventEmitter {
     }
 
     // Apply volume control to the PCM data
-    const volumeAdjustedPCM = this.applyVolume(pcmData);
+    const playback: Playback = {
+      input,
+      live: false,
+      pcm: this.applyVolume(pcmData),
+      base: 0,
+      rate,
+      offset: 0,
+      start: 0,
+      pushed: 0,
+    };
 
     return new Promise<void>((resolve, reject) => {
       const processAudio = async () => {
@@ -856,15 +1292,49 @@ export class AudioPlayer extends EventEmitter {
             const chunkDurationMs = 100; // 100ms chunks (like working implementation)
             const samplesPerChunk =
               Math.floor((48000 * chunkDurationMs) / 1000) * 1; // sampleRate * duration * channels
-            let offset = 0;
             let chunksSent = 0;
+            let handedOver = false;
+            this.playback = playback;
+
+            while (playback.offset < playback.pcm.length && !this.shouldStop) {
+              if (this.pauseGate) {
+                await this.whilePaused();
+                continue;
+              }
+
+              const remaining =
+                (playback.pcm.length - playback.offset) / SAMPLES_PER_MS;
+              if (
+                !handedOver &&
+                remaining <= this.filters.crossfade &&
+                this.queue.hasNext()
+              ) {
+                // Let the queue start the next track while this one fades out
+                handedOver = true;
+                resolve();
+              }
 
-            while (offset < volumeAdjustedPCM.length && !this.shouldStop) {
               const chunkEnd = Math.min(
-                offset + samplesPerChunk,
-                volumeAdjustedPCM.length,
+                playback.offset + samplesPerChunk,
+                playback.pcm.length,
+              );
+              const chunk = this.filters.process(
+                playback.pcm.slice(playback.offset, chunkEnd),
+                {
+                  sampleRate: 48000,
+                  channels: 1,
+                  position:
+                    playback.base +
+                    (playback.offset / SAMPLES_PER_MS) * playback.rate,
+                  duration:
+                    playback.base +
+                    (playback.pcm.length / SAMPLES_PER_MS) * playback.rate,
+                  source: playback,
+                },
               );
-              const chunk = volumeAdjustedPCM.slice(offset, chunkEnd);
+              // Advanced before capturing, so a seek while capturing is not overwritten
+              playback.offset = chunkEnd;
+              playback.pushed += chunk.length;
 
               // Create AudioFrame with proper format (using total samples, not per-channel)
               const frame = new AudioFrame(
@@ -883,8 +1353,6 @@ export class AudioPlayer extends EventEmitter {
                 // Don't reject on individual frame errors, continue playback
               }
 
-              offset = chunkEnd;
-
               // Wait for real-time playback (like the working implementation)
               await new Promise((resolve) =>
                 setTimeout(resolve, chunkDurationMs),
@@ -900,20 +1368,19 @@ export class AudioPlayer extends EventEmitter {
               this.emit("debug", "Audio playback completed successfully", {
                 channelId: this.channelId,
                 chunksSent,
-                totalSamples: volumeAdjustedPCM.length,
+                totalSamples: playback.pcm.length,
               });
             }
+            this.endPlayback(playback);
             this.emit("debug", "publishPCMAudio resolving");
             resolve();
           } else {
-            console.error(new Error("Failed to publish audio track"));
+            this.log("error", "Failed to publish audio track");
+            reject(new Error("Failed to publish audio track"));
           }
         } catch (error) {
-          console.error(
-            `❌ [${this.channelId}] Failed to publish audio:`,
-            error,
-          );
-          console.error(error);
+          this.log("error", "Failed to publish audio", { error });
+          reject(error);
         }
       };
 
@@ -938,8 +1405,9 @@ export class AudioPlayer extends EventEmitter {
     this.emit("debug", "Starting file playback", { filePath });
 
     try {
+      const rate = this.filters.tempo;
       const pcmData = await this.convertAudioToPCM(filePath, 48000, 1);
-      await this.publishPCMAudio(pcmData);
+      await this.publishPCMAudio(pcmData, filePath, rate);
 
       this.emit("audioEnd", filePath, "file");
       this.emit("debug", "File playback completed", { filePath });
@@ -950,7 +1418,7 @@ export class AudioPlayer extends EventEmitter {
       this.emit("audioError", filePath, "file", errorObj);
       this.emit("error", errorObj, "file-playback");
 
-      console.error(`❌ [${this.channelId}] File playback failed:`, error);
+      this.log("error", "File playback failed", { file: filePath, error });
       throw error;
     }
   }
@@ -963,6 +1431,10 @@ export class AudioPlayer extends EventEmitter {
     this.shouldStop = true;
     this.isStreaming = false;
 
+    // Release a paused playback loop so it can see the stop flag
+    this.pauseGate?.release();
+    this.pauseGate = null;
+
     if (!this.room) {
       return;
     }
@@ -976,10 +1448,7 @@ export class AudioPlayer extends EventEmitter {
           this.publications.delete(trackName);
           this.emit("trackStopped", trackName);
         } catch (error) {
-          console.error(
-            `❌ [${this.channelId}] Failed to stop track ${trackName}:`,
-            error,
-          );
+          this.log("error", `Failed to stop track ${trackName}`, { error });
         }
       }
     } else {
@@ -989,10 +1458,7 @@ export class AudioPlayer extends EventEmitter {
           await this.room.localParticipant?.unpublishTrack(publication.sid!);
           this.emit("trackStopped", sid);
         } catch (error) {
-          console.error(
-            `❌ [${this.channelId}] Failed to stop track ${sid}:`,
-            error,
-          );
+          this.log("error", `Failed to stop track ${sid}`, { error });
         }
       }
       this.publications.clear();
@@ -1011,6 +1477,9 @@ export class AudioPlayer extends EventEmitter {
       // Stop all audio tracks first
       await this.stop();
 
+      // End received audio and save recordings
+      await this.receiver.detach();
+
       // Clean up audio sources tracking
       this.audioSources.clear();
 
@@ -1019,15 +1488,17 @@ export class AudioPlayer extends EventEmitter {
 
       // Clean up
       this.isConnected = false;
+      this.selectedNode = null;
       this.publications.clear();
       this.room = undefined;
 
       this.emit("disconnected", this.channelId, this.serverId, "manual");
       this.emit("debug", "Disconnected manually");
     } catch (error) {
-      console.error(`❌ [${this.channelId}] Error during disconnect:`, error);
+      this.log("error", "Failed to disconnect cleanly", { error });
       // Still clean up even if there was an error
       this.isConnected = false;
+      this.selectedNode = null;
       this.publications.clear();
       this.audioSources.clear();
       this.room = undefined;
@@ -1040,10 +1511,14 @@ export class AudioPlayer extends EventEmitter {
    * @private
    */
   private async handleDisconnected(): Promise<void> {
+    // End received audio and save recordings
+    await this.receiver.detach();
+
     // Clean up audio sources tracking
     this.audioSources.clear();
 
     this.isConnected = false;
+    this.selectedNode = null;
     this.publications.clear();
     this.room = undefined;
 
@@ -1060,6 +1535,9 @@ export class AudioPlayer extends EventEmitter {
     activeTracksCount: number;
     channelId: string;
     serverId: string;
+    paused: boolean;
+    position: number;
+    node: string | null;
   } {
     return {
       connected: this.connected,
@@ -1067,6 +1545,9 @@ export class AudioPlayer extends EventEmitter {
       activeTracksCount: this.publications.size,
       channelId: this.channelId,
       serverId: this.serverId,
+      paused: this.paused,
+      position: this.position,
+      node: this.selectedNode,
     };
   }
 }
@@ -0,0 +1,356 @@
+import { basename } from "node:path";
+import { Readable } from "node:stream";
+import type { AudioPlayer } from "./player";
+
+/**
+ * Anything `AudioPlayer.play` accepts: a URL, a file path or a stream
+ */
+export type QueueInput = string | Readable;
+
+/**
+ * How the queue repeats tracks
+ * - `off`: play each track once
+ * - `track`: repeat the current track
+ * - `queue`: add each finished track back to the end of the queue
+ */
+export type LoopMode = "off" | "track" | "queue";
+
+/**
+ * Why a track stopped playing
+ */
+export type TrackEndReason =
+  | "finished"
+  | "skipped"
+  | "previous"
+  | "stopped"
+  | "error";
+
+/**
+ * Options for a queued track
+ */
+export interface TrackOptions {
+  /** A display name for the track. Defaults to the URL, the file name or `stream` */
+  title?: string;
+  /** Any data to keep with the track, e.g. who requested it */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * A track in the queue
+ */
+export interface Track {
+  /** The input passed to `AudioPlayer.play` */
+  readonly input: QueueInput;
+  /** The display name of the track */
+  title: string;
+  /** Any data kept with the track */
+  metadata: Record<string, unknown>;
+  /** When the track was added to the queue, in milliseconds since the epoch */
+  readonly addedAt: number;
+}
+
+/** The number of played tracks kept in the history */
+const HISTORY_SIZE = 100;
+
+/**
+ * Queue of tracks for an AudioPlayer, available as `player.queue`.
+ * The next track starts automatically when the current one ends (`audioEnd`), and the player emits
+ * `trackStart`, `trackEnd` and `queueEnd` as it goes.
+ *
+ * Streams can only be played once, so they are not repeated by loop modes and are not kept in the history.
+ *
+ * @example
+ * ```typescript
+ * const player = await client.voice.connectToChannel('voice-channel-id', 'server-id');
+ *
+ * player.on('trackStart', (track) => console.log(`Now playing ${track.title}`));
+ * player.on('queueEnd', () => player.disconnect());
+ *
+ * player.queue.enqueue('https://example.com/song.mp3', { metadata: { requestedBy: userId } });
+ * player.queue.enqueue('./music/intro.mp3');
+ * player.queue.setLoop('queue');
+ *
+ * await player.queue.skip();
+ * ```
+ */
+export class Queue {
+  private upcoming: Track[] = [];
+  private played: Track[] = [];
+  private current: Track | null = null;
+  private loopMode: LoopMode = "off";
+  /** Whether the current track is playing and its end has not been handled yet */
+  private awaitingEnd = false;
+  /** Set by `skip` and `previous` to say why the current track is being stopped */
+  private endReason: TrackEndReason | null = null;
+  /** Set by `previous` to play a track from the history next */
+  private override: Track | null = null;
+
+  constructor(private readonly player: AudioPlayer) {
+    player.on("audioEnd", () => {
+      if (!this.awaitingEnd) return;
+      const reason =
+        this.endReason ?? (player.stopping ? "stopped" : "finished");
+      this.end(reason);
+    });
+  }
+
+  /**
+   * Get the tracks waiting to be played, in order
+   */
+  get tracks(): readonly Track[] {
+    return [...this.upcoming];
+  }
+
+  /**
+   * Get the tracks played before the current one, oldest first
+   */
+  get history(): readonly Track[] {
+    return [...this.played];
+  }
+
+  /**
+   * Get the track that is playing, or `null` if nothing is
+   */
+  get nowPlaying(): Track | null {
+    return this.current;
+  }
+
+  /**
+   * Get the number of tracks waiting to be played
+   */
+  get size(): number {
+    return this.upcoming.length;
+  }
+
+  /**
+   * Check whether another track plays after the current one
+   * @private
+   */
+  hasNext(): boolean {
+    if (!this.current) return false;
+    return (
+      this.upcoming.length > 0 ||
+      (this.loopMode !== "off" && replayable(this.current))
+    );
+  }
+
+  /**
+   * Get the loop mode
+   */
+  get loop(): LoopMode {
+    return this.loopMode;
+  }
+
+  /**
+   * Set the loop mode
+   * @param mode - `off`, `track` or `queue`
+   */
+  setLoop(mode: LoopMode): void {
+    this.loopMode = mode;
+  }
+
+  /**
+   * Add a track to the end of the queue, and start playing if nothing is playing
+   * @param input - A URL, file path or Readable stream
+   * @param options - The title and metadata of the track
+   * @returns The queued track
+   */
+  enqueue(input: QueueInput, options?: TrackOptions): Track {
+    return this.insert(this.upcoming.length, input, options);
+  }
+
+  /**
+   * Add a track at a position in the queue, and start playing if nothing is playing
+   * @param index - The position to add the track at, `0` being the next track
+   * @param input - A URL, file path or Readable stream
+   * @param options - The title and metadata of the track
+   * @returns The queued track
+   * @throws {RangeError} If the index is outside the queue
+   */
+  insert(index: number, input: QueueInput, options: TrackOptions = {}): Track {
+    this.checkIndex(index, this.upcoming.length);
+
+    const track: Track = {
+      input,
+      title: options.title ?? describe(input),
+      metadata: options.metadata ?? {},
+      addedAt: Date.now(),
+    };
+    this.upcoming.splice(index, 0, track);
+    if (!this.current) this.next();
+    return track;
+  }
+
+  /**
+   * Remove a track from the queue
+   * @param index - The position of the track, `0` being the next track
+   * @returns The removed track
+   * @throws {RangeError} If the index is outside the queue
+   */
+  remove(index: number): Track {
+    this.checkIndex(index, this.upcoming.length - 1);
+    return this.upcoming.splice(index, 1)[0];
+  }
+
+  /**
+   * Move a track to another position in the queue
+   * @param from - The current position of the track
+   * @param to - The position to move the track to
+   * @throws {RangeError} If either index is outside the queue
+   */
+  move(from: number, to: number): void {
+    this.checkIndex(from, this.upcoming.length - 1);
+    this.checkIndex(to, this.upcoming.length - 1);
+    const [track] = this.upcoming.splice(from, 1);
+    this.upcoming.splice(to, 0, track);
+  }
+
+  /**
+   * Remove every track waiting to be played. The current track keeps playing.
+   */
+  clear(): void {
+    this.upcoming = [];
+  }
+
+  /**
+   * Shuffle the tracks waiting to be played
+   */
+  shuffle(): void {
+    for (let i = this.upcoming.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [this.upcoming[i], this.upcoming[j]] = [
+        this.upcoming[j],
+        this.upcoming[i],
+      ];
+    }
+  }
+
+  /**
+   * Stop the current track and play the next one. The current track is not repeated in `track` loop mode.
+   * @returns The track that plays next, or `null` if the queue is empty
+   */
+  async skip(): Promise<Track | null> {
+    const next = this.upcoming[0] ?? this.repeated();
+    await this.stopCurrent("skipped");
+    return next;
+  }
+
+  /**
+   * Play the most recent track in the history again. The current track goes back to the front of the queue.
+   * @returns The track that plays next, or `null` if the history is empty
+   */
+  async previous(): Promise<Track | null> {
+    const track = this.played.pop();
+    if (!track) return null;
+
+    if (this.current) this.upcoming.unshift(this.current);
+    this.override = track;
+    await this.stopCurrent("previous");
+    return track;
+  }
+
+  /**
+   * Get the current track if `queue` loop mode adds it back to the queue when skipped
+   * @private
+   */
+  private repeated(): Track | null {
+    return this.loopMode === "queue" && this.current && replayable(this.current)
+      ? this.current
+      : null;
+  }
+
+  /**
+   * Stop the current track, or start the next one if nothing is playing
+   * @private
+   */
+  private async stopCurrent(reason: TrackEndReason): Promise<void> {
+    if (!this.awaitingEnd) {
+      this.end(reason);
+      return;
+    }
+    this.endReason = reason;
+    await this.player.stop();
+  }
+
+  /**
+   * Handle the end of the current track and start the next one
+   * @private
+   */
+  private end(reason: TrackEndReason): void {
+    const ended = this.current;
+    this.current = null;
+    this.awaitingEnd = false;
+    this.endReason = null;
+
+    if (ended) {
+      if (replayable(ended) && reason !== "previous" && reason !== "error") {
+        this.played.push(ended);
+        if (this.played.length > HISTORY_SIZE) this.played.shift();
+      }
+      this.player.emit("trackEnd", ended, reason);
+    }
+    if (reason === "stopped") return;
+
+    let next = this.override;
+    this.override = null;
+    if (!next && ended && replayable(ended)) {
+      if (this.loopMode === "track" && reason === "finished") {
+        this.played.pop();
+        next = ended;
+      } else if (this.loopMode === "queue" && reason !== "error") {
+        this.upcoming.push(ended);
+      }
+    }
+    this.next(next);
+  }
+
+  /**
+   * Play a track, or the next track in the queue
+   * @private
+   */
+  private next(track: Track | null = null): void {
+    track ??= this.upcoming.shift() ?? null;
+    if (!track) {
+      this.player.emit("queueEnd");
+      return;
+    }
+
+    this.current = track;
+    this.awaitingEnd = true;
+    this.player.emit("trackStart", track);
+    this.player.play(track.input).catch((error) => {
+      if (this.current !== track || !this.awaitingEnd) return;
+      this.player.log("warn", `Failed to play ${track.title}, skipping`, {
+        error,
+      });
+      this.end("error");
+    });
+  }
+
+  /**
+   * Check that an index is within the queue
+   * @private
+   */
+  private checkIndex(index: number, max: number): void {
+    if (!Number.isInteger(index) || index < 0 || index > max) {
+      throw new RangeError(`Index ${index} is outside the queue`);
+    }
+  }
+}
+
+/**
+ * Get the default title of a track
+ * @private
+ */
+function describe(input: QueueInput): string {
+  if (typeof input !== "string") return "stream";
+  return /^https?:\/\//i.test(input) ? input : basename(input);
+}
+
+/**
+ * Check whether a track can be played more than once
+ * @private
+ */
+function replayable(track: Track): boolean {
+  return typeof track.input === "string";
+}
@@ -0,0 +1,591 @@
+import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
+import { createWriteStream, type WriteStream } from "node:fs";
+import { mkdir, open } from "node:fs/promises";
+import { join } from "node:path";
+import { PassThrough, Readable } from "node:stream";
+import {
+  AudioFrame,
+  AudioStream,
+  Participant,
+  RemoteParticipant,
+  RemoteTrack,
+  RemoteTrackPublication,
+  Room,
+  RoomEvent,
+  TrackKind,
+  TrackPublication,
+} from "@livekit/rtc-node";
+
+import type { client } from "./client";
+import type { VoiceChannelLeaveData } from "./events/voiceChannelLeave";
+import type { AudioPlayer } from "./player";
+import { Events } from "../utils/constants";
+
+/**
+ * The file formats audio can be recorded to
+ * - `wav`: uncompressed 16-bit PCM, written directly
+ * - `ogg`: Opus in an Ogg container, encoded with ffmpeg
+ */
+export type RecordingFormat = "wav" | "ogg";
+
+/**
+ * Options for a recording
+ */
+export interface RecordingOptions {
+  /** The file format (default: `wav`) */
+  format?: RecordingFormat;
+  /** The IDs of the users to record. Every user in the channel is recorded if not set. */
+  users?: string[];
+}
+
+/**
+ * A file written by a recording, one per user and per time they were in the channel
+ */
+export interface RecordingFile {
+  /** The ID of the recorded user */
+  userId: string;
+  /** The path of the file */
+  path: string;
+  /** The format of the file */
+  format: RecordingFormat;
+  /** When the first audio was written, in milliseconds since the epoch */
+  startedAt: number;
+  /** The length of the recorded audio, in milliseconds */
+  duration: number;
+}
+
+/** The sample rate audio is received at */
+const SAMPLE_RATE = 48000;
+
+/**
+ * A file a recording writes PCM audio to
+ * @private
+ */
+interface RecordingWriter {
+  write(chunk: Buffer): void;
+  close(): Promise<void>;
+}
+
+/**
+ * The audio received from a user
+ * @private
+ */
+interface ReceivedUser {
+  /** The readers of the user's audio tracks, by track SID */
+  readers: Map<string, ReadableStreamDefaultReader<AudioFrame>>;
+  /** The streams returned by `subscribe` */
+  streams: Set<PassThrough>;
+  speaking: boolean;
+  /** When the user was last above the speaking threshold, in milliseconds since the epoch */
+  lastSpoke: number;
+}
+
+/**
+ * Receives audio from the other participants of a voice channel, available as `player.receiver`.
+ *
+ * Every remote audio track is subscribed to while the player is connected, and decoded to 48kHz mono
+ * 16-bit PCM. Users are identified by their LiveKit identity, which is their Stoat user ID. A user's streams
+ * end and their recordings are saved when they leave the channel (`voiceChannelLeave`), and everything ends
+ * when the player disconnects.
+ *
+ * @example
+ * ```typescript
+ * const player = await client.voice.connectToChannel('voice-channel-id', 'server-id');
+ *
+ * player.on('speakingStart', (userId) => console.log(`${userId} started speaking`));
+ * player.on('speakingStop', (userId) => console.log(`${userId} stopped speaking`));
+ *
+ * // Raw PCM for speech to text
+ * player.receiver.subscribe(userId).pipe(speechToText);
+ *
+ * // One file per participant
+ * const recording = await player.receiver.record('./recordings', { format: 'ogg' });
+ * player.on('recordingSaved', (file) => console.log(`Saved ${file.path}`));
+ * const files = await recording.stop();
+ * ```
+ */
+export class VoiceReceiver {
+  /** The RMS level, from 0 to 1, a user has to reach to be speaking (default: 0.02) */
+  threshold = 0.02;
+  /** How long a user has to stay below the threshold to stop speaking, in milliseconds (default: 300) */
+  silenceDuration = 300;
+
+  private room?: Room;
+  private readonly users = new Map<string, ReceivedUser>();
+  private readonly recordings = new Set<VoiceRecording>();
+
+  /**
+   * @param player - The player whose room audio is received from
+   * @param client - The client whose `voiceChannelLeave` events end a user's audio
+   */
+  constructor(
+    private readonly player: AudioPlayer,
+    private readonly client: client,
+  ) {}
+
+  /**
+   * Get the IDs of the users whose audio is being received
+   */
+  get receiving(): string[] {
+    return [...this.users]
+      .filter(([, user]) => user.readers.size > 0)
+      .map(([userId]) => userId);
+  }
+
+  /**
+   * Get the IDs of the users who are speaking
+   */
+  get speaking(): string[] {
+    return [...this.users]
+      .filter(([, user]) => user.speaking)
+      .map(([userId]) => userId);
+  }
+
+  /**
+   * Get a stream of a user's audio, as 48kHz mono signed 16-bit little-endian PCM.
+   * The stream receives audio from when it is created, and ends when the user leaves the channel or the
+   * player disconnects. Destroy it to stop receiving early.
+   * @param userId - The ID of the user
+   * @returns A readable stream of PCM audio
+   */
+  subscribe(userId: string): Readable {
+    const user = this.user(userId);
+    const stream = new PassThrough();
+    user.streams.add(stream);
+    stream.on("close", () => user.streams.delete(stream));
+    return stream;
+  }
+
+  /**
+   * Start recording the channel to one file per user, named `<userId>-<timestamp>.<format>`.
+   * A user's file is saved when they leave the channel, and every file is saved when the recording is stopped
+   * or the player disconnects.
+   * @param directory - The directory to write the files to. It is created if it does not exist.
+   * @param options - The format and the users to record
+   * @returns The recording
+   */
+  async record(
+    directory: string,
+    options: RecordingOptions = {},
+  ): Promise<VoiceRecording> {
+    await mkdir(directory, { recursive: true });
+    const recording = new VoiceRecording(
+      this.player,
+      directory,
+      options.format ?? "wav",
+      options.users ?? null,
+      () => this.recordings.delete(recording),
+    );
+    this.recordings.add(recording);
+    return recording;
+  }
+
+  /**
+   * Start receiving audio from a room. Called by the player before it connects.
+   * @private
+   */
+  attach(room: Room): void {
+    this.unlisten();
+    this.room = room;
+    room.on(RoomEvent.TrackSubscribed, this.onTrackSubscribed);
+    room.on(RoomEvent.TrackUnsubscribed, this.onTrackUnsubscribed);
+    room.on(RoomEvent.TrackMuted, this.onTrackMuted);
+    room.on(RoomEvent.ParticipantDisconnected, this.onParticipantDisconnected);
+    this.client.on(Events.VOICE_CHANNEL_LEAVE, this.onVoiceChannelLeave);
+  }
+
+  /**
+   * Stop receiving audio, end every stream and save every recording. Called by the player when it disconnects.
+   * @private
+   */
+  async detach(): Promise<void> {
+    this.unlisten();
+    for (const userId of [...this.users.keys()]) this.leave(userId);
+    await Promise.all(
+      [...this.recordings].map((recording) => recording.stop()),
+    );
+  }
+
+  /**
+   * Remove the listeners added by `attach`. Called by the player when joining a call fails.
+   * @private
+   */
+  unlisten(): void {
+    this.room?.off(RoomEvent.TrackSubscribed, this.onTrackSubscribed);
+    this.room?.off(RoomEvent.TrackUnsubscribed, this.onTrackUnsubscribed);
+    this.room?.off(RoomEvent.TrackMuted, this.onTrackMuted);
+    this.room?.off(
+      RoomEvent.ParticipantDisconnected,
+      this.onParticipantDisconnected,
+    );
+    this.room = undefined;
+    this.client.off(Events.VOICE_CHANNEL_LEAVE, this.onVoiceChannelLeave);
+  }
+
+  /** Start reading a user's audio track */
+  private readonly onTrackSubscribed = (
+    track: RemoteTrack,
+    publication: RemoteTrackPublication,
+    participant: RemoteParticipant,
+  ): void => {
+    if (track.kind !== TrackKind.KIND_AUDIO) return;
+
+    const userId = participant.identity;
+    const user = this.user(userId);
+    const sid = publication.sid ?? track.sid ?? String(user.readers.size);
+    const reader = new AudioStream(track, {
+      sampleRate: SAMPLE_RATE,
+      numChannels: 1,
+    }).getReader();
+    user.readers.get(sid)?.cancel();
+    user.readers.set(sid, reader);
+    this.player.emit("debug", "Receiving audio", { userId, trackId: sid });
+
+    const read = async () => {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        this.receive(userId, user, value);
+      }
+    };
+    read().catch((error) =>
+      this.player.log("warn", "Failed to receive audio", {
+        userId,
+        error,
+      }),
+    );
+  };
+
+  /** Stop reading a user's audio track */
+  private readonly onTrackUnsubscribed = (
+    track: RemoteTrack,
+    publication: RemoteTrackPublication,
+    participant: RemoteParticipant,
+  ): void => {
+    const user = this.users.get(participant.identity);
+    const sid = publication.sid ?? track.sid;
+    const reader = sid ? user?.readers.get(sid) : undefined;
+    if (!user || !reader) return;
+
+    reader.cancel();
+    user.readers.delete(sid!);
+    if (user.readers.size === 0) this.stopSpeaking(participant.identity, user);
+  };
+
+  /** A muted user is not speaking, but may not send any more frames to say so */
+  private readonly onTrackMuted = (
+    publication: TrackPublication,
+    participant: Participant,
+  ): void => {
+    if (publication.kind !== TrackKind.KIND_AUDIO) return;
+    const user = this.users.get(participant.identity);
+    if (user) this.stopSpeaking(participant.identity, user);
+  };
+
+  /** End a user's audio when they leave the room */
+  private readonly onParticipantDisconnected = (
+    participant: RemoteParticipant,
+  ): void => {
+    this.leave(participant.identity);
+  };
+
+  /** End a user's audio when they leave the channel */
+  private readonly onVoiceChannelLeave = (
+    data: VoiceChannelLeaveData,
+  ): void => {
+    if (data.id !== this.player.channel) return;
+    if (data.user === this.client.user?.id) {
+      // The bot itself left the channel, so nothing more will be received
+      for (const userId of [...this.users.keys()]) this.leave(userId);
+      return;
+    }
+    this.leave(data.user);
+  };
+
+  /**
+   * Handle a frame of a user's audio
+   * @private
+   */
+  private receive(userId: string, user: ReceivedUser, frame: AudioFrame) {
+    // Frames can still arrive after the user left and their streams ended
+    if (this.users.get(userId) !== user) return;
+
+    const samples = frame.data;
+    const chunk = Buffer.from(
+      samples.buffer,
+      samples.byteOffset,
+      samples.byteLength,
+    );
+    for (const stream of user.streams) stream.write(chunk);
+    for (const recording of this.recordings) {
+      recording.write(userId, chunk);
+    }
+
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+    const level = samples.length ? Math.sqrt(sum / samples.length) / 32768 : 0;
+
+    const now = Date.now();
+    if (level >= this.threshold) {
+      user.lastSpoke = now;
+      if (!user.speaking) {
+        user.speaking = true;
+        this.player.emit("speakingStart", userId);
+      }
+    } else if (user.speaking && now - user.lastSpoke >= this.silenceDuration) {
+      this.stopSpeaking(userId, user);
+    }
+  }
+
+  /**
+   * Mark a user as no longer speaking
+   * @private
+   */
+  private stopSpeaking(userId: string, user: ReceivedUser): void {
+    if (!user.speaking) return;
+    user.speaking = false;
+    this.player.emit("speakingStop", userId);
+  }
+
+  /**
+   * Stop receiving a user's audio, end their streams and save their recordings
+   * @private
+   */
+  private leave(userId: string): void {
+    for (const recording of this.recordings) recording.finish(userId);
+
+    const user = this.users.get(userId);
+    if (!user) return;
+    this.users.delete(userId);
+    for (const reader of user.readers.values()) reader.cancel();
+    this.stopSpeaking(userId, user);
+    for (const stream of user.streams) stream.end();
+    user.streams.clear();
+  }
+
+  /**
+   * Get the state of a user, creating it if needed
+   * @private
+   */
+  private user(userId: string): ReceivedUser {
+    let user = this.users.get(userId);
+    if (!user) {
+      user = {
+        readers: new Map(),
+        streams: new Set(),
+        speaking: false,
+        lastSpoke: 0,
+      };
+      this.users.set(userId, user);
+    }
+    return user;
+  }
+}
+
+/**
+ * A recording of a voice channel, started with `player.receiver.record`
+ */
+export class VoiceRecording {
+  private readonly writers = new Map<
+    string,
+    { writer: RecordingWriter; file: RecordingFile }
+  >();
+  private readonly saved: RecordingFile[] = [];
+  private readonly saving = new Set<Promise<void>>();
+  private stopped = false;
+
+  /**
+   * @param player - The player the audio is received by
+   * @param directory - The directory the files are written to
+   * @param format - The format of the files
+   * @param users - The IDs of the users to record, or `null` for everyone
+   * @param onStop - Called once the recording is stopped
+   * @private
+   */
+  constructor(
+    private readonly player: AudioPlayer,
+    readonly directory: string,
+    readonly format: RecordingFormat,
+    private readonly users: string[] | null,
+    private readonly onStop: () => void,
+  ) {}
+
+  /**
+   * Check whether the recording is still running
+   */
+  get recording(): boolean {
+    return !this.stopped;
+  }
+
+  /**
+   * Get the files saved so far
+   */
+  get files(): readonly RecordingFile[] {
+    return [...this.saved];
+  }
+
+  /**
+   * Stop recording and save every file
+   * @returns Every file saved by the recording
+   */
+  async stop(): Promise<RecordingFile[]> {
+    if (!this.stopped) {
+      this.stopped = true;
+      this.onStop();
+      for (const userId of [...this.writers.keys()]) this.finish(userId);
+    }
+    await Promise.all(this.saving);
+    return [...this.saved];
+  }
+
+  /**
+   * Write a chunk of a user's audio, starting a file for them if needed
+   * @private
+   */
+  write(userId: string, chunk: Buffer): void {
+    if (this.stopped || (this.users && !this.users.includes(userId))) return;
+
+    let entry = this.writers.get(userId);
+    if (!entry) {
+      const startedAt = Date.now();
+      const path = join(
+        this.directory,
+        `${userId}-${startedAt}.${this.format}`,
+      );
+      entry = {
+        writer:
+          this.format === "ogg" ? new OggWriter(path) : new WavWriter(path),
+        file: { userId, path, format: this.format, startedAt, duration: 0 },
+      };
+      this.writers.set(userId, entry);
+      this.player.emit("debug", "Recording started", { userId, path });
+    }
+    entry.writer.write(chunk);
+    entry.file.duration += chunk.length / 2 / (SAMPLE_RATE / 1000);
+  }
+
+  /**
+   * Save a user's file, if they have one
+   * @private
+   */
+  finish(userId: string): void {
+    const entry = this.writers.get(userId);
+    if (!entry) return;
+    this.writers.delete(userId);
+
+    const saving = entry.writer
+      .close()
+      .then(() => {
+        entry.file.duration = Math.round(entry.file.duration);
+        this.saved.push(entry.file);
+        this.player.emit("recordingSaved", entry.file);
+      })
+      .catch((error) =>
+        this.player.log("error", "Failed to save recording", {
+          userId,
+          path: entry.file.path,
+          error,
+        }),
+      )
+      .finally(() => this.saving.delete(saving));
+    this.saving.add(saving);
+  }
+}
+
+/**
+ * Writes PCM audio to a WAV file, filling in the sizes in the header once it is closed
+ * @private
+ */
+class WavWriter implements RecordingWriter {
+  private readonly file: WriteStream;
+  private bytes = 0;
+  private error: Error | null = null;
+
+  constructor(private readonly path: string) {
+    this.file = createWriteStream(path);
+    this.file.on("error", (error) => (this.error ??= error));
+    this.file.write(wavHeader(0));
+  }
+
+  write(chunk: Buffer): void {
+    this.bytes += chunk.length;
+    this.file.write(chunk);
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolve) => this.file.end(resolve));
+    if (this.error) throw this.error;
+
+    const handle = await open(this.path, "r+");
+    try {
+      await handle.write(wavHeader(this.bytes), 0, 44, 0);
+    } finally {
+      await handle.close();
+    }
+  }
+}
+
+/**
+ * Encodes PCM audio to an Ogg Opus file with ffmpeg
+ * @private
+ */
+class OggWriter implements RecordingWriter {
+  private readonly ffmpeg: ChildProcessWithoutNullStreams;
+  private readonly exited: Promise<number | null>;
+
+  constructor(path: string) {
+    this.ffmpeg = spawn("ffmpeg", [
+      "-f",
+      "s16le",
+      "-ar",
+      String(SAMPLE_RATE),
+      "-ac",
+      "1",
+      "-i",
+      "pipe:0",
+      "-c:a",
+      "libopus",
+      "-y",
+      path,
+    ]);
+    this.exited = new Promise((resolve) => {
+      this.ffmpeg.on("close", resolve);
+      this.ffmpeg.on("error", () => resolve(null));
+    });
+    // Failures are reported by the exit code when the file is closed
+    this.ffmpeg.stdin.on("error", () => {});
+  }
+
+  write(chunk: Buffer): void {
+    this.ffmpeg.stdin.write(chunk);
+  }
+
+  async close(): Promise<void> {
+    this.ffmpeg.stdin.end();
+    const code = await this.exited;
+    if (code !== 0) throw new Error(`FFmpeg exited with code ${code}`);
+  }
+}
+
+/**
+ * Build the header of a 48kHz mono 16-bit WAV file
+ * @param dataSize - The number of bytes of audio
+ * @private
+ */
+function wavHeader(dataSize: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0);
+  header.writeUInt32LE(36 + dataSize, 4);
+  header.write("WAVE", 8);
+  header.write("fmt ", 12);
+  header.writeUInt32LE(16, 16); // Size of the fmt chunk
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // Channels
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * 2, 28); // Byte rate
+  header.writeUInt16LE(2, 32); // Block align
+  header.writeUInt16LE(16, 34); // Bits per sample
+  header.write("data", 36);
+  header.writeUInt32LE(dataSize, 40);
+  return header;
+}
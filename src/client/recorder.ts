@@ -0,0 +1,144 @@
+import { createWriteStream, WriteStream } from "node:fs";
+import { Events } from "../utils/constants";
+import type { client } from "./client";
+
+/**
+ * Represents one line of a gateway recording.
+ */
+export interface GatewayRecord {
+  /** When the packet was received, in milliseconds since the epoch. */
+  time: number;
+  /** The packet, with tokens redacted. */
+  packet: unknown;
+}
+
+/**
+ * Represents the options for a `GatewayRecorder`.
+ */
+export interface GatewayRecorderOptions {
+  /** Whether to add to the file instead of replacing it. Defaults to `false`. */
+  append?: boolean;
+  /** Other field names to redact, in addition to any field with `token` in its name. */
+  redact?: string[];
+}
+
+/** The value redacted fields are replaced with. */
+const REDACTED = "[REDACTED]";
+
+/**
+ * Represents a recorder that writes every packet the client receives over the WebSocket to a
+ * JSONL file, one `GatewayRecord` per line. Tokens are redacted before anything is written.
+ *
+ * Recordings can be fed back into a client with `GatewayReplay` from `stoatbot.js/testing` to
+ * reproduce the exact packet sequence that led to a bug.
+ *
+ * @example
+ * ```typescript
+ * const recorder = new GatewayRecorder(client, "./gateway.jsonl").start();
+ * await client.login(token);
+ *
+ * // later
+ * await recorder.stop();
+ * ```
+ */
+export class GatewayRecorder {
+  /** The number of packets written so far. */
+  count = 0;
+
+  private stream: WriteStream | null = null;
+  private readonly listener = (packet: unknown) => this.write(packet);
+
+  /**
+   * Creates a new GatewayRecorder instance.
+   *
+   * @param {client} client - The client to record.
+   * @param {string} file - The path of the file to write to.
+   * @param {GatewayRecorderOptions} [options={}] - The options for the recorder.
+   */
+  constructor(
+    private readonly client: client,
+    readonly file: string,
+    private readonly options: GatewayRecorderOptions = {},
+  ) {}
+
+  /**
+   * Whether the recorder is recording.
+   *
+   * @returns {boolean} `true` if started and not stopped.
+   */
+  get recording(): boolean {
+    return this.stream !== null;
+  }
+
+  /**
+   * Starts recording. Start before `login` to include the `Ready` payload.
+   *
+   * @returns {this} The recorder.
+   */
+  start(): this {
+    if (this.stream) return this;
+
+    this.stream = createWriteStream(this.file, {
+      flags: this.options.append ? "a" : "w",
+    });
+    this.stream.on("error", (error) => this.client.emit(Events.ERROR, error));
+    this.client.on(Events.RAW, this.listener);
+    return this;
+  }
+
+  /**
+   * Stops recording and closes the file.
+   *
+   * @returns {Promise<void>} A promise that resolves once every packet has been written.
+   */
+  async stop(): Promise<void> {
+    const stream = this.stream;
+    if (!stream) return;
+
+    this.client.off(Events.RAW, this.listener);
+    this.stream = null;
+    await new Promise<void>((resolve) => stream.end(resolve));
+  }
+
+  /**
+   * Writes a packet to the file.
+   * @private
+   */
+  private write(packet: unknown): void {
+    const record: GatewayRecord = {
+      time: Date.now(),
+      packet: this.redact(packet),
+    };
+    this.stream?.write(`${JSON.stringify(record)}\n`);
+    this.count++;
+  }
+
+  /**
+   * Copies a packet, replacing tokens and the client's own token wherever it appears.
+   * @private
+   */
+  private redact(value: unknown, key?: string): unknown {
+    if (
+      key !== undefined &&
+      (/token/i.test(key) || this.options.redact?.includes(key)) &&
+      value !== null &&
+      typeof value !== "object"
+    ) {
+      return REDACTED;
+    }
+
+    if (typeof value === "string") {
+      const token = this.client.token;
+      return token ? value.split(token).join(REDACTED) : value;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redact(item));
+    }
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([k, v]) => [k, this.redact(v, k)]),
+      );
+    }
+    return value;
+  }
+}
@@ -1,5 +1,8 @@
 import { client } from "./client";
 import { AudioPlayer } from "./player";
+import { NodeSelector } from "./nodeSelector";
+import type { VoiceNode } from "./baseClient";
+import { Events } from "../utils/constants";
 
 /**
  * VoiceClient acts as a factory for creating AudioPlayer instances.
@@ -10,10 +13,24 @@ export class VoiceClient {
   private readonly client: client;
   /** Map of active audio players by server ID */
   private readonly players: Map<string, AudioPlayer>;
+  /** Every player that has been created and not disconnected, so they can be closed on shutdown */
+  private readonly active = new Set<AudioPlayer>();
+  /** Orders the voice nodes, keeping latency measurements between connections */
+  private readonly selector: NodeSelector;
 
   constructor(client: client) {
     this.client = client;
     this.players = new Map();
+    this.selector = new NodeSelector(client);
+  }
+
+  /**
+   * Gets the voice nodes in the order players try them, using the `voice.nodeSelection` strategy.
+   *
+   * @returns The nodes, the preferred node first
+   */
+  selectNodes(): Promise<VoiceNode[]> {
+    return this.selector.order();
   }
 
   /**
@@ -46,7 +63,11 @@ export class VoiceClient {
    * ```
    */
   createPlayer(channelId: string, serverId: string): AudioPlayer {
-    return new AudioPlayer(channelId, serverId, this.client);
+    const player = new AudioPlayer(channelId, serverId, this.client);
+    this.active.add(player);
+    player.on("connected", () => this.active.add(player));
+    player.on("disconnected", () => this.active.delete(player));
+    return player;
   }
 
   /**
@@ -101,4 +122,25 @@ export class VoiceClient {
       await player.stop();
     }
   }
+
+  /**
+   * Disconnects every player created by this client, including players managed by the user.
+   * Errors are emitted on the client instead of being thrown, so every player is disconnected.
+   *
+   * @returns A promise that resolves once every player has disconnected
+   */
+  async disconnectAll(): Promise<void> {
+    const players = [...this.active];
+    this.active.clear();
+    this.players.clear();
+
+    const results = await Promise.allSettled(
+      players.map((player) => player.disconnect()),
+    );
+    for (const result of results) {
+      if (result.status === "rejected") {
+        this.client.emit(Events.ERROR, result.reason);
+      }
+    }
+  }
 }
@@ -1,8 +1,8 @@
 import { time } from "node:console";
-import { ClientUser } from "../struct/clientUser";
-import { Emoji } from "../struct/emoji";
-import { Events, WSEvents } from "../utils/constants";
+import { Events, WSEvents, WSStatus } from "../utils/constants";
+import { ConfigurationError } from "../errors/index";
 import { client } from "./client";
+import { Ready, ReadyData } from "./events/ready";
 
 declare function setInterval(
   cb: (...args: any[]) => void,
@@ -10,8 +10,34 @@ declare function setInterval(
   ...args: any[]
 ): number;
 
+/** The `readyState` values from the WebSocket spec, which custom implementations use too. */
+const OPEN = 1;
+const CLOSED = 3;
+
+/**
+ * Represents the parts of the `WebSocket` API used by the WebSocket client.
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  onopen: ((event: any) => void) | null;
+  onmessage: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+  onclose: ((event: any) => void) | null;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+/**
+ * Represents a `WebSocket` implementation that can be used in place of the global one.
+ */
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
+
 /**
  * Represents the WebSocket client used for real-time communication with the API.
+ *
+ * The connection moves through the states in `WSStatus`. When it is lost, a single reconnect is
+ * scheduled with a jittered exponential backoff, and the caches are brought up to date from the
+ * new `Ready` payload.
  */
 export class WebSocketClient {
   /** The interval for sending heartbeats, in milliseconds. */
@@ -24,26 +50,59 @@ export class WebSocketClient {
   lastPongAck?: boolean = false;
 
   /** The WebSocket connection instance. */
-  socket?: WebSocket | null;
+  socket?: WebSocketLike | null;
+
+  /** The current state of the connection. */
+  status: WSStatus = WSStatus.IDLE;
 
-  /** Whether the WebSocket client is connected. */
+  /** Whether the WebSocket client is authenticated. */
   connected: boolean = false;
 
-  /** A promise representing the reconnecting process, or `null` if not reconnecting. */
-  reconnecting: Promise<unknown> | null = null;
+  /** The number of reconnection attempts made since the last successful connection. */
+  retryCount: number = 0;
 
-  /** Whether the WebSocket client is ready. */
-  ready = false;
+  /** The connection attempt in progress, settled once the client is ready or gives up. */
+  #pending: {
+    promise: Promise<WebSocketClient>;
+    resolve: (ws: WebSocketClient) => void;
+    reject: (error: Error) => void;
+  } | null = null;
 
-  /** The number of reconnection attempts made. */
-  retryCount: number = 0;
+  /** The timer for the scheduled reconnect, if any. */
+  #reconnectTimer: NodeJS.Timeout | null = null;
+
+  /** Whether the client has been ready before, so the next `Ready` is a reconnect. */
+  #hasConnected = false;
+
+  /** The handler for the `Ready` payload. */
+  #ready: Ready;
 
   /**
    * Creates a new WebSocketClient instance.
    *
    * @param {client} client - The client instance.
    */
-  constructor(protected readonly client: client) {}
+  constructor(protected readonly client: client) {
+    this.#ready = new Ready(client);
+  }
+
+  /**
+   * Whether the WebSocket client is ready.
+   *
+   * @returns {boolean} `true` if connected and receiving events.
+   */
+  get ready(): boolean {
+    return this.status === WSStatus.READY;
+  }
+
+  /**
+   * A promise representing the connecting or reconnecting process, or `null` if not connecting.
+   *
+   * @returns {Promise<this> | null} A promise that resolves when the client is ready.
+   */
+  get reconnecting(): Promise<this> | null {
+    return (this.#pending?.promise as Promise<this>) ?? null;
+  }
 
   /**
    * Logs a debug message.
@@ -52,22 +111,27 @@ export class WebSocketClient {
    * @private
    */
   private debug(message: unknown): void {
-    this.client.debug(`[WS] ${message}`);
+    this.client.logger.debug(String(message), { component: "ws" });
   }
 
   /**
    * Sends data through the WebSocket connection.
+   * Waits for the connection to be ready first if it is connecting or reconnecting.
    *
    * @param {unknown} data - The data to send.
    * @returns {Promise<void>} A promise that resolves when the data is sent.
    * @throws {Error} Throws an error if the WebSocket is not open.
    */
   async send(data: unknown): Promise<void> {
-    if (this.reconnecting) {
+    if (
+      this.#pending &&
+      (this.status === WSStatus.CONNECTING ||
+        this.status === WSStatus.RECONNECTING)
+    ) {
       this.debug("Reconnecting, waiting to send message.");
-      await this.reconnecting;
+      await this.#pending.promise;
     }
-    if (this.socket?.readyState === WebSocket.OPEN) {
+    if (this.socket?.readyState === OPEN) {
       this.socket.send(JSON.stringify(data));
     } else {
       this.debug("Socket is not open, cannot send message.");
@@ -82,10 +146,13 @@ export class WebSocketClient {
    */
   private onOpen(): void {
     if (!this.client.token) throw new Error("Token is required");
-    this.send({
-      type: WSEvents.AUTHENTICATE,
-      token: this.client.token,
-    });
+    this.status = WSStatus.AUTHENTICATING;
+    this.socket?.send(
+      JSON.stringify({
+        type: WSEvents.AUTHENTICATE,
+        token: this.client.token,
+      }),
+    );
   }
 
   /**
@@ -107,6 +174,7 @@ export class WebSocketClient {
     this.debug(`Setting a heartbeat interval for ${time}ms.`);
     if (this.heartbeatInterval) {
       clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = undefined;
     }
     if (time !== -1) {
       this.heartbeatInterval = setInterval(() => this.sendHeartbeat(), time);
@@ -115,20 +183,20 @@ export class WebSocketClient {
 
   /**
    * Sends a heartbeat to the server to keep the connection alive.
+   * Drops the connection if the last heartbeat was not acknowledged.
    */
   sendHeartbeat(): void {
     this.debug("Sending heartbeat.");
 
     if (!this.lastPongAck) {
       this.debug("Did not receive a pong ack.");
-      if (this.client.options.ws?.reconnect) {
-        this.reconnecting = this.destroy()
-          .then(() => this.connect())
-          .then(() => (this.reconnecting = null));
-      }
+      this.drop(4000, "Heartbeat was not acknowledged");
+      return;
     }
     const now = Date.now();
-    this.send({ type: WSEvents.PING, data: now });
+    this.send({ type: WSEvents.PING, data: now }).catch((e) =>
+      this.client.emit(Events.ERROR, e),
+    );
     this.lastPongAck = false;
     this.lastPingTimestamp = now;
   }
@@ -141,6 +209,11 @@ export class WebSocketClient {
    */
   private onError(event: unknown): void {
     this.client.emit(Events.ERROR, event);
+
+    // Some runtimes never fire `close` when the connection cannot be opened.
+    if (this.status === WSStatus.CONNECTING) {
+      this.drop(1006, "Connection failed");
+    }
   }
 
   /**
@@ -171,16 +244,16 @@ export class WebSocketClient {
    */
   private onClose(event: { code: number; reason: string }): void {
     this.debug(`Closed with reason: ${event.reason}, code: ${event.code}`);
-    this.destroy();
+    this.onDisconnect(event.code, event.reason);
   }
 
   /**
-   * Handles incoming WebSocket packets.
+   * Handles incoming WebSocket packets. Also used by `Replay` to handle recorded packets.
    *
    * @param {any} packet - The packet data.
    * @private
    */
-  private async onPacket(packet: any) {
+  async onPacket(packet: any) {
     if (!packet) {
       this.debug(`Received broken packet: '${packet}'.`);
       return;
@@ -192,7 +265,6 @@ export class WebSocketClient {
         break;
       case WSEvents.AUTHENTICATED:
         this.connected = true;
-        this.retryCount = 0;
         this.debug(`Successfully authenticated.`);
         break;
       case WSEvents.PONG:
@@ -204,59 +276,27 @@ export class WebSocketClient {
         break;
       case WSEvents.READY: {
         this.lastPongAck = true;
-
-        const promises: Promise<unknown>[] = [];
-
-        for (const user of packet.users) {
-          if (user.relationship === "User" && !this.client.user) {
-            this.client.user = new ClientUser(this.client, user);
-          } else {
-            this.client.users._add(user);
-          }
-        }
-
-        for (const member of packet.members) {
-          this.client.servers.cache
-            .get(member._id.server)
-            ?.members._add(member);
-        }
-
-        for (const emoji of packet.emojis) {
-          this.client.servers.cache
-            .get(emoji.parent.id)
-            ?.emojis.set(emoji._id, { ...emoji, _id: emoji._id });
-        }
-
-        for (const channel of packet.channels) {
-          this.client.channels._add(channel);
-        }
-
-        for (const server of packet.servers) {
-          const s = this.client.servers._add(server);
-          if (this.client.options.fetchMembers) {
-            promises.push(s.members.fetch());
-          }
-        }
-
         this.setHeartbeatTimer(
           this.client.options.ws?.heartbeatInterval ?? 30000,
         );
 
-        await Promise.all(promises);
+        const resumed = this.#hasConnected;
+        await this.#ready.handle(packet as ReadyData, resumed);
 
-        for (const voice_state of packet.voice_states) {
-          const channel = this.client.channels.cache.get(voice_state.id);
-          for (const participant of voice_state.participants) {
-            channel?.voice?.set(participant.id, participant);
-          }
-        }
+        this.#hasConnected = true;
+        this.status = WSStatus.READY;
+        this.retryCount = 0;
+        this.client.readyAt ??= new Date();
 
-        this.ready = true;
+        this.#pending?.resolve(this);
+        this.#pending = null;
 
-        this.client.emit(Events.READY, this.client);
+        this.client.emit(resumed ? Events.RESUMED : Events.READY, this.client);
         break;
       }
       default: {
+        if (!this.handlesPacket(packet)) break;
+
         const action = this.client.events.get(packet.type);
         if (action) {
           await action.handle(packet);
@@ -269,80 +309,241 @@ export class WebSocketClient {
     }
   }
 
+  /**
+   * Checks whether an event packet should be handled by this client when running as a shard.
+   * Packets are dropped if their type is not in `shard.events`, or if they belong to a
+   * server or channel of another shard.
+   *
+   * @param {any} packet - The packet data.
+   * @returns {boolean} `true` if the packet should be handled.
+   * @private
+   */
+  private handlesPacket(packet: any): boolean {
+    const shard = this.client.options.shard;
+    if (!shard) return true;
+
+    if (shard.events && !shard.events.includes(packet.type)) return false;
+
+    const type = String(packet.type);
+
+    if (type.startsWith("Server")) {
+      const serverId =
+        typeof packet.id === "object" ? packet.id?.server : packet.id;
+      return typeof serverId === "string"
+        ? this.client.ownsServer(serverId)
+        : true;
+    }
+
+    if (type === WSEvents.CHANNEL_CREATE) {
+      return this.client.ownsChannel(packet.server);
+    }
+
+    const channelId =
+      packet.channel ??
+      packet.channel_id ??
+      (type.startsWith("Channel") || type.startsWith("VoiceChannel")
+        ? packet.id
+        : undefined);
+
+    if (typeof channelId === "string") {
+      const channel = this.client.channels.cache.get(channelId);
+      if (!channel) return false;
+      return this.client.ownsChannel(
+        channel.inServer() ? channel.serverId : null,
+      );
+    }
+
+    return true;
+  }
+
   /**
    * Connects to the WebSocket server.
+   * If a connection or reconnect is already in progress, waits for it instead of starting another.
    *
-   * @returns {Promise<this>} A promise that resolves when the connection is established.
+   * @returns {Promise<this>} A promise that resolves when the client is ready.
    */
   connect(): Promise<this> {
-    this.retryCount = this.retryCount + 1;
-    if (this.retryCount > 10) {
-      this.debug("Max retry attempts reached");
+    if (this.status === WSStatus.READY) return Promise.resolve(this);
+
+    if (typeof this.client.token !== "string") {
+      return Promise.reject(new Error("INVALID_TOKEN"));
+    }
+    if (!this.client.options.ws?.instanceURL) {
       return Promise.reject(
-        new Error(
-          "Max retry attempts reached on WS connection, try again later.",
-        ),
+        new ConfigurationError("WebSocket instance URL not set."),
       );
     }
-    return new Promise(async (resolve) => {
-      if (this.socket?.readyState === WebSocket.OPEN && this.ready) {
-        return resolve(this);
-      }
 
-      if (typeof this.client.options === "undefined") {
-        throw new Error("MISSING_CONFIGURATION_SYNC");
-      }
+    const promise = this.pending();
+    if (this.status === WSStatus.IDLE || this.status === WSStatus.CLOSED) {
+      this.retryCount = 0;
+      void this.open();
+    }
+    return promise;
+  }
 
-      if (typeof this.client.token !== "string") {
-        throw new Error("INVALID_TOKEN");
-      }
+  /**
+   * Destroys the WebSocket connection and clears its state. No reconnect is attempted.
+   *
+   * @returns {Promise<void>} A promise that resolves when the connection is closed.
+   */
+  destroy(): Promise<void> {
+    this.status = WSStatus.CLOSED;
+    this.#hasConnected = false;
+    this.connected = false;
+    this.setHeartbeatTimer(-1);
+
+    if (this.#reconnectTimer) {
+      clearTimeout(this.#reconnectTimer);
+      this.#reconnectTimer = null;
+    }
+
+    this.#pending?.reject(new Error("WebSocket was destroyed"));
+    this.#pending = null;
+
+    const socket = this.socket;
+    this.socket = null;
+    if (!socket || socket.readyState === CLOSED) {
+      return Promise.resolve();
+    }
 
-      await this.client.init();
+    return new Promise((resolve) => {
+      socket.onmessage = null;
+      socket.onerror = null;
+      socket.onclose = () => resolve();
+      socket.close(1000);
+    });
+  }
 
-      if (!this.client.options.ws?.instanceURL)
-        return Promise.reject(new Error("WebSocket instance URL not set."));
-      const ws = (this.socket =
-        this.socket ?? new WebSocket(this.client.options.ws?.instanceURL));
+  /**
+   * Opens a new socket.
+   * @private
+   */
+  private async open(): Promise<void> {
+    this.status = WSStatus.CONNECTING;
+
+    try {
+      const url = this.client.options.ws?.instanceURL;
+      if (!url) throw new Error("WebSocket instance URL not set.");
 
+      const WebSocketImpl = this.client.options.ws?.webSocket ?? WebSocket;
+      const ws = (this.socket = new WebSocketImpl(url));
       ws.onopen = this.onOpen.bind(this);
       ws.onmessage = this.onMessage.bind(this);
       ws.onerror = this.onError.bind(this);
       ws.onclose = this.onClose.bind(this);
-      ws.addEventListener("open", () => resolve(this));
-    });
+    } catch (error) {
+      this.debug(`Failed to connect: ${error}`);
+      this.scheduleReconnect();
+    }
   }
 
   /**
-   * Destroys the WebSocket connection and clears its state.
-   *
-   * @returns {Promise<void>} A promise that resolves when the connection is destroyed.
+   * Closes the socket without waiting for the server, then handles the disconnect.
+   * @private
    */
-  destroy(isUserInitiated?: boolean): Promise<void> {
-    return new Promise((resolve) => {
-      this.setHeartbeatTimer(-1);
-      this.connected = false;
-      this.ready = false;
-
-      if (this.socket?.readyState === WebSocket.OPEN) {
-        this.socket.addEventListener("close", () => {
-          this.socket = null;
-          if (!isUserInitiated) {
-            setTimeout(() => this.connect(), 1000);
-          }
-          resolve();
-        });
-
-        this.socket.close();
-        if (!isUserInitiated) {
-          setTimeout(() => this.connect(), 1000);
-        }
-      } else {
-        this.socket = null;
-        if (!isUserInitiated) {
-          setTimeout(() => this.connect(), 1000);
-        }
-        resolve();
-      }
-    });
+  private drop(code: number, reason: string): void {
+    const socket = this.socket;
+    if (socket) {
+      socket.onmessage = null;
+      socket.onerror = null;
+      socket.onclose = null;
+      socket.close();
+    }
+    this.onDisconnect(code, reason);
+  }
+
+  /**
+   * Handles a lost connection, reconnecting if enabled.
+   * @private
+   */
+  private onDisconnect(code: number, reason: string): void {
+    this.setHeartbeatTimer(-1);
+    this.connected = false;
+    this.socket = null;
+
+    if (this.status === WSStatus.CLOSED) return;
+    this.client.emit(Events.SHARD_DISCONNECT, code, reason);
+
+    if (!(this.client.options.ws?.reconnect ?? true)) {
+      this.close(new Error(`WebSocket closed with code ${code}: ${reason}`));
+      return;
+    }
+
+    this.scheduleReconnect();
+  }
+
+  /**
+   * Schedules a reconnect unless one is already scheduled or attempts have run out.
+   * @private
+   */
+  private scheduleReconnect(): void {
+    if (this.#reconnectTimer || this.status === WSStatus.CLOSED) return;
+
+    this.retryCount++;
+    const maxAttempts = this.client.options.ws?.maxReconnectAttempts ?? 10;
+    if (this.retryCount > maxAttempts) {
+      this.debug("Max retry attempts reached");
+      this.close(
+        new Error(
+          "Max retry attempts reached on WS connection, try again later.",
+        ),
+      );
+      return;
+    }
+
+    this.status = WSStatus.RECONNECTING;
+    this.pending();
+
+    const delay = this.backoff(this.retryCount);
+    this.debug(`Reconnecting in ${delay}ms (attempt ${this.retryCount}).`);
+    this.client.emit(Events.RECONNECTING, this.retryCount, delay);
+
+    this.#reconnectTimer = setTimeout(() => {
+      this.#reconnectTimer = null;
+      void this.open();
+    }, delay);
+  }
+
+  /**
+   * Gives up on the connection.
+   * Errors are emitted if the client had been ready, as nothing is waiting on `connect()`.
+   * @private
+   */
+  private close(error: Error): void {
+    this.status = WSStatus.CLOSED;
+    this.#pending?.reject(error);
+    this.#pending = null;
+    if (this.#hasConnected) this.client.emit(Events.ERROR, error);
+  }
+
+  /**
+   * Works out the delay before a reconnect attempt, doubling for each attempt up to
+   * `maxReconnectDelay` and picking a random point in the upper half to spread out clients.
+   * @private
+   */
+  private backoff(attempt: number): number {
+    const base = this.client.options.ws?.reconnectDelay ?? 1000;
+    const max = this.client.options.ws?.maxReconnectDelay ?? 30000;
+    const delay = Math.min(max, base * 2 ** (attempt - 1));
+    return Math.round(delay / 2 + (Math.random() * delay) / 2);
+  }
+
+  /**
+   * Gets the promise for the connection attempt in progress, creating one if needed.
+   * @private
+   */
+  private pending(): Promise<this> {
+    if (!this.#pending) {
+      let resolve!: (ws: WebSocketClient) => void;
+      let reject!: (error: Error) => void;
+      const promise = new Promise<WebSocketClient>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      promise.catch(() => {});
+      this.#pending = { promise, resolve, reject };
+    }
+    return this.#pending.promise as Promise<this>;
   }
 }
@@ -0,0 +1,230 @@
+import { isMainThread, parentPort, workerData } from "node:worker_threads";
+import type { MessagePort } from "node:worker_threads";
+import type { client } from "../client/client";
+import { Events } from "../utils/constants";
+import {
+  serialize,
+  type ClusterLookupType,
+  type ClusterMessage,
+  type ClusterRequest,
+  type ClusterStats,
+  type ClusterWorkerData,
+  type WorkerStats,
+} from "./ipc";
+import type { ShardOptions } from "./shard";
+
+/**
+ * Represents the options for a cluster client.
+ */
+export interface ClusterClientOptions {
+  /** How long to wait for the manager to answer a request, in milliseconds. Defaults to `30000`. */
+  timeout?: number;
+}
+
+/**
+ * Connects a client running in a worker to its `ClusterManager`.
+ * Sets `shard` on the client options, answers requests from the manager and relays
+ * requests to the other workers.
+ *
+ * @example
+ * ```typescript
+ * const bot = new client();
+ * const cluster = new ClusterClient(bot);
+ *
+ * bot.on("message", async (message) => {
+ *   if (message.content !== "!servers") return;
+ *   const { servers } = await cluster.stats();
+ *   await message.reply(`I'm in ${servers} servers`);
+ * });
+ *
+ * bot.login(process.env.TOKEN!);
+ * ```
+ */
+export class ClusterClient {
+  /** The shard this worker runs as. */
+  readonly shard: ShardOptions;
+
+  /** The custom data given in `ClusterManagerOptions.workerData`. */
+  readonly data: unknown;
+
+  /** The port used to talk to the manager. */
+  #port: MessagePort;
+
+  /** The resolved options for the cluster client. */
+  readonly options: Required<ClusterClientOptions>;
+
+  /** The requests waiting for a reply, keyed by nonce. */
+  #pending = new Map<
+    number,
+    {
+      resolve: (value: unknown) => void;
+      reject: (error: Error) => void;
+      timer: NodeJS.Timeout;
+    }
+  >();
+
+  #nonce = 0;
+
+  /**
+   * Creates a new ClusterClient instance. Must be created before the client logs in.
+   *
+   * @param {client} client - The client running in this worker.
+   * @param {ClusterClientOptions} [options={}] - The options for the cluster client.
+   * @throws {Error} Throws an error if not running in a worker spawned by a `ClusterManager`.
+   */
+  constructor(
+    readonly client: client,
+    options: ClusterClientOptions = {},
+  ) {
+    if (isMainThread || !parentPort) {
+      throw new Error(
+        "ClusterClient must be created in a worker spawned by a ClusterManager",
+      );
+    }
+
+    this.options = { timeout: 30_000, ...options };
+
+    const { shard, data } = workerData as ClusterWorkerData;
+    this.shard = shard;
+    this.data = data;
+    this.#port = parentPort;
+
+    client.options.shard ??= shard;
+
+    this.#port.on("message", (message: ClusterMessage) =>
+      this.onMessage(message),
+    );
+    client.on(Events.READY, () =>
+      this.#port.postMessage({ op: "ready" } satisfies ClusterMessage),
+    );
+    this.#port.postMessage({ op: "connect" } satisfies ClusterMessage);
+  }
+
+  /**
+   * Runs a function in every worker, including this one, and collects the results.
+   * The function is sent as source code, so it cannot use variables from the surrounding scope;
+   * pass them through `context` instead.
+   *
+   * @param {(client: client, context: C) => T | Promise<T>} fn - The function to run.
+   * @param {C} [context] - Data passed to the function.
+   * @returns {Promise<T[]>} A promise that resolves with the result of each worker, in worker order.
+   */
+  broadcastEval<T, C = undefined>(
+    fn: ((client: client, context: C) => T | Promise<T>) | string,
+    context?: C,
+  ): Promise<T[]> {
+    const script = typeof fn === "function" ? fn.toString() : fn;
+    return this.request({ op: "eval", script, context }) as Promise<T[]>;
+  }
+
+  /**
+   * Looks up a user or server in the cache of every worker.
+   *
+   * @param {ClusterLookupType} type - The cache to look in.
+   * @param {string} id - The ID of the user or server.
+   * @returns {Promise<unknown | null>} A promise that resolves with the first worker's copy, or `null` if none has it.
+   */
+  lookup(type: ClusterLookupType, id: string): Promise<unknown | null> {
+    return this.request({ op: "lookup", type, id });
+  }
+
+  /**
+   * Gets the stats of every worker, with totals.
+   *
+   * @returns {Promise<ClusterStats>} A promise that resolves with the stats.
+   */
+  stats(): Promise<ClusterStats> {
+    return this.request({ op: "stats" }) as Promise<ClusterStats>;
+  }
+
+  /**
+   * Gets the stats of this worker.
+   *
+   * @returns {WorkerStats} The stats.
+   */
+  localStats(): WorkerStats {
+    return {
+      id: this.shard.id,
+      servers: this.client.servers.cache.size,
+      users: this.client.users.cache.size,
+      channels: this.client.channels.cache.size,
+      ping: this.client.ping,
+      uptime: this.client.upTime,
+      memory: process.memoryUsage().heapUsed,
+    };
+  }
+
+  /**
+   * Sends a request to the manager, rejecting if it does not reply within `timeout`.
+   * @private
+   */
+  private request(request: ClusterRequest): Promise<unknown> {
+    const nonce = ++this.#nonce;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.#pending.delete(nonce);
+        reject(new Error(`Manager did not reply to "${request.op}"`));
+      }, this.options.timeout);
+
+      this.#pending.set(nonce, { resolve, reject, timer });
+      this.#port.postMessage({ ...request, nonce } satisfies ClusterMessage);
+    });
+  }
+
+  /**
+   * Handles a message from the manager.
+   * @private
+   */
+  private async onMessage(message: ClusterMessage) {
+    if (message.op === "connect" || message.op === "ready") return;
+
+    if (message.op === "reply") {
+      const pending = this.#pending.get(message.nonce);
+      if (!pending) return;
+
+      this.#pending.delete(message.nonce);
+      clearTimeout(pending.timer);
+
+      if (message.ok) pending.resolve(message.value);
+      else pending.reject(new Error(message.error));
+      return;
+    }
+
+    const { nonce } = message;
+    try {
+      let value: unknown;
+      switch (message.op) {
+        case "eval": {
+          const fn = new Function(
+            "client",
+            "context",
+            `return (${message.script})(client, context);`,
+          );
+          value = serialize(await fn(this.client, message.context));
+          break;
+        }
+        case "lookup":
+          value = serialize(
+            this.client[message.type].cache.get(message.id) ?? null,
+          );
+          break;
+        case "stats":
+          value = this.localStats();
+          break;
+      }
+      this.#port.postMessage({
+        op: "reply",
+        nonce,
+        ok: true,
+        value,
+      } satisfies ClusterMessage);
+    } catch (error) {
+      this.#port.postMessage({
+        op: "reply",
+        nonce,
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      } satisfies ClusterMessage);
+    }
+  }
+}
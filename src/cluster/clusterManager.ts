@@ -0,0 +1,421 @@
+import { EventEmitter } from "node:events";
+import { availableParallelism } from "node:os";
+import { Worker, WorkerOptions } from "node:worker_threads";
+import type { client } from "../client/client";
+import type {
+  ClusterLookupType,
+  ClusterMessage,
+  ClusterRequest,
+  ClusterStats,
+  ClusterWorkerData,
+  WorkerStats,
+} from "./ipc";
+
+/**
+ * Represents the options for a cluster manager.
+ */
+export interface ClusterManagerOptions {
+  /** The path to the worker script. The script must create a `ClusterClient`, which `spawn` waits for, and log in. */
+  file: string;
+  /** The number of workers to spawn. Defaults to the number of available CPUs. */
+  totalWorkers?: number;
+  /** The event types handled by each worker, indexed by worker ID. Workers without an entry handle every event. */
+  workerEvents?: (string[] | undefined)[];
+  /** Whether to restart workers that exit unexpectedly. Defaults to `true`. */
+  respawn?: boolean;
+  /** How long to wait before restarting a worker, in milliseconds. Defaults to `5000`. */
+  respawnDelay?: number;
+  /** How long to wait for a worker to answer a request, in milliseconds. Defaults to `30000`. */
+  timeout?: number;
+  /** Custom data passed to every worker, available as `ClusterClient.data`. */
+  workerData?: unknown;
+  /** Extra options passed to each `Worker`. `workerData` is set by the manager. */
+  workerOptions?: Omit<WorkerOptions, "workerData">;
+}
+
+/**
+ * Events emitted by a cluster manager.
+ */
+export interface ClusterManagerEvents {
+  /** Emitted when a worker is spawned. */
+  spawn: [id: number, worker: Worker];
+  /** Emitted when the client in a worker is ready. */
+  ready: [id: number];
+  /** Emitted when a worker exits. */
+  exit: [id: number, code: number];
+  /** Emitted when a worker throws an uncaught error. */
+  workerError: [id: number, error: Error];
+}
+
+export declare interface ClusterManager {
+  on<E extends keyof ClusterManagerEvents>(
+    event: E,
+    listener: (...args: ClusterManagerEvents[E]) => void,
+  ): this;
+
+  once<E extends keyof ClusterManagerEvents>(
+    event: E,
+    listener: (...args: ClusterManagerEvents[E]) => void,
+  ): this;
+
+  off<E extends keyof ClusterManagerEvents>(
+    event: E,
+    listener: (...args: ClusterManagerEvents[E]) => void,
+  ): this;
+
+  emit<E extends keyof ClusterManagerEvents>(
+    event: E,
+    ...args: ClusterManagerEvents[E]
+  ): boolean;
+}
+
+/** A request waiting for a reply from a worker. */
+interface PendingRequest {
+  workerId: number;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Runs several clients in worker threads, each as a shard of the bot.
+ * Servers are split between workers by ID, and each worker can be limited to a set of event types.
+ * Workers that crash are restarted, and requests can be relayed between them.
+ *
+ * @extends EventEmitter
+ *
+ * @example
+ * ```typescript
+ * // index.ts
+ * const manager = new ClusterManager({ file: "./bot.js", totalWorkers: 2 });
+ * manager.on("ready", (id) => console.log(`Worker ${id} is ready`));
+ * await manager.spawn();
+ *
+ * const stats = await manager.stats();
+ * console.log(`${stats.servers} servers, ${stats.averagePing}ms`);
+ *
+ * // bot.ts
+ * const bot = new client();
+ * const cluster = new ClusterClient(bot);
+ * bot.login(process.env.TOKEN!);
+ * ```
+ */
+export class ClusterManager extends EventEmitter {
+  /** The resolved options for the manager. */
+  readonly options: Required<
+    Omit<ClusterManagerOptions, "workerData" | "workerOptions">
+  > &
+    Pick<ClusterManagerOptions, "workerData" | "workerOptions">;
+
+  /** The running workers, keyed by worker ID. */
+  readonly workers = new Map<number, Worker>();
+
+  /** The requests waiting for a reply, keyed by nonce. */
+  #pending = new Map<number, PendingRequest>();
+
+  /** The pending respawn timers, keyed by worker ID. */
+  #respawns = new Map<number, NodeJS.Timeout>();
+
+  #nonce = 0;
+  #destroyed = false;
+
+  /**
+   * Creates a new ClusterManager instance.
+   *
+   * @param {ClusterManagerOptions} options - The options for the manager.
+   */
+  constructor(options: ClusterManagerOptions) {
+    super();
+
+    this.options = {
+      totalWorkers: availableParallelism(),
+      workerEvents: [],
+      respawn: true,
+      respawnDelay: 5_000,
+      timeout: 30_000,
+      ...options,
+    };
+  }
+
+  /**
+   * Spawns every worker.
+   *
+   * @returns {Promise<void>} A promise that resolves when every worker has created its `ClusterClient`.
+   * @throws {Error} Throws the error of the first worker that fails or exits before creating its `ClusterClient`.
+   */
+  async spawn(): Promise<void> {
+    this.#destroyed = false;
+    const workers: Promise<void>[] = [];
+
+    for (let id = 0; id < this.options.totalWorkers; id++) {
+      workers.push(this.waitForClient(id, this.spawnWorker(id)));
+    }
+
+    await Promise.all(workers);
+  }
+
+  /**
+   * Runs a function in every worker and collects the results.
+   * The function is sent as source code, so it cannot use variables from the surrounding scope;
+   * pass them through `context` instead. Results must be plain data.
+   *
+   * @param {(client: client, context: C) => T | Promise<T>} fn - The function to run.
+   * @param {C} [context] - Data passed to the function.
+   * @returns {Promise<T[]>} A promise that resolves with the result of each worker, in worker order.
+   *
+   * @example
+   * ```typescript
+   * const counts = await manager.broadcastEval((client) => client.servers.cache.size);
+   * ```
+   */
+  broadcastEval<T, C = undefined>(
+    fn: ((client: client, context: C) => T | Promise<T>) | string,
+    context?: C,
+  ): Promise<T[]> {
+    const script = typeof fn === "function" ? fn.toString() : fn;
+    return this.requestAll({ op: "eval", script, context }) as Promise<T[]>;
+  }
+
+  /**
+   * Looks up a user or server in the cache of every worker.
+   *
+   * @param {ClusterLookupType} type - The cache to look in.
+   * @param {string} id - The ID of the user or server.
+   * @returns {Promise<unknown | null>} A promise that resolves with the first worker's copy, or `null` if none has it.
+   */
+  async lookup(type: ClusterLookupType, id: string): Promise<unknown | null> {
+    const results = await this.requestAll({ op: "lookup", type, id });
+    return results.find((result) => result != null) ?? null;
+  }
+
+  /**
+   * Gets the stats of every worker, with totals.
+   *
+   * @returns {Promise<ClusterStats>} A promise that resolves with the stats.
+   */
+  async stats(): Promise<ClusterStats> {
+    const workers = (await this.requestAll({ op: "stats" })) as WorkerStats[];
+
+    return {
+      servers: workers.reduce((total, w) => total + w.servers, 0),
+      users: workers.reduce((total, w) => total + w.users, 0),
+      channels: workers.reduce((total, w) => total + w.channels, 0),
+      averagePing: workers.length
+        ? workers.reduce((total, w) => total + w.ping, 0) / workers.length
+        : 0,
+      workers,
+    };
+  }
+
+  /**
+   * Restarts a worker.
+   *
+   * @param {number} id - The ID of the worker to restart.
+   * @returns {Promise<void>} A promise that resolves when the new worker has created its `ClusterClient`.
+   * @throws {Error} Throws if the new worker fails or exits before creating its `ClusterClient`.
+   */
+  async respawn(id: number): Promise<void> {
+    const old = this.workers.get(id);
+    if (old) {
+      this.workers.delete(id);
+      await old.terminate();
+    }
+
+    await this.waitForClient(id, this.spawnWorker(id));
+  }
+
+  /**
+   * Stops every worker without restarting them.
+   *
+   * @returns {Promise<void>} A promise that resolves when every worker has exited.
+   */
+  async destroy(): Promise<void> {
+    this.#destroyed = true;
+
+    for (const timer of this.#respawns.values()) clearTimeout(timer);
+    this.#respawns.clear();
+
+    const workers = [...this.workers.values()];
+    this.workers.clear();
+    await Promise.all(workers.map((worker) => worker.terminate()));
+  }
+
+  /**
+   * Sends a request to a single worker.
+   *
+   * @param {number} id - The ID of the worker.
+   * @param {ClusterRequest} request - The request to send.
+   * @returns {Promise<unknown>} A promise that resolves with the worker's reply.
+   * @private
+   */
+  request(id: number, request: ClusterRequest): Promise<unknown> {
+    const worker = this.workers.get(id);
+    if (!worker) {
+      return Promise.reject(new Error(`Worker ${id} is not running`));
+    }
+
+    const nonce = ++this.#nonce;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.#pending.delete(nonce);
+        reject(new Error(`Worker ${id} did not reply to "${request.op}"`));
+      }, this.options.timeout);
+
+      this.#pending.set(nonce, { workerId: id, resolve, reject, timer });
+      worker.postMessage({ ...request, nonce } satisfies ClusterMessage);
+    });
+  }
+
+  /**
+   * Sends a request to every running worker.
+   * @private
+   */
+  private requestAll(request: ClusterRequest): Promise<unknown[]> {
+    return Promise.all(
+      [...this.workers.keys()]
+        .sort((a, b) => a - b)
+        .map((id) => this.request(id, request)),
+    );
+  }
+
+  /**
+   * Creates a worker and listens to it.
+   * @private
+   */
+  private spawnWorker(id: number): Worker {
+    const workerData: ClusterWorkerData = {
+      shard: {
+        id,
+        count: this.options.totalWorkers,
+        events: this.options.workerEvents[id],
+      },
+      data: this.options.workerData,
+    };
+
+    const worker = new Worker(this.options.file, {
+      ...this.options.workerOptions,
+      workerData,
+    });
+    this.workers.set(id, worker);
+
+    worker.on("message", (message: ClusterMessage) =>
+      this.onMessage(id, worker, message),
+    );
+    worker.on("error", (error) => this.emit("workerError", id, error));
+    worker.once("exit", (code) => this.onExit(id, worker, code));
+
+    this.emit("spawn", id, worker);
+    return worker;
+  }
+
+  /**
+   * Waits for a worker to create its `ClusterClient`, rejecting if it fails or exits first.
+   * Workers emit `online` before running their script, so startup errors only show up after it.
+   * @private
+   */
+  private waitForClient(id: number, worker: Worker): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const settle = (error?: Error) => {
+        worker.off("message", onMessage);
+        worker.off("error", onError);
+        worker.off("exit", onExit);
+        if (error) reject(error);
+        else resolve();
+      };
+      const onMessage = (message: ClusterMessage) => {
+        if (message.op === "connect") settle();
+      };
+      const onError = (error: Error) => settle(error);
+      const onExit = (code: number) =>
+        settle(
+          new Error(
+            `Worker ${id} exited with code ${code} before it connected`,
+          ),
+        );
+
+      worker.on("message", onMessage);
+      worker.once("error", onError);
+      worker.once("exit", onExit);
+    });
+  }
+
+  /**
+   * Handles a message from a worker.
+   * @private
+   */
+  private async onMessage(id: number, worker: Worker, message: ClusterMessage) {
+    if (message.op === "connect") return;
+
+    if (message.op === "ready") {
+      this.emit("ready", id);
+      return;
+    }
+
+    if (message.op === "reply") {
+      const pending = this.#pending.get(message.nonce);
+      if (!pending) return;
+
+      this.#pending.delete(message.nonce);
+      clearTimeout(pending.timer);
+
+      if (message.ok) pending.resolve(message.value);
+      else pending.reject(new Error(message.error));
+      return;
+    }
+
+    const { nonce } = message;
+    try {
+      let value: unknown;
+      switch (message.op) {
+        case "eval":
+          value = await this.broadcastEval(message.script, message.context);
+          break;
+        case "lookup":
+          value = await this.lookup(message.type, message.id);
+          break;
+        case "stats":
+          value = await this.stats();
+          break;
+      }
+      worker.postMessage({
+        op: "reply",
+        nonce,
+        ok: true,
+        value,
+      } satisfies ClusterMessage);
+    } catch (error) {
+      worker.postMessage({
+        op: "reply",
+        nonce,
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      } satisfies ClusterMessage);
+    }
+  }
+
+  /**
+   * Handles a worker exiting, restarting it unless the manager was destroyed.
+   * @private
+   */
+  private onExit(id: number, worker: Worker, code: number) {
+    for (const [nonce, pending] of this.#pending) {
+      if (pending.workerId !== id) continue;
+      this.#pending.delete(nonce);
+      clearTimeout(pending.timer);
+      pending.reject(new Error(`Worker ${id} exited with code ${code}`));
+    }
+
+    this.emit("exit", id, code);
+
+    if (this.workers.get(id) !== worker) return;
+    this.workers.delete(id);
+
+    if (this.#destroyed || !this.options.respawn) return;
+
+    const timer = setTimeout(() => {
+      this.#respawns.delete(id);
+      if (!this.#destroyed) this.spawnWorker(id);
+    }, this.options.respawnDelay);
+    this.#respawns.set(id, timer);
+  }
+}
@@ -0,0 +1,4 @@
+export * from "./shard";
+export * from "./ipc";
+export * from "./clusterManager";
+export * from "./clusterClient";
@@ -0,0 +1,148 @@
+import type { ShardOptions } from "./shard";
+
+/**
+ * The caches that can be looked up across workers.
+ */
+export type ClusterLookupType = "users" | "servers";
+
+/**
+ * Represents the stats reported by a single worker.
+ */
+export interface WorkerStats {
+  /** The ID of the worker, which is also its shard ID. */
+  id: number;
+  /** The number of cached servers. */
+  servers: number;
+  /** The number of cached users. */
+  users: number;
+  /** The number of cached channels. */
+  channels: number;
+  /** The WebSocket ping in milliseconds. */
+  ping: number;
+  /** The uptime of the client in milliseconds, or `null` if it is not ready. */
+  uptime: number | null;
+  /** The heap memory used by the worker in bytes. */
+  memory: number;
+}
+
+/**
+ * Represents the stats of every worker, with totals.
+ */
+export interface ClusterStats {
+  /** The total number of cached servers. */
+  servers: number;
+  /** The total number of cached users. Users in several shards are counted once per shard. */
+  users: number;
+  /** The total number of cached channels. */
+  channels: number;
+  /** The average WebSocket ping across workers in milliseconds. */
+  averagePing: number;
+  /** The stats of each worker. */
+  workers: WorkerStats[];
+}
+
+/**
+ * The data passed to each worker through `workerData`.
+ */
+export interface ClusterWorkerData {
+  /** The shard the worker runs as. */
+  shard: ShardOptions;
+  /** The custom data given in `ClusterManagerOptions.workerData`. */
+  data?: unknown;
+}
+
+/**
+ * Represents the requests that can be sent in either direction.
+ * @private
+ */
+export type ClusterRequest =
+  | { op: "eval"; script: string; context?: unknown }
+  | { op: "lookup"; type: ClusterLookupType; id: string }
+  | { op: "stats" };
+
+/**
+ * Represents a message sent between the manager and a worker.
+ * @private
+ */
+export type ClusterMessage =
+  | { op: "connect" }
+  | { op: "ready" }
+  | (ClusterRequest & { nonce: number })
+  | {
+      op: "reply";
+      nonce: number;
+      ok: boolean;
+      value?: unknown;
+      error?: string;
+    };
+
+/**
+ * Converts a value into plain data that can be sent between workers.
+ * Drops functions, the `client` reference and circular references; turns maps and
+ * cache stores into plain objects. An object referenced from several places is converted each time.
+ *
+ * @param {unknown} value - The value to convert.
+ * @returns {unknown} The plain data.
+ */
+export function serialize(
+  value: unknown,
+  seen: WeakSet<object> = new WeakSet(),
+): unknown {
+  if (value === null || value === undefined) return value;
+
+  switch (typeof value) {
+    case "string":
+    case "number":
+    case "boolean":
+      return value;
+    case "bigint":
+      return value.toString();
+    case "function":
+    case "symbol":
+      return undefined;
+  }
+
+  const object = value as Record<string, unknown> & {
+    entries?: () => Iterable<[unknown, unknown]>;
+  };
+  if (object instanceof Date) return object.toISOString();
+
+  // Only the objects being converted above this one count as circular, so the same
+  // object referenced from two places is converted both times.
+  if (seen.has(object)) return undefined;
+  seen.add(object);
+  try {
+    return serializeObject(object, seen);
+  } finally {
+    seen.delete(object);
+  }
+}
+
+/**
+ * Converts an array, map or plain object whose ancestors are in `seen`.
+ * @private
+ */
+function serializeObject(
+  object: Record<string, unknown> & {
+    entries?: () => Iterable<[unknown, unknown]>;
+  },
+  seen: WeakSet<object>,
+): unknown {
+  if (Array.isArray(object)) return object.map((v) => serialize(v, seen));
+
+  if (object instanceof Map || typeof object.entries === "function") {
+    const result: Record<string, unknown> = {};
+    for (const [key, v] of object.entries!()) {
+      result[String(key)] = serialize(v, seen);
+    }
+    return result;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, v] of Object.entries(object)) {
+    if (key === "client") continue;
+    const plain = serialize(v, seen);
+    if (plain !== undefined) result[key] = plain;
+  }
+  return result;
+}
@@ -0,0 +1,36 @@
+/**
+ * Represents the options for running a client as one shard of a cluster.
+ *
+ * Every shard opens its own WebSocket connection and receives every event, but only
+ * caches and handles the servers assigned to it. DM and group channels belong to shard `0`.
+ */
+export interface ShardOptions {
+  /** The ID of this shard, from `0` to `count - 1`. */
+  id: number;
+  /** The total number of shards. */
+  count: number;
+  /** The WebSocket event types this shard handles, e.g. `["Message"]`. Handles all if not set. */
+  events?: string[];
+}
+
+/**
+ * Works out which shard a server belongs to.
+ * Uses an FNV-1a hash of the server ID so the result is stable across processes.
+ *
+ * @param {string} serverId - The ID of the server.
+ * @param {number} count - The total number of shards.
+ * @returns {number} The ID of the shard the server belongs to.
+ *
+ * @example
+ * ```typescript
+ * const shardId = shardIdForServer(server.id, 4);
+ * ```
+ */
+export function shardIdForServer(serverId: string, count: number): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < serverId.length; i++) {
+    hash ^= serverId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % count;
+}
@@ -0,0 +1,273 @@
+import { EventEmitter } from "node:events";
+import type { client } from "../client/client";
+import { Events } from "../utils/constants";
+
+/**
+ * Represents the options shared by every collector.
+ */
+export interface CollectorOptions<V> {
+  /** A function that decides whether an item should be collected. */
+  filter?: (item: V) => boolean | Promise<boolean>;
+  /** The maximum number of items to collect before stopping. */
+  max?: number;
+  /** How long to collect for in milliseconds before stopping. */
+  time?: number;
+  /** How long to wait without collecting anything before stopping, in milliseconds. */
+  idle?: number;
+}
+
+/**
+ * Represents the options for promise-based collection helpers such as `awaitMessages`.
+ */
+export interface AwaitCollectorOptions<V> extends CollectorOptions<V> {
+  /** End reasons that reject the promise instead of resolving it, e.g. `["time"]`. */
+  errors?: string[];
+}
+
+/**
+ * Events emitted by a collector.
+ */
+export interface CollectorEvents<K, V> {
+  /** Emitted when an item passes the filter and is collected. */
+  collect: [item: V];
+  /** Emitted when a collected item is removed, e.g. a reaction is taken back. */
+  dispose: [item: V];
+  /** Emitted once when the collector stops. */
+  end: [collected: Map<K, V>, reason: string];
+}
+
+export declare interface Collector<K, V> {
+  on<E extends keyof CollectorEvents<K, V>>(
+    event: E,
+    listener: (...args: CollectorEvents<K, V>[E]) => void,
+  ): this;
+
+  once<E extends keyof CollectorEvents<K, V>>(
+    event: E,
+    listener: (...args: CollectorEvents<K, V>[E]) => void,
+  ): this;
+
+  off<E extends keyof CollectorEvents<K, V>>(
+    event: E,
+    listener: (...args: CollectorEvents<K, V>[E]) => void,
+  ): this;
+
+  emit<E extends keyof CollectorEvents<K, V>>(
+    event: E,
+    ...args: CollectorEvents<K, V>[E]
+  ): boolean;
+}
+
+/**
+ * Represents the base class for collectors, which gather items from client events
+ * until a limit, a timeout or an explicit `stop()` ends them.
+ *
+ * Subclasses attach their own client listeners and remove them in `cleanup`, adding at most one
+ * listener per event. The client's max listeners is raised by one while each collector is running,
+ * so many collectors at once do not cause a `MaxListenersExceededWarning`.
+ * Every collector stops with the reason `"clientDestroy"` when the client is destroyed.
+ *
+ * @extends EventEmitter
+ */
+export abstract class Collector<K, V> extends EventEmitter {
+  /** The items collected so far, keyed by the collector's key for each item. */
+  readonly collected = new Map<K, V>();
+
+  /** Whether the collector has stopped. */
+  ended = false;
+
+  /** The reason the collector stopped, or `null` while it is running. */
+  endReason: string | null = null;
+
+  /** The timer for the `time` option. */
+  #timeout: NodeJS.Timeout | null = null;
+
+  /** The timer for the `idle` option. */
+  #idleTimeout: NodeJS.Timeout | null = null;
+
+  /**
+   * Creates a new Collector instance.
+   *
+   * @param {client} client - The client instance.
+   * @param {CollectorOptions<V>} [options={}] - The options for the collector.
+   */
+  constructor(
+    protected readonly client: client,
+    readonly options: CollectorOptions<V> = {},
+  ) {
+    super();
+
+    if (options.time) {
+      this.#timeout = setTimeout(() => this.stop("time"), options.time);
+    }
+    if (options.idle) {
+      this.#idleTimeout = setTimeout(() => this.stop("idle"), options.idle);
+    }
+
+    this.adjustMaxListeners(1);
+    this.client.once(Events.DESTROY, this.onClientDestroy);
+  }
+
+  /**
+   * Works out the key for an item, or `null` if the item does not belong to this collector.
+   *
+   * @param {V} item - The item received from the client.
+   * @returns {K | null} The key to store the item under, or `null` to ignore it.
+   * @protected
+   */
+  protected abstract collect(item: V): K | null;
+
+  /**
+   * Works out the key of a collected item that should be removed, or `null` to ignore it.
+   *
+   * @param {V} item - The item received from the client.
+   * @returns {K | null} The key of the item to remove, or `null`.
+   * @protected
+   */
+  protected dispose(item: V): K | null {
+    void item;
+    return null;
+  }
+
+  /**
+   * Removes the client listeners attached by the subclass.
+   * @protected
+   */
+  protected abstract cleanup(): void;
+
+  /**
+   * Runs an item through the filter and collects it if it passes.
+   *
+   * @param {V} item - The item received from the client.
+   * @returns {Promise<void>} A promise that resolves once the item has been handled.
+   * @protected
+   */
+  protected async handleCollect(item: V): Promise<void> {
+    if (this.ended) return;
+
+    const key = this.collect(item);
+    if (key === null) return;
+
+    try {
+      if (this.options.filter && !(await this.options.filter(item))) return;
+    } catch (error) {
+      this.client.emit(Events.ERROR, error);
+      return;
+    }
+
+    // The collector may have stopped while an async filter was running
+    if (this.ended) return;
+
+    this.collected.set(key, item);
+    this.emit("collect", item);
+
+    if (this.options.idle) this.resetTimer({ idle: this.options.idle });
+
+    if (this.options.max && this.collected.size >= this.options.max) {
+      this.stop("limit");
+    }
+  }
+
+  /**
+   * Removes a collected item if it belongs to this collector.
+   *
+   * @param {V} item - The item received from the client.
+   * @protected
+   */
+  protected handleDispose(item: V): void {
+    if (this.ended) return;
+
+    const key = this.dispose(item);
+    if (key === null) return;
+
+    const collected = this.collected.get(key);
+    if (collected && this.collected.delete(key)) {
+      this.emit("dispose", collected);
+    }
+  }
+
+  /**
+   * Changes the client's max listeners, unless it is unlimited.
+   *
+   * @param {number} by - How many listeners to allow more, or fewer if negative.
+   * @private
+   */
+  private adjustMaxListeners(by: number): void {
+    const max = this.client.getMaxListeners();
+    if (max > 0 && Number.isFinite(max)) {
+      this.client.setMaxListeners(Math.max(1, max + by));
+    }
+  }
+
+  /**
+   * Restarts the `time` and/or `idle` timers.
+   *
+   * @param {{ time?: number; idle?: number }} [timers] - The new durations in milliseconds.
+   */
+  resetTimer({ time, idle }: { time?: number; idle?: number } = {}): void {
+    if (this.ended) return;
+
+    if (time !== undefined && this.#timeout) {
+      clearTimeout(this.#timeout);
+      this.#timeout = setTimeout(() => this.stop("time"), time);
+    }
+    if (idle !== undefined && this.#idleTimeout) {
+      clearTimeout(this.#idleTimeout);
+      this.#idleTimeout = setTimeout(() => this.stop("idle"), idle);
+    }
+  }
+
+  /**
+   * Stops the collector and emits `end`.
+   *
+   * @param {string} [reason="user"] - The reason the collector stopped.
+   *
+   * @example
+   * ```typescript
+   * collector.stop("cancelled");
+   * ```
+   */
+  stop(reason: string = "user"): void {
+    if (this.ended) return;
+
+    this.ended = true;
+    this.endReason = reason;
+
+    if (this.#timeout) clearTimeout(this.#timeout);
+    if (this.#idleTimeout) clearTimeout(this.#idleTimeout);
+    this.#timeout = null;
+    this.#idleTimeout = null;
+
+    this.client.off(Events.DESTROY, this.onClientDestroy);
+    this.cleanup();
+    this.adjustMaxListeners(-1);
+
+    this.emit("end", this.collected, reason);
+  }
+
+  /**
+   * Waits for the collector to end.
+   *
+   * @param {string[]} [errors=[]] - End reasons that reject the promise instead of resolving it.
+   * @returns {Promise<Map<K, V>>} A promise that resolves with the collected items.
+   */
+  toPromise(errors: string[] = []): Promise<Map<K, V>> {
+    return new Promise((resolve, reject) => {
+      const settle = (collected: Map<K, V>, reason: string) => {
+        if (errors.includes(reason)) reject(collected);
+        else resolve(collected);
+      };
+
+      if (this.ended) settle(this.collected, this.endReason ?? "user");
+      else this.once("end", settle);
+    });
+  }
+
+  /**
+   * Stops the collector when the client is destroyed.
+   * @private
+   */
+  private onClientDestroy = (): void => {
+    this.stop("clientDestroy");
+  };
+}
@@ -0,0 +1,5 @@
+export * from "./collector";
+export * from "./messageCollector";
+export * from "./reactionCollector";
+export * from "./reactionMenu";
+export * from "./reactionPaginator";
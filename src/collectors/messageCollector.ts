@@ -0,0 +1,88 @@
+import type { Channel, MessageStruct, Server } from "../struct/index";
+import type { TextBasedChannel } from "../struct/interfaces/baseChannel";
+import { Events } from "../utils/constants";
+import { Collector, CollectorOptions } from "./collector";
+
+/**
+ * Represents the options for a message collector.
+ */
+export type MessageCollectorOptions = CollectorOptions<MessageStruct>;
+
+/**
+ * Collects messages sent in a channel.
+ *
+ * Stops with the reason `"channelDelete"` if the channel is deleted, or `"serverDelete"`
+ * if the server it belongs to is deleted.
+ *
+ * @extends Collector
+ *
+ * @example
+ * ```typescript
+ * const collector = new MessageCollector(channel, {
+ *   filter: (m) => m.authorId === message.authorId,
+ *   time: 30_000,
+ * });
+ *
+ * collector.on("collect", (m) => console.log(`Got ${m.content}`));
+ * collector.on("end", (collected, reason) => console.log(`Ended: ${reason}`));
+ * ```
+ */
+export class MessageCollector extends Collector<string, MessageStruct> {
+  /** The ID of the server the channel belongs to, if any. */
+  readonly serverId: string | null;
+
+  /**
+   * Creates a new MessageCollector instance.
+   *
+   * @param {Channel & TextBasedChannel} channel - The channel to collect messages from.
+   * @param {MessageCollectorOptions} [options={}] - The options for the collector.
+   */
+  constructor(
+    readonly channel: Channel & TextBasedChannel,
+    options: MessageCollectorOptions = {},
+  ) {
+    super(channel.client, options);
+
+    this.serverId = channel.inServer() ? channel.serverId : null;
+
+    this.client.on(Events.MESSAGE, this.onMessage);
+    this.client.on(Events.CHANNEL_DELETE, this.onChannelDelete);
+    this.client.on(Events.SERVER_DELETE, this.onServerDelete);
+  }
+
+  /**
+   * Collects messages sent in the channel.
+   *
+   * @param {MessageStruct} message - The received message.
+   * @returns {string | null} The message ID, or `null` if it was sent elsewhere.
+   * @protected
+   */
+  protected collect(message: MessageStruct): string | null {
+    return message.channelId === this.channel.id ? message.id : null;
+  }
+
+  /**
+   * Removes the client listeners attached by the collector.
+   * @protected
+   */
+  protected cleanup(): void {
+    this.client.off(Events.MESSAGE, this.onMessage);
+    this.client.off(Events.CHANNEL_DELETE, this.onChannelDelete);
+    this.client.off(Events.SERVER_DELETE, this.onServerDelete);
+  }
+
+  /** @private */
+  private onMessage = (message: MessageStruct): void => {
+    void this.handleCollect(message);
+  };
+
+  /** @private */
+  private onChannelDelete = (channel: Channel): void => {
+    if (channel.id === this.channel.id) this.stop("channelDelete");
+  };
+
+  /** @private */
+  private onServerDelete = (server: Server): void => {
+    if (server.id === this.serverId) this.stop("serverDelete");
+  };
+}
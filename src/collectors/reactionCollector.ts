@@ -0,0 +1,156 @@
+import type { Channel, MessageStruct, Server } from "../struct/index";
+import { Events } from "../utils/constants";
+import { Collector, CollectorOptions } from "./collector";
+
+/**
+ * Represents a single user's reaction to a message.
+ */
+export interface CollectedReaction {
+  /** The message that was reacted to. */
+  message: MessageStruct;
+  /** The ID or unicode character of the emoji. */
+  emojiId: string;
+  /** The ID of the user who reacted. */
+  userId: string;
+}
+
+/**
+ * Represents the options for a reaction collector.
+ */
+export type ReactionCollectorOptions = CollectorOptions<CollectedReaction>;
+
+/**
+ * Collects reactions added to a message.
+ * A reaction that is removed again is disposed of and no longer counts towards `max`.
+ *
+ * Stops with the reason `"messageDelete"`, `"channelDelete"` or `"serverDelete"` if the
+ * message, its channel or its server is deleted.
+ *
+ * @extends Collector
+ *
+ * @example
+ * ```typescript
+ * const collector = new ReactionCollector(message, {
+ *   filter: (r) => r.userId === author.id,
+ *   max: 1,
+ *   time: 15_000,
+ * });
+ *
+ * collector.on("collect", (r) => console.log(`${r.userId} reacted with ${r.emojiId}`));
+ * ```
+ */
+export class ReactionCollector extends Collector<string, CollectedReaction> {
+  /** The ID of the channel the message was sent in. */
+  readonly channelId: string;
+
+  /** The ID of the server the message was sent in, if any. */
+  readonly serverId: string | null;
+
+  /**
+   * Creates a new ReactionCollector instance.
+   *
+   * @param {MessageStruct} message - The message to collect reactions on.
+   * @param {ReactionCollectorOptions} [options={}] - The options for the collector.
+   */
+  constructor(
+    readonly message: MessageStruct,
+    options: ReactionCollectorOptions = {},
+  ) {
+    super(message.client, options);
+
+    this.channelId = message.channelId;
+    this.serverId = message.serverId;
+
+    this.client.on(Events.MESSAGE_REACT, this.onReact);
+    this.client.on(Events.MESSAGE_REACT_REMOVE, this.onUnreact);
+    this.client.on(Events.MESSAGE_DELETE, this.onMessageDelete);
+    this.client.on(Events.MESSAGE_DELETE_BULK, this.onMessageDeleteBulk);
+    this.client.on(Events.CHANNEL_DELETE, this.onChannelDelete);
+    this.client.on(Events.SERVER_DELETE, this.onServerDelete);
+  }
+
+  /**
+   * Works out the key for a reaction on the message.
+   *
+   * @param {CollectedReaction} reaction - The received reaction.
+   * @returns {string | null} The key of the reaction, or `null` if it was on another message.
+   * @protected
+   */
+  protected collect(reaction: CollectedReaction): string | null {
+    return reaction.message.id === this.message.id
+      ? ReactionCollector.key(reaction)
+      : null;
+  }
+
+  /**
+   * Works out the key for a removed reaction on the message.
+   *
+   * @param {CollectedReaction} reaction - The removed reaction.
+   * @returns {string | null} The key of the reaction, or `null` if it was on another message.
+   * @protected
+   */
+  protected dispose(reaction: CollectedReaction): string | null {
+    return this.collect(reaction);
+  }
+
+  /**
+   * Removes the client listeners attached by the collector.
+   * @protected
+   */
+  protected cleanup(): void {
+    this.client.off(Events.MESSAGE_REACT, this.onReact);
+    this.client.off(Events.MESSAGE_REACT_REMOVE, this.onUnreact);
+    this.client.off(Events.MESSAGE_DELETE, this.onMessageDelete);
+    this.client.off(Events.MESSAGE_DELETE_BULK, this.onMessageDeleteBulk);
+    this.client.off(Events.CHANNEL_DELETE, this.onChannelDelete);
+    this.client.off(Events.SERVER_DELETE, this.onServerDelete);
+  }
+
+  /**
+   * Gets the key a reaction is stored under.
+   *
+   * @param {CollectedReaction} reaction - The reaction.
+   * @returns {string} The key, unique per emoji and user.
+   */
+  static key(reaction: Omit<CollectedReaction, "message">): string {
+    return `${reaction.emojiId}:${reaction.userId}`;
+  }
+
+  /** @private */
+  private onReact = (
+    message: MessageStruct,
+    userId: string,
+    emojiId: string,
+  ): void => {
+    void this.handleCollect({ message, userId, emojiId });
+  };
+
+  /** @private */
+  private onUnreact = (
+    message: MessageStruct,
+    userId: string,
+    emojiId: string,
+  ): void => {
+    this.handleDispose({ message, userId, emojiId });
+  };
+
+  /** @private */
+  private onMessageDelete = (message: MessageStruct): void => {
+    if (message.id === this.message.id) this.stop("messageDelete");
+  };
+
+  /** @private */
+  private onMessageDeleteBulk = (ids: string[]): void => {
+    if (ids.includes(this.message.id)) this.stop("messageDelete");
+  };
+
+  /** @private */
+  private onChannelDelete = (channel: Channel): void => {
+    if (channel.id === this.channelId) this.stop("channelDelete");
+  };
+
+  /** @private */
+  private onServerDelete = (server: Server): void => {
+    if (server.id === this.serverId) this.stop("serverDelete");
+  };
+}
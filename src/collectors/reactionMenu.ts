@@ -0,0 +1,312 @@
+import { EventEmitter } from "node:events";
+import type { Channel, MessageStruct } from "../struct/index";
+import { MessageEmbed } from "../struct/messageEmbed";
+import type { TextBasedChannel } from "../struct/interfaces/baseChannel";
+import { Events } from "../utils/constants";
+import { CollectedReaction, ReactionCollector } from "./reactionCollector";
+
+/**
+ * Represents a single option of a reaction menu.
+ */
+export interface ReactionMenuChoice<T = string> {
+  /** The emoji users react with to pick the option. */
+  emoji: string;
+  /** The label shown next to the emoji. */
+  label: string;
+  /** An optional value attached to the option, e.g. a role ID. */
+  value?: T;
+}
+
+/**
+ * Represents the options for a reaction menu.
+ */
+export interface ReactionMenuOptions<T = string> {
+  /** The prompt to show. The options are listed in the message content. */
+  prompt: string | MessageEmbed;
+  /** The options users can pick from. */
+  choices: ReactionMenuChoice<T>[];
+  /** The IDs of the users allowed to pick. Anyone but the bot may if empty. */
+  users?: string[];
+  /** The number of users that must pick before the menu stops. */
+  max?: number;
+  /** How long to run for in milliseconds before stopping. */
+  time?: number;
+  /** How long to wait without any picks before stopping, in milliseconds. */
+  idle?: number;
+  /** Whether to remove all reactions when the menu stops. Defaults to `false`. */
+  removeReactionsOnEnd?: boolean;
+}
+
+/**
+ * Events emitted by a reaction menu.
+ */
+export interface ReactionMenuEvents<T> {
+  /** Emitted when a user picks an option, replacing any earlier pick. */
+  select: [choice: ReactionMenuChoice<T>, userId: string];
+  /** Emitted when a user takes back their pick by removing the reaction. */
+  deselect: [choice: ReactionMenuChoice<T>, userId: string];
+  /** Emitted once when the menu stops, with each user's final pick. */
+  end: [selections: Map<string, ReactionMenuChoice<T>>, reason: string];
+}
+
+export declare interface ReactionMenu<T = string> {
+  on<E extends keyof ReactionMenuEvents<T>>(
+    event: E,
+    listener: (...args: ReactionMenuEvents<T>[E]) => void,
+  ): this;
+
+  once<E extends keyof ReactionMenuEvents<T>>(
+    event: E,
+    listener: (...args: ReactionMenuEvents<T>[E]) => void,
+  ): this;
+
+  off<E extends keyof ReactionMenuEvents<T>>(
+    event: E,
+    listener: (...args: ReactionMenuEvents<T>[E]) => void,
+  ): this;
+
+  emit<E extends keyof ReactionMenuEvents<T>>(
+    event: E,
+    ...args: ReactionMenuEvents<T>[E]
+  ): boolean;
+}
+
+/**
+ * Sends a prompt with one reaction per option and lets users pick one of them.
+ * Each user holds at most one pick; reacting with another option replaces it, which makes
+ * the menu suitable for role pickers (`select`/`deselect`) and polls (`tally`).
+ *
+ * @extends EventEmitter
+ *
+ * @example
+ * ```typescript
+ * const menu = new ReactionMenu(message.channel, {
+ *   prompt: "Pick your team",
+ *   choices: [
+ *     { emoji: "🔴", label: "Red", value: redRoleId },
+ *     { emoji: "🔵", label: "Blue", value: blueRoleId },
+ *   ],
+ * });
+ *
+ * menu.on("select", (choice, userId) => member(userId).roles.add(choice.value));
+ * await menu.start();
+ * ```
+ */
+export class ReactionMenu<T = string> extends EventEmitter {
+  /** Each user's current pick, keyed by user ID. */
+  readonly selections = new Map<string, ReactionMenuChoice<T>>();
+
+  /** The message the menu is shown in, once sent. */
+  message: MessageStruct | null = null;
+
+  /** The collector listening for picks, once started. */
+  collector: ReactionCollector | null = null;
+
+  /**
+   * Creates a new ReactionMenu instance.
+   *
+   * @param {Channel & TextBasedChannel} channel - The channel to send the menu to.
+   * @param {ReactionMenuOptions<T>} options - The options for the menu.
+   * @throws {RangeError} Throws an error if there are no choices or an emoji is used twice.
+   */
+  constructor(
+    readonly channel: Channel & TextBasedChannel,
+    readonly options: ReactionMenuOptions<T>,
+  ) {
+    super();
+
+    const emojis = new Set(options.choices.map((choice) => choice.emoji));
+    if (!options.choices.length || emojis.size !== options.choices.length) {
+      throw new RangeError(
+        "A menu needs at least one choice with unique emojis",
+      );
+    }
+  }
+
+  /**
+   * Gets whether the menu has stopped.
+   *
+   * @returns {boolean} `true` once the menu has stopped.
+   */
+  get ended(): boolean {
+    return this.collector?.ended ?? false;
+  }
+
+  /**
+   * Sends the prompt, adds a reaction per option and starts listening for picks.
+   *
+   * @returns {Promise<MessageStruct>} A promise that resolves with the sent message.
+   */
+  async start(): Promise<MessageStruct> {
+    if (this.message) return this.message;
+
+    const message = await this.channel.messages.send(this.render());
+    this.message = message;
+
+    for (const { emoji } of this.options.choices) {
+      await this.channel.messages.addReaction(message, emoji);
+    }
+
+    const botId = message.client.user?.id;
+    const users = this.options.users ?? [];
+    this.collector = new ReactionCollector(message, {
+      filter: ({ userId, emojiId }) =>
+        userId !== botId &&
+        !!this.choice(emojiId) &&
+        (!users.length || users.includes(userId)),
+      time: this.options.time,
+      idle: this.options.idle,
+    });
+
+    this.collector.on("collect", (reaction) => void this.onCollect(reaction));
+    this.collector.on("dispose", (reaction) => this.onDispose(reaction));
+    this.collector.once("end", (_, reason) => void this.onEnd(reason));
+
+    return message;
+  }
+
+  /**
+   * Waits for the first pick.
+   *
+   * @returns {Promise<{ choice: ReactionMenuChoice<T>; userId: string } | null>} The pick, or `null` if the menu stopped first.
+   *
+   * @example
+   * ```typescript
+   * await menu.start();
+   * const pick = await menu.awaitSelection();
+   * if (pick) await message.reply(`you picked ${pick.choice.label}`);
+   * ```
+   */
+  awaitSelection(): Promise<{
+    choice: ReactionMenuChoice<T>;
+    userId: string;
+  } | null> {
+    return new Promise((resolve) => {
+      if (this.ended) return resolve(null);
+
+      const onSelect = (choice: ReactionMenuChoice<T>, userId: string) => {
+        this.off("end", onEnd);
+        resolve({ choice, userId });
+      };
+      const onEnd = () => {
+        this.off("select", onSelect);
+        resolve(null);
+      };
+
+      this.once("select", onSelect);
+      this.once("end", onEnd);
+    });
+  }
+
+  /**
+   * Counts the current picks for each option.
+   *
+   * @returns {Map<ReactionMenuChoice<T>, number>} The number of users that picked each option.
+   */
+  tally(): Map<ReactionMenuChoice<T>, number> {
+    const tally = new Map<ReactionMenuChoice<T>, number>(
+      this.options.choices.map((choice) => [choice, 0]),
+    );
+    for (const choice of this.selections.values()) {
+      tally.set(choice, (tally.get(choice) ?? 0) + 1);
+    }
+    return tally;
+  }
+
+  /**
+   * Stops the menu.
+   *
+   * @param {string} [reason="user"] - The reason the menu stopped.
+   */
+  stop(reason: string = "user"): void {
+    this.collector?.stop(reason);
+  }
+
+  /**
+   * Builds the prompt, listing the options under it.
+   *
+   * @returns {{ content?: string; embeds?: MessageEmbed[] }} The content and embeds for the prompt.
+   * @protected
+   */
+  protected render(): { content?: string; embeds?: MessageEmbed[] } {
+    const list = this.options.choices
+      .map((choice) => `${choice.emoji} ${choice.label}`)
+      .join("\n");
+    const { prompt } = this.options;
+
+    if (prompt instanceof MessageEmbed) {
+      return { content: list, embeds: [prompt] };
+    }
+    return { content: `${prompt}\n\n${list}` };
+  }
+
+  /**
+   * Finds the option for an emoji.
+   * @private
+   */
+  private choice(emoji: string): ReactionMenuChoice<T> | undefined {
+    return this.options.choices.find((choice) => choice.emoji === emoji);
+  }
+
+  /**
+   * Records a pick, removing the user's earlier reaction if they had one.
+   * @private
+   */
+  private async onCollect({ emojiId, userId }: CollectedReaction) {
+    const choice = this.choice(emojiId);
+    if (!choice) return;
+
+    const previous = this.selections.get(userId);
+    this.selections.set(userId, choice);
+    this.emit("select", choice, userId);
+
+    if (this.options.max && this.selections.size >= this.options.max) {
+      this.stop("limit");
+    }
+
+    if (previous && previous !== choice && this.message) {
+      try {
+        await this.channel.messages.removeReaction(
+          this.message,
+          previous.emoji,
+          userId,
+        );
+      } catch (error) {
+        this.channel.client.emit(Events.ERROR, error);
+      }
+    }
+  }
+
+  /**
+   * Clears a pick when the user removes their reaction.
+   * @private
+   */
+  private onDispose({ emojiId, userId }: CollectedReaction) {
+    const choice = this.selections.get(userId);
+    if (!choice || choice.emoji !== emojiId) return;
+
+    this.selections.delete(userId);
+    this.emit("deselect", choice, userId);
+  }
+
+  /**
+   * Cleans up the reactions when the collector stops.
+   * @private
+   */
+  private async onEnd(reason: string) {
+    if (
+      this.message &&
+      this.options.removeReactionsOnEnd &&
+      !reason.endsWith("Delete") &&
+      reason !== "clientDestroy"
+    ) {
+      try {
+        await this.channel.messages.removeAllReactions(this.message);
+      } catch (error) {
+        this.channel.client.emit(Events.ERROR, error);
+      }
+    }
+
+    this.emit("end", this.selections, reason);
+  }
+}
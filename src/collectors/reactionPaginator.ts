@@ -0,0 +1,324 @@
+import { EventEmitter } from "node:events";
+import type { MessageEditOptions } from "../managers/index";
+import type { Channel, MessageStruct } from "../struct/index";
+import { MessageEmbed } from "../struct/messageEmbed";
+import type { TextBasedChannel } from "../struct/interfaces/baseChannel";
+import { Events } from "../utils/constants";
+import { CollectedReaction, ReactionCollector } from "./reactionCollector";
+
+/**
+ * Represents a single page of a paginator.
+ */
+export type PaginatorPage = string | MessageEmbed;
+
+/**
+ * The emojis used to control a paginator. Set a control to `null` to leave it out.
+ */
+export interface PaginatorControls {
+  /** Jumps to the first page. */
+  first: string | null;
+  /** Moves back one page. */
+  previous: string | null;
+  /** Stops the paginator. */
+  stop: string | null;
+  /** Moves forward one page. */
+  next: string | null;
+  /** Jumps to the last page. */
+  last: string | null;
+}
+
+/**
+ * Represents the options for a reaction paginator.
+ */
+export interface ReactionPaginatorOptions {
+  /** The pages to show. */
+  pages: PaginatorPage[];
+  /** The emojis used as controls, merged with the defaults. */
+  controls?: Partial<PaginatorControls>;
+  /** The IDs of the users allowed to use the controls. Anyone but the bot may if empty. */
+  users?: string[];
+  /** The page to start on. Defaults to `0`. */
+  startPage?: number;
+  /** Whether to show `Page x/y` under each page. Defaults to `true`. */
+  pageIndicator?: boolean;
+  /** How long to run for in milliseconds before stopping. */
+  time?: number;
+  /** How long to wait without any input before stopping, in milliseconds. Defaults to `60000`. */
+  idle?: number;
+  /** Whether to remove all reactions when the paginator stops. Defaults to `true`. */
+  removeReactionsOnEnd?: boolean;
+}
+
+/**
+ * Events emitted by a reaction paginator.
+ */
+export interface ReactionPaginatorEvents {
+  /** Emitted when the page changes, with the new and previous page index. */
+  pageChange: [index: number, previous: number];
+  /** Emitted once when the paginator stops. */
+  end: [reason: string];
+}
+
+export declare interface ReactionPaginator {
+  on<E extends keyof ReactionPaginatorEvents>(
+    event: E,
+    listener: (...args: ReactionPaginatorEvents[E]) => void,
+  ): this;
+
+  once<E extends keyof ReactionPaginatorEvents>(
+    event: E,
+    listener: (...args: ReactionPaginatorEvents[E]) => void,
+  ): this;
+
+  off<E extends keyof ReactionPaginatorEvents>(
+    event: E,
+    listener: (...args: ReactionPaginatorEvents[E]) => void,
+  ): this;
+
+  emit<E extends keyof ReactionPaginatorEvents>(
+    event: E,
+    ...args: ReactionPaginatorEvents[E]
+  ): boolean;
+}
+
+/** The default paginator controls. */
+export const DEFAULT_PAGINATOR_CONTROLS: PaginatorControls = {
+  first: "⏮️",
+  previous: "◀️",
+  stop: "⏹️",
+  next: "▶️",
+  last: "⏭️",
+};
+
+/**
+ * Sends a list of pages as a single message and lets users move between them with reactions.
+ * The user's reaction is removed after each move so the same control can be used again.
+ *
+ * @extends EventEmitter
+ *
+ * @example
+ * ```typescript
+ * const paginator = new ReactionPaginator(message.channel, {
+ *   pages: ["page one", "page two", new MessageEmbed().setTitle("page three")],
+ *   users: [message.authorId],
+ * });
+ *
+ * await paginator.start();
+ * ```
+ */
+export class ReactionPaginator extends EventEmitter {
+  /** The options for the paginator. */
+  readonly options: Required<Omit<ReactionPaginatorOptions, "time">> &
+    Pick<ReactionPaginatorOptions, "time">;
+
+  /** The resolved controls for the paginator. */
+  readonly controls: PaginatorControls;
+
+  /** The index of the page currently shown. */
+  index: number;
+
+  /** The message the pages are shown in, once sent. */
+  message: MessageStruct | null = null;
+
+  /** The collector listening for control reactions, once started. */
+  collector: ReactionCollector | null = null;
+
+  /**
+   * Creates a new ReactionPaginator instance.
+   *
+   * @param {Channel & TextBasedChannel} channel - The channel to send the pages to.
+   * @param {ReactionPaginatorOptions} options - The options for the paginator.
+   * @throws {RangeError} Throws an error if there are no pages.
+   */
+  constructor(
+    readonly channel: Channel & TextBasedChannel,
+    options: ReactionPaginatorOptions,
+  ) {
+    super();
+
+    if (!options.pages.length) {
+      throw new RangeError("A paginator needs at least one page");
+    }
+
+    this.options = {
+      users: [],
+      startPage: 0,
+      pageIndicator: true,
+      idle: 60_000,
+      removeReactionsOnEnd: true,
+      ...options,
+      controls: options.controls ?? {},
+    };
+    this.controls = { ...DEFAULT_PAGINATOR_CONTROLS, ...options.controls };
+    this.index = this.clamp(this.options.startPage);
+  }
+
+  /**
+   * Gets the pages of the paginator.
+   *
+   * @returns {PaginatorPage[]} The pages.
+   */
+  get pages(): PaginatorPage[] {
+    return this.options.pages;
+  }
+
+  /**
+   * Gets whether the paginator has stopped.
+   *
+   * @returns {boolean} `true` once the paginator has stopped.
+   */
+  get ended(): boolean {
+    return this.collector?.ended ?? false;
+  }
+
+  /**
+   * Sends the current page, adds the controls and starts listening for reactions.
+   * Controls are only added when there is more than one page.
+   *
+   * @returns {Promise<MessageStruct>} A promise that resolves with the sent message.
+   */
+  async start(): Promise<MessageStruct> {
+    if (this.message) return this.message;
+
+    const message = await this.channel.messages.send(this.render());
+    this.message = message;
+
+    const emojis = this.pages.length > 1 ? this.controlEmojis() : [];
+    for (const emoji of emojis) {
+      await this.channel.messages.addReaction(message, emoji);
+    }
+
+    const botId = message.client.user?.id;
+    this.collector = new ReactionCollector(message, {
+      filter: ({ userId, emojiId }) =>
+        userId !== botId &&
+        emojis.includes(emojiId) &&
+        (!this.options.users.length || this.options.users.includes(userId)),
+      time: this.options.time,
+      idle: this.options.idle,
+    });
+
+    this.collector.on("collect", (reaction) => void this.onCollect(reaction));
+    this.collector.once("end", (_, reason) => void this.onEnd(reason));
+
+    return message;
+  }
+
+  /**
+   * Shows a page.
+   *
+   * @param {number} index - The index of the page to show. Clamped to the available pages.
+   * @returns {Promise<void>} A promise that resolves when the message is edited.
+   */
+  async setPage(index: number): Promise<void> {
+    const previous = this.index;
+    this.index = this.clamp(index);
+    if (!this.message || this.index === previous) return;
+
+    await this.channel.messages.edit(this.message, this.render());
+    this.emit("pageChange", this.index, previous);
+  }
+
+  /**
+   * Stops the paginator.
+   *
+   * @param {string} [reason="user"] - The reason the paginator stopped.
+   */
+  stop(reason: string = "user"): void {
+    this.collector?.stop(reason);
+  }
+
+  /**
+   * Builds the message content for the current page.
+   *
+   * @returns {MessageEditOptions} The content and embeds for the page.
+   * @protected
+   */
+  protected render(): MessageEditOptions {
+    const page = this.pages[this.index];
+    const indicator =
+      this.options.pageIndicator && this.pages.length > 1
+        ? `Page ${this.index + 1}/${this.pages.length}`
+        : "";
+
+    if (page instanceof MessageEmbed) {
+      return { content: indicator || undefined, embeds: [page] };
+    }
+
+    return {
+      content: indicator ? `${page}\n\n${indicator}` : page,
+      embeds: [],
+    };
+  }
+
+  /**
+   * Gets the configured control emojis in display order.
+   * @private
+   */
+  private controlEmojis(): string[] {
+    const { first, previous, stop, next, last } = this.controls;
+    return [first, previous, stop, next, last].filter(
+      (emoji): emoji is string => !!emoji,
+    );
+  }
+
+  /**
+   * Clamps a page index to the available pages.
+   * @private
+   */
+  private clamp(index: number): number {
+    return Math.max(0, Math.min(this.pages.length - 1, index));
+  }
+
+  /**
+   * Handles a control reaction.
+   * @private
+   */
+  private async onCollect({ emojiId, userId }: CollectedReaction) {
+    try {
+      if (this.message) {
+        await this.channel.messages.removeReaction(
+          this.message,
+          emojiId,
+          userId,
+        );
+      }
+
+      switch (emojiId) {
+        case this.controls.first:
+          return await this.setPage(0);
+        case this.controls.previous:
+          return await this.setPage(this.index - 1);
+        case this.controls.next:
+          return await this.setPage(this.index + 1);
+        case this.controls.last:
+          return await this.setPage(this.pages.length - 1);
+        case this.controls.stop:
+          return this.stop("stopped");
+      }
+    } catch (error) {
+      this.channel.client.emit(Events.ERROR, error);
+    }
+  }
+
+  /**
+   * Cleans up the controls when the collector stops.
+   * @private
+   */
+  private async onEnd(reason: string) {
+    if (
+      this.message &&
+      this.options.removeReactionsOnEnd &&
+      !reason.endsWith("Delete") &&
+      reason !== "clientDestroy"
+    ) {
+      try {
+        await this.channel.messages.removeAllReactions(this.message);
+      } catch (error) {
+        this.channel.client.emit(Events.ERROR, error);
+      }
+    }
+
+    this.emit("end", reason);
+  }
+}
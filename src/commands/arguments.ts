@@ -0,0 +1,382 @@
+import type { Emoji as APIEmoji } from "revolt-api";
+import type { MessageStruct } from "../struct/index";
+import {
+  Channel,
+  Emoji,
+  Role,
+  Server,
+  ServerMember,
+  User,
+} from "../struct/index";
+import type { CommandArgument } from "./command";
+
+/**
+ * The built-in argument types.
+ */
+export type ArgumentType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "user"
+  | "member"
+  | "channel"
+  | "role"
+  | "emoji"
+  | "duration"
+  | "choice";
+
+/**
+ * The codes carried by an `ArgumentParseError`.
+ */
+export type ArgumentErrorCode =
+  | "INVALID_NUMBER"
+  | "INVALID_INTEGER"
+  | "OUT_OF_RANGE"
+  | "INVALID_BOOLEAN"
+  | "INVALID_DURATION"
+  | "INVALID_CHOICE"
+  | "NOT_IN_SERVER"
+  | "NOT_FOUND"
+  | "UNKNOWN_TYPE";
+
+/**
+ * Resolves a raw argument token into a value.
+ * Throw an `ArgumentParseError` to reject the input.
+ */
+export type ArgumentResolver = (
+  input: string,
+  argument: CommandArgument,
+  message: MessageStruct,
+) => unknown | Promise<unknown>;
+
+/**
+ * Represents a failure to parse a command argument.
+ * The message is suitable for showing to the user who invoked the command.
+ *
+ * @extends Error
+ */
+export class ArgumentParseError extends Error {
+  /**
+   * Creates a new ArgumentParseError instance.
+   *
+   * @param {string} argument - The name of the argument that failed to parse.
+   * @param {string} input - The raw input that was given.
+   * @param {ArgumentErrorCode} code - A machine readable error code.
+   * @param {string} message - A human readable description of the failure.
+   */
+  constructor(
+    readonly argument: string,
+    readonly input: string,
+    readonly code: ArgumentErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "ArgumentParseError";
+  }
+}
+
+const ID_PATTERN = /^[0-9A-HJKMNP-TV-Z]{26}$/;
+const USER_MENTION = /^<@([0-9A-HJKMNP-TV-Z]{26})>$/;
+const ROLE_MENTION = /^<@&([0-9A-HJKMNP-TV-Z]{26})>$/;
+const CHANNEL_MENTION = /^<#([0-9A-HJKMNP-TV-Z]{26})>$/;
+const CUSTOM_EMOJI = /^:([0-9A-HJKMNP-TV-Z]{26}):$/;
+/** A single unicode emoji, e.g. `👍`, `👍🏽`, `👨‍👩‍👧`, `🇬🇧` or `1️⃣`. */
+const UNICODE_EMOJI =
+  /^(?:\p{Regional_Indicator}{2}|[#*0-9]\uFE0F?\u20E3|\p{Extended_Pictographic}\uFE0F?\p{Emoji_Modifier}?(?:\u200D\p{Extended_Pictographic}\uFE0F?\p{Emoji_Modifier}?)*)$/u;
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const TRUE_VALUES = ["true", "yes", "y", "on", "1", "enable"];
+const FALSE_VALUES = ["false", "no", "n", "off", "0", "disable"];
+
+/**
+ * Extracts an ID from a raw ID or a mention.
+ * @private
+ */
+function extractId(input: string, mention: RegExp): string | null {
+  const match = input.match(mention);
+  if (match) return match[1];
+  return ID_PATTERN.test(input) ? input : null;
+}
+
+/**
+ * Runs a fetch and turns any failure into `null`.
+ * @private
+ */
+async function tryFetch<T>(fetcher: () => Promise<T>): Promise<T | null> {
+  try {
+    return await fetcher();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Gets the server a message was sent in, or throws if it was not sent in a server.
+ * @private
+ */
+function requireServer(
+  input: string,
+  argument: CommandArgument,
+  message: MessageStruct,
+): Server {
+  const server = message.server;
+  if (!server) {
+    throw new ArgumentParseError(
+      argument.name,
+      input,
+      "NOT_IN_SERVER",
+      `\`${argument.name}\` can only be used in a server.`,
+    );
+  }
+  return server;
+}
+
+/**
+ * Builds a `NOT_FOUND` error for an argument.
+ * @private
+ */
+function notFound(
+  argument: CommandArgument,
+  input: string,
+  kind: string,
+): ArgumentParseError {
+  return new ArgumentParseError(
+    argument.name,
+    input,
+    "NOT_FOUND",
+    `Could not find a ${kind} matching \`${input}\`.`,
+  );
+}
+
+/**
+ * Parses a duration such as `1h30m`, `10s` or `2d` into milliseconds.
+ *
+ * @param {string} input - The duration to parse.
+ * @returns {number | null} The duration in milliseconds, or `null` if it is invalid.
+ *
+ * @example
+ * ```typescript
+ * parseDuration("1h30m"); // 5400000
+ * ```
+ */
+export function parseDuration(input: string): number | null {
+  const pattern = /(\d+(?:\.\d+)?)\s*(ms|s|m|h|d|w)/gi;
+  let total = 0;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(input))) {
+    total += parseFloat(match[1]) * DURATION_UNITS[match[2].toLowerCase()];
+    consumed += match[0].length;
+  }
+
+  if (!consumed || consumed !== input.replace(/\s+/g, "").length) return null;
+  return Math.round(total);
+}
+
+/**
+ * Checks a number against the `min` and `max` of an argument.
+ * @private
+ */
+function checkRange(
+  value: number,
+  input: string,
+  argument: CommandArgument,
+): number {
+  if (
+    (argument.min !== undefined && value < argument.min) ||
+    (argument.max !== undefined && value > argument.max)
+  ) {
+    throw new ArgumentParseError(
+      argument.name,
+      input,
+      "OUT_OF_RANGE",
+      `\`${argument.name}\` must be between ${argument.min ?? "-∞"} and ${argument.max ?? "∞"}.`,
+    );
+  }
+  return value;
+}
+
+/**
+ * The built-in argument resolvers, keyed by argument type.
+ */
+export const defaultResolvers: Record<ArgumentType, ArgumentResolver> = {
+  string: (input) => input,
+
+  number: (input, argument) => {
+    const value = Number(input);
+    if (input.trim() === "" || Number.isNaN(value)) {
+      throw new ArgumentParseError(
+        argument.name,
+        input,
+        "INVALID_NUMBER",
+        `\`${argument.name}\` must be a number.`,
+      );
+    }
+    return checkRange(value, input, argument);
+  },
+
+  integer: (input, argument) => {
+    const value = Number(input);
+    if (!/^-?\d+$/.test(input) || !Number.isSafeInteger(value)) {
+      throw new ArgumentParseError(
+        argument.name,
+        input,
+        "INVALID_INTEGER",
+        `\`${argument.name}\` must be a whole number.`,
+      );
+    }
+    return checkRange(value, input, argument);
+  },
+
+  boolean: (input, argument) => {
+    const value = input.toLowerCase();
+    if (TRUE_VALUES.includes(value)) return true;
+    if (FALSE_VALUES.includes(value)) return false;
+    throw new ArgumentParseError(
+      argument.name,
+      input,
+      "INVALID_BOOLEAN",
+      `\`${argument.name}\` must be yes or no.`,
+    );
+  },
+
+  duration: (input, argument) => {
+    const value = parseDuration(input);
+    if (value === null) {
+      throw new ArgumentParseError(
+        argument.name,
+        input,
+        "INVALID_DURATION",
+        `\`${argument.name}\` must be a duration such as \`10m\` or \`1h30m\`.`,
+      );
+    }
+    return checkRange(value, input, argument);
+  },
+
+  choice: (input, argument) => {
+    const choices = argument.choices ?? [];
+    const choice = choices.find((c) => c.toLowerCase() === input.toLowerCase());
+    if (!choice) {
+      throw new ArgumentParseError(
+        argument.name,
+        input,
+        "INVALID_CHOICE",
+        `\`${argument.name}\` must be one of: ${choices.map((c) => `\`${c}\``).join(", ")}.`,
+      );
+    }
+    return choice;
+  },
+
+  user: async (input, argument, message): Promise<User> => {
+    const { users } = message.client;
+    const id = extractId(input, USER_MENTION);
+
+    let user: User | null | undefined = id ? users._get(id) : undefined;
+    if (!user && !id) {
+      const name = input.replace(/^@/, "").toLowerCase();
+      user = [...users.cache.values()].find(
+        (u) => u.username?.toLowerCase() === name,
+      );
+    }
+    if (!user && id) user = await tryFetch(() => users.fetch(id));
+
+    if (!user) throw notFound(argument, input, "user");
+    return user;
+  },
+
+  member: async (input, argument, message): Promise<ServerMember> => {
+    const server = requireServer(input, argument, message);
+    const id = extractId(input, USER_MENTION);
+
+    let member: ServerMember | null | undefined = id
+      ? server.members._get(id)
+      : undefined;
+    if (!member && !id) {
+      const name = input.replace(/^@/, "").toLowerCase();
+      member = [...server.members.cache.values()].find(
+        (m) =>
+          m.nickname?.toLowerCase() === name ||
+          m.user?.username?.toLowerCase() === name,
+      );
+    }
+    if (!member && id) member = await tryFetch(() => server.members.fetch(id));
+
+    if (!member) throw notFound(argument, input, "member");
+    return member;
+  },
+
+  channel: async (input, argument, message): Promise<Channel> => {
+    const { channels } = message.client;
+    const server = message.server;
+    const id = extractId(input, CHANNEL_MENTION);
+
+    let channel: Channel | null | undefined = id
+      ? (server?.channels._get(id) ?? channels._get(id))
+      : undefined;
+    if (!channel && !id && server) {
+      const name = input.replace(/^#/, "").toLowerCase();
+      channel = [...server.channels.cache.values()].find(
+        (c) => c.name?.toLowerCase() === name,
+      );
+    }
+    if (!channel && id) channel = await tryFetch(() => channels.fetch(id));
+
+    if (!channel) throw notFound(argument, input, "channel");
+    return channel;
+  },
+
+  role: async (input, argument, message): Promise<Role> => {
+    const server = requireServer(input, argument, message);
+    const id = extractId(input, ROLE_MENTION);
+
+    let role: Role | null | undefined = id ? server.roles._get(id) : undefined;
+    if (!role && !id) {
+      const name = input.replace(/^@/, "").toLowerCase();
+      role = [...server.roles.cache.values()].find(
+        (r) => r.name?.toLowerCase() === name,
+      );
+    }
+    if (!role && id) role = await tryFetch(() => server.roles.fetch(id));
+
+    if (!role) throw notFound(argument, input, "role");
+    return role;
+  },
+
+  emoji: async (input, argument, message): Promise<Emoji | string> => {
+    // Unicode emoji are not structures, so they resolve to themselves
+    if (UNICODE_EMOJI.test(input)) return input;
+
+    const client = message.client;
+    const server = message.server;
+    const id = extractId(input, CUSTOM_EMOJI);
+
+    let emoji: Emoji | null | undefined = id
+      ? server?.emojis.get(id)
+      : undefined;
+    if (!emoji && !id && server) {
+      const name = input.replace(/^:|:$/g, "").toLowerCase();
+      emoji = [...server.emojis.values()].find(
+        (e) => e.name?.toLowerCase() === name,
+      );
+    }
+    if (!emoji && id) {
+      const data = await tryFetch(() =>
+        client.api.get<APIEmoji>(`/custom/emoji/${id}`),
+      );
+      if (data) emoji = new Emoji(client, data);
+    }
+
+    if (!emoji) throw notFound(argument, input, "emoji");
+    return emoji;
+  },
+};
@@ -0,0 +1,182 @@
+import type { client } from "../client/client";
+import type { MessageStruct } from "../struct/index";
+import type { FullPermissions } from "../utils/permissions";
+import type { ArgumentParseError, ArgumentType } from "./arguments";
+
+/** A permission flag name accepted by `FullPermissions`. */
+export type PermissionString = keyof (typeof FullPermissions)["FLAGS"];
+
+/**
+ * Describes a single argument a command accepts.
+ */
+export interface CommandArgument {
+  /** The name of the argument, used as the key in `CommandContext.args`. */
+  name: string;
+  /** A short description of the argument, shown in the help command. */
+  description?: string;
+  /** Whether the argument must be provided. Defaults to `true`. */
+  required?: boolean;
+  /** Whether the argument consumes all remaining tokens. Only valid on the last argument. */
+  rest?: boolean;
+  /**
+   * The type the argument is resolved to. Defaults to `"string"`.
+   * Custom types can be added with `CommandManager.registerResolver`.
+   */
+  type?: ArgumentType | (string & {});
+  /** The accepted values for `choice` arguments. */
+  choices?: string[];
+  /** The minimum value for `number`, `integer` and `duration` arguments. */
+  min?: number;
+  /** The maximum value for `number`, `integer` and `duration` arguments. */
+  max?: number;
+}
+
+/**
+ * Represents the options used to declare a command.
+ */
+export interface CommandOptions {
+  /** The name of the command, used to invoke it. */
+  name: string;
+  /** Alternative names that also invoke the command. */
+  aliases?: string[];
+  /** A short description of the command, shown in the help command. */
+  description?: string;
+  /** The arguments the command accepts, in order. */
+  args?: CommandArgument[];
+  /** The permissions the invoking member must have. Implies `serverOnly`. */
+  permissions?: PermissionString[];
+  /** The cooldown between uses in milliseconds. */
+  cooldown?: number;
+  /** Whether the cooldown applies per user or per channel. Defaults to `"user"`. */
+  cooldownScope?: "user" | "channel";
+  /** Whether the command can only be used inside a server. */
+  serverOnly?: boolean;
+  /** Whether the command can only be used by the owner of the bot. */
+  ownerOnly?: boolean;
+  /** Whether the command is hidden from the help command. */
+  hidden?: boolean;
+}
+
+/**
+ * The context passed to a command when it is run.
+ */
+export interface CommandContext {
+  /** The message that invoked the command. */
+  message: MessageStruct;
+  /** The command being run. */
+  command: Command;
+  /** The prefix that was used to invoke the command. */
+  prefix: string;
+  /** The name or alias that was used to invoke the command. */
+  alias: string;
+  /** The resolved arguments, keyed by argument name. */
+  args: Record<string, unknown>;
+  /** The raw argument tokens, after quote handling. */
+  rawArgs: string[];
+}
+
+/**
+ * Represents the reason a command was denied.
+ */
+export type CommandDeniedReason =
+  | { reason: "serverOnly" }
+  | { reason: "ownerOnly" }
+  | { reason: "permissions"; missing: PermissionString[] }
+  | { reason: "cooldown"; remaining: number }
+  | { reason: "arguments"; missing: string[] }
+  | { reason: "invalidArgument"; error: ArgumentParseError };
+
+/**
+ * Represents the base class for all commands.
+ * All commands must extend this class and implement the `run` method.
+ *
+ * @example
+ * ```typescript
+ * class PingCommand extends Command {
+ *   constructor(client: client) {
+ *     super(client, { name: "ping", description: "Replies with pong" });
+ *   }
+ *
+ *   run({ message }: CommandContext) {
+ *     return message.reply("pong");
+ *   }
+ * }
+ *
+ * bot.commands.register(PingCommand);
+ * ```
+ */
+export abstract class Command {
+  /** The name of the command. */
+  readonly name: string;
+
+  /** Alternative names that also invoke the command. */
+  readonly aliases: string[];
+
+  /** A short description of the command. */
+  readonly description: string;
+
+  /** The arguments the command accepts, in order. */
+  readonly args: CommandArgument[];
+
+  /** The permissions the invoking member must have. */
+  readonly permissions: PermissionString[];
+
+  /** The cooldown between uses in milliseconds. */
+  readonly cooldown: number;
+
+  /** Whether the cooldown applies per user or per channel. */
+  readonly cooldownScope: "user" | "channel";
+
+  /** Whether the command can only be used inside a server. */
+  readonly serverOnly: boolean;
+
+  /** Whether the command can only be used by the owner of the bot. */
+  readonly ownerOnly: boolean;
+
+  /** Whether the command is hidden from the help command. */
+  readonly hidden: boolean;
+
+  /**
+   * Creates a new Command instance.
+   *
+   * @param {client} client - The client instance.
+   * @param {CommandOptions} options - The options describing the command.
+   */
+  constructor(
+    protected readonly client: client,
+    options: CommandOptions,
+  ) {
+    this.name = options.name;
+    this.aliases = options.aliases ?? [];
+    this.description = options.description ?? "";
+    this.args = options.args ?? [];
+    this.permissions = options.permissions ?? [];
+    this.cooldown = options.cooldown ?? 0;
+    this.cooldownScope = options.cooldownScope ?? "user";
+    this.serverOnly = (options.serverOnly ?? false) || !!options.permissions;
+    this.ownerOnly = options.ownerOnly ?? false;
+    this.hidden = options.hidden ?? false;
+  }
+
+  /**
+   * Gets a usage string for the command, e.g. `ban <member> [reason...]`.
+   *
+   * @returns {string} The usage string, without a prefix.
+   */
+  get usage(): string {
+    const args = this.args.map((arg) => {
+      const name = arg.rest ? `${arg.name}...` : arg.name;
+      return arg.required === false ? `[${name}]` : `<${name}>`;
+    });
+    return [this.name, ...args].join(" ");
+  }
+
+  /**
+   * Runs the command.
+   * This method must be implemented by subclasses to define the behavior of the command.
+   *
+   * @param {CommandContext} context - The context the command was invoked in.
+   * @returns {Promise<unknown | void>} A promise that resolves when the command has finished.
+   */
+  abstract run(context: CommandContext): Awaited<unknown | void>;
+}
@@ -0,0 +1,422 @@
+import type { client } from "../client/client";
+import type { MessageStruct } from "../struct/index";
+import { Events } from "../utils/constants";
+import {
+  Command,
+  CommandContext,
+  CommandDeniedReason,
+  PermissionString,
+} from "./command";
+import { HelpCommand } from "./helpCommand";
+import {
+  ArgumentParseError,
+  ArgumentResolver,
+  defaultResolvers,
+} from "./arguments";
+
+/**
+ * Resolves the prefixes to use for a message, e.g. from a per-server database.
+ * Returning `null` falls back to the default prefix.
+ */
+export type PrefixResolver = (
+  message: MessageStruct,
+) => string | string[] | null | Promise<string | string[] | null>;
+
+/**
+ * Represents the options for configuring the command manager.
+ */
+export interface CommandManagerOptions {
+  /** The default prefix or prefixes. Defaults to `"!"`. */
+  prefix?: string | string[];
+  /** Resolves the prefixes for a message, e.g. per server. */
+  prefixResolver?: PrefixResolver;
+  /** Whether mentioning the bot can be used as a prefix. Defaults to `true`. */
+  mentionPrefix?: boolean;
+  /** Whether command names are matched case-insensitively. Defaults to `true`. */
+  caseInsensitive?: boolean;
+  /** Whether to register the built-in help command. Defaults to `true`. */
+  help?: boolean;
+}
+
+/**
+ * Splits a string into argument tokens, keeping quoted sections together.
+ *
+ * @param {string} input - The string to split.
+ * @returns {string[]} The argument tokens.
+ *
+ * @example
+ * ```typescript
+ * tokenize(`ban "Some User" spamming links`); // ["ban", "Some User", "spamming", "links"]
+ * ```
+ */
+export function tokenize(input: string): string[] {
+  const tokens: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+  let hasToken = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (char === "\\" && i + 1 < input.length) {
+      current += input[++i];
+      hasToken = true;
+    } else if (quote) {
+      if (char === quote) quote = null;
+      else current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      hasToken = true;
+    } else if (/\s/.test(char)) {
+      if (hasToken) tokens.push(current);
+      current = "";
+      hasToken = false;
+    } else {
+      current += char;
+      hasToken = true;
+    }
+  }
+
+  if (hasToken) tokens.push(current);
+
+  return tokens;
+}
+
+/**
+ * Manages the registration and dispatch of prefix commands.
+ * Commands are parsed from the `message` event once at least one command is registered.
+ */
+export class CommandManager {
+  /** A map of registered commands, keyed by their names. */
+  readonly cache = new Map<string, Command>();
+
+  /** A map of aliases to command names. */
+  #aliases = new Map<string, string>();
+
+  /** A map of cooldown keys to the timestamp the cooldown expires at. */
+  #cooldowns = new Map<string, number>();
+
+  /** The argument resolvers, keyed by argument type. */
+  readonly resolvers = new Map<string, ArgumentResolver>(
+    Object.entries(defaultResolvers),
+  );
+
+  /** Whether the message listener has been attached. */
+  #listening = false;
+
+  /**
+   * Creates a new CommandManager instance.
+   *
+   * @param {client} client - The client instance.
+   */
+  constructor(protected readonly client: client) {}
+
+  /**
+   * Gets the options for the command manager.
+   *
+   * @returns {CommandManagerOptions} The configured options.
+   */
+  get options(): CommandManagerOptions {
+    return this.client.options.commands ?? {};
+  }
+
+  /**
+   * Registers a command with the manager.
+   *
+   * @param {new (client: client) => Command} CommandClass - The command class to register.
+   * @returns {Command} The registered command instance.
+   * @throws {Error} Throws an error if the name or an alias is already registered.
+   */
+  register(CommandClass: new (client: client) => Command): Command {
+    const command = new CommandClass(this.client);
+
+    // Let user-defined commands replace the built-in help command
+    const existing = this.get(command.name);
+    if (existing instanceof HelpCommand) this.unregister(existing.name);
+
+    for (const name of [command.name, ...command.aliases]) {
+      const key = this.normalize(name);
+      if (this.cache.has(key) || this.#aliases.has(key)) {
+        throw new Error(`Command name or alias "${name}" already registered`);
+      }
+    }
+
+    this.cache.set(this.normalize(command.name), command);
+    for (const alias of command.aliases) {
+      this.#aliases.set(this.normalize(alias), this.normalize(command.name));
+    }
+
+    this.listen();
+
+    return command;
+  }
+
+  /**
+   * Unregisters a command from the manager.
+   *
+   * @param {string} name - The name of the command to remove.
+   * @returns {boolean} `true` if the command was removed, otherwise `false`.
+   */
+  unregister(name: string): boolean {
+    const command = this.get(name);
+    if (!command) return false;
+
+    this.cache.delete(this.normalize(command.name));
+    for (const alias of command.aliases) {
+      this.#aliases.delete(this.normalize(alias));
+    }
+
+    return true;
+  }
+
+  /**
+   * Registers a resolver for a custom argument type, or replaces a built-in one.
+   *
+   * @param {string} type - The argument type the resolver handles.
+   * @param {ArgumentResolver} resolver - The function that resolves raw input.
+   *
+   * @example
+   * ```typescript
+   * bot.commands.registerResolver("color", (input, arg) => {
+   *   if (!/^#[0-9a-f]{6}$/i.test(input)) {
+   *     throw new ArgumentParseError(arg.name, input, "NOT_FOUND", "Expected a hex colour.");
+   *   }
+   *   return input;
+   * });
+   * ```
+   */
+  registerResolver(type: string, resolver: ArgumentResolver): void {
+    this.resolvers.set(type, resolver);
+  }
+
+  /**
+   * Retrieves a registered command by its name or one of its aliases.
+   *
+   * @param {string} name - The name or alias of the command.
+   * @returns {Command | null} The command instance, or `null` if not found.
+   */
+  get(name: string): Command | null {
+    const key = this.normalize(name);
+    return (
+      this.cache.get(key) ??
+      this.cache.get(this.#aliases.get(key) ?? "") ??
+      null
+    );
+  }
+
+  /**
+   * Resolves the prefixes that apply to a message.
+   *
+   * @param {MessageStruct} message - The message to resolve the prefixes for.
+   * @returns {Promise<string[]>} The prefixes, longest first.
+   */
+  async resolvePrefixes(message: MessageStruct): Promise<string[]> {
+    let prefixes = (await this.options.prefixResolver?.(message)) ?? null;
+    prefixes ??= this.options.prefix ?? "!";
+
+    const list = Array.isArray(prefixes) ? [...prefixes] : [prefixes];
+
+    if (this.options.mentionPrefix !== false && this.client.user) {
+      list.push(`<@${this.client.user.id}>`);
+    }
+
+    return list.filter(Boolean).sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * Parses a message and runs the command it invokes, if any.
+   *
+   * @param {MessageStruct} message - The message to handle.
+   * @returns {Promise<void>} A promise that resolves when the command has finished.
+   */
+  async handle(message: MessageStruct): Promise<void> {
+    if (message.system || message.webhook) return;
+    if (message.authorId === this.client.user?.id) return;
+
+    const prefixes = await this.resolvePrefixes(message);
+    const prefix = prefixes.find((p) => message.content.startsWith(p));
+    if (prefix === undefined) return;
+
+    const [alias, ...rawArgs] = tokenize(message.content.slice(prefix.length));
+    if (!alias) return;
+
+    const command = this.get(alias);
+    if (!command) return;
+
+    const context: CommandContext = {
+      message,
+      command,
+      prefix,
+      alias,
+      args: {},
+      rawArgs,
+    };
+
+    const denied = this.check(command, context);
+    if (denied) {
+      this.client.emit(Events.COMMAND_DENIED, command, context, denied);
+      return;
+    }
+
+    try {
+      const argsDenied = await this.parseArgs(command, context);
+      if (argsDenied) {
+        this.client.emit(Events.COMMAND_DENIED, command, context, argsDenied);
+        return;
+      }
+
+      this.setCooldown(command, message);
+      this.client.emit(Events.COMMAND_RUN, command, context);
+      await command.run(context);
+    } catch (error) {
+      this.client.emit(Events.COMMAND_ERROR, command, context, error);
+    }
+  }
+
+  /**
+   * Resolves the raw argument tokens into the command's declared arguments.
+   *
+   * @param {Command} command - The command being run.
+   * @param {CommandContext} context - The context to fill in.
+   * @returns {Promise<CommandDeniedReason | null>} The reason the arguments were rejected, or `null`.
+   * @protected
+   */
+  protected async parseArgs(
+    command: Command,
+    context: CommandContext,
+  ): Promise<CommandDeniedReason | null> {
+    const missing: string[] = [];
+
+    for (const [index, arg] of command.args.entries()) {
+      const input = arg.rest
+        ? context.rawArgs.slice(index).join(" ") || undefined
+        : context.rawArgs[index];
+
+      if (input === undefined) {
+        if (arg.required !== false) missing.push(arg.name);
+        context.args[arg.name] = undefined;
+        continue;
+      }
+
+      const type = arg.type ?? "string";
+      const resolver = this.resolvers.get(type);
+
+      try {
+        if (!resolver) {
+          throw new ArgumentParseError(
+            arg.name,
+            input,
+            "UNKNOWN_TYPE",
+            `No resolver registered for argument type "${type}".`,
+          );
+        }
+        context.args[arg.name] = await resolver(input, arg, context.message);
+      } catch (error) {
+        if (error instanceof ArgumentParseError) {
+          return { reason: "invalidArgument", error };
+        }
+        throw error;
+      }
+    }
+
+    return missing.length ? { reason: "arguments", missing } : null;
+  }
+
+  /**
+   * Checks whether a command may be run in the given context.
+   *
+   * @param {Command} command - The command to check.
+   * @param {CommandContext} context - The context the command was invoked in.
+   * @returns {CommandDeniedReason | null} The reason the command was denied, or `null` if allowed.
+   * @protected
+   */
+  protected check(
+    command: Command,
+    { message }: CommandContext,
+  ): CommandDeniedReason | null {
+    if (command.ownerOnly && message.authorId !== this.client.user?.owner) {
+      return { reason: "ownerOnly" };
+    }
+
+    if (command.serverOnly && !message.inServer()) {
+      return { reason: "serverOnly" };
+    }
+
+    if (command.permissions.length) {
+      const member = message.member;
+      const missing: PermissionString[] = member
+        ? command.permissions.filter((perm) => !member.hasPermission(perm))
+        : [...command.permissions];
+      if (missing.length) return { reason: "permissions", missing };
+    }
+
+    if (command.cooldown > 0) {
+      const expires = this.#cooldowns.get(this.cooldownKey(command, message));
+      if (expires && expires > Date.now()) {
+        return { reason: "cooldown", remaining: expires - Date.now() };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Starts the cooldown for a command.
+   *
+   * @param {Command} command - The command that was run.
+   * @param {MessageStruct} message - The message that invoked the command.
+   * @private
+   */
+  private setCooldown(command: Command, message: MessageStruct): void {
+    if (command.cooldown <= 0) return;
+
+    const now = Date.now();
+    for (const [key, expires] of this.#cooldowns) {
+      if (expires <= now) this.#cooldowns.delete(key);
+    }
+
+    this.#cooldowns.set(
+      this.cooldownKey(command, message),
+      now + command.cooldown,
+    );
+  }
+
+  /**
+   * Builds the key used to track a cooldown.
+   * @private
+   */
+  private cooldownKey(command: Command, message: MessageStruct): string {
+    const scope =
+      command.cooldownScope === "channel"
+        ? message.channelId
+        : message.authorId;
+    return `${command.name}:${scope}`;
+  }
+
+  /**
+   * Normalizes a command name for lookup.
+   * @private
+   */
+  private normalize(name: string): string {
+    return this.options.caseInsensitive === false ? name : name.toLowerCase();
+  }
+
+  /**
+   * Attaches the message listener and registers the help command on first use.
+   * @private
+   */
+  private listen(): void {
+    if (this.#listening) return;
+    this.#listening = true;
+
+    this.client.on(Events.MESSAGE, (message) => {
+      this.handle(message).catch((error) =>
+        this.client.emit(Events.ERROR, error),
+      );
+    });
+
+    if (this.options.help !== false && !this.get("help")) {
+      this.register(HelpCommand);
+    }
+  }
+}
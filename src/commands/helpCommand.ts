@@ -0,0 +1,80 @@
+import type { client } from "../client/client";
+import { Command, CommandContext } from "./command";
+
+/**
+ * The built-in help command, generated from the registered commands.
+ * Lists every visible command, or shows the details of a single command.
+ *
+ * @extends Command
+ */
+export class HelpCommand extends Command {
+  /**
+   * Creates a new HelpCommand instance.
+   *
+   * @param {client} client - The client instance.
+   */
+  constructor(client: client) {
+    super(client, {
+      name: "help",
+      description: "Lists the available commands or shows details for one.",
+      args: [{ name: "command", required: false }],
+    });
+  }
+
+  /**
+   * Replies with the list of commands or the details of a single command.
+   *
+   * @param {CommandContext} context - The context the command was invoked in.
+   * @returns {Promise<unknown>} A promise that resolves when the reply is sent.
+   */
+  async run({ message, prefix, args }: CommandContext): Promise<unknown> {
+    const name = args.command as string | undefined;
+
+    if (name) {
+      const command = this.client.commands.get(name);
+      if (!command || command.hidden) {
+        return message.reply(`Unknown command \`${name}\`.`);
+      }
+
+      const lines = [`**${prefix}${command.usage}**`];
+      if (command.description) lines.push(command.description);
+      if (command.aliases.length) {
+        lines.push(
+          `Aliases: ${command.aliases.map((a) => `\`${a}\``).join(", ")}`,
+        );
+      }
+      for (const arg of command.args) {
+        if (!arg.description) continue;
+        const type = arg.type && arg.type !== "string" ? ` (${arg.type})` : "";
+        lines.push(`- \`${arg.name}\`${type}: ${arg.description}`);
+      }
+      if (command.permissions.length) {
+        lines.push(`Requires: ${command.permissions.join(", ")}`);
+      }
+      if (command.cooldown) {
+        lines.push(`Cooldown: ${command.cooldown / 1000}s`);
+      }
+
+      return message.reply(lines.join("\n"));
+    }
+
+    const commands = [...this.client.commands.cache.values()]
+      .filter((command) => !command.hidden)
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    const lines = commands.map(
+      (command) =>
+        `\`${prefix}${command.usage}\`` +
+        (command.description ? ` - ${command.description}` : ""),
+    );
+
+    return message.reply(
+      [
+        "**Commands**",
+        ...lines,
+        "",
+        `Use \`${prefix}help <command>\` for details.`,
+      ].join("\n"),
+    );
+  }
+}
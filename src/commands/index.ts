@@ -0,0 +1,4 @@
+export * from "./arguments";
+export * from "./command";
+export * from "./commandManager";
+export * from "./helpCommand";
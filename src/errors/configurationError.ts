@@ -0,0 +1,32 @@
+/**
+ * Represents a problem with the client's configuration, such as an invalid instance URL or an
+ * instance whose configuration could not be fetched. `login` rejects with this error instead of
+ * connecting, so the host process can decide what to do.
+ *
+ * @extends Error
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.login(token);
+ * } catch (error) {
+ *   if (error instanceof ConfigurationError) console.error("bad config:", error.message, error.cause);
+ *   else throw error;
+ * }
+ * ```
+ */
+export class ConfigurationError extends Error {
+  /**
+   * Creates a new ConfigurationError instance.
+   *
+   * @param {string} message - A description of the problem.
+   * @param {unknown} [cause] - The error that caused it, e.g. the `StoatAPIError` of the last discovery attempt.
+   */
+  constructor(
+    message: string,
+    readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
@@ -0,0 +1,2 @@
+export * from "./stoatAPIError";
+export * from "./configurationError";
@@ -0,0 +1,279 @@
+import type { HTTPResponse } from "../rest/transport/transport";
+
+/**
+ * The HTTP methods used by the REST clients.
+ */
+export type HTTPMethod = "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
+
+/**
+ * Describes the request that caused an API error.
+ */
+export interface APIRequestInfo {
+  /** The HTTP method of the request. */
+  method: HTTPMethod;
+  /** The path of the request, relative to the API or CDN URL. */
+  path: string;
+  /** The body sent with the request, if any. */
+  body?: unknown;
+  /** The number of times the request was retried before failing. */
+  retries: number;
+}
+
+/**
+ * Represents a failed request to the API or CDN.
+ * Carries the HTTP status, the request that failed and the error body returned by the API,
+ * whose `type` field (e.g. `MissingPermission`, `NotFound`, `AlreadyConnected`) is exposed as `type`.
+ *
+ * Requests that fail with a known status throw one of the subclasses, so callers can branch with `instanceof`.
+ *
+ * @extends Error
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await channel.messages.send("hello");
+ * } catch (error) {
+ *   if (error instanceof ForbiddenError && error.type === "MissingPermission") {
+ *     console.log("missing permission", error.data);
+ *   } else throw error;
+ * }
+ * ```
+ */
+export class StoatAPIError extends Error {
+  /** The HTTP method of the request. */
+  readonly method: HTTPMethod;
+
+  /** The path of the request, relative to the API or CDN URL. */
+  readonly path: string;
+
+  /** The body sent with the request, if any. */
+  readonly body: unknown;
+
+  /** The number of times the request was retried before failing. */
+  readonly retries: number;
+
+  /** The API's error type, taken from the `type` field of the response body. */
+  readonly type: string | null;
+
+  /**
+   * Creates a new StoatAPIError instance.
+   *
+   * @param {APIRequestInfo} request - The request that failed.
+   * @param {number | null} status - The HTTP status, or `null` if no response was received.
+   * @param {unknown} data - The response body returned by the API.
+   * @param {string} [message] - A description of the failure. Built from the request and status if not given.
+   */
+  constructor(
+    request: APIRequestInfo,
+    readonly status: number | null,
+    readonly data: unknown,
+    message?: string,
+  ) {
+    const type =
+      data && typeof data === "object" && "type" in data
+        ? String((data as { type: unknown }).type)
+        : null;
+
+    super(
+      message ??
+        `${request.method} ${request.path} failed with status ${status}${type ? `: ${type}` : ""}`,
+    );
+    this.name = new.target.name;
+    this.method = request.method;
+    this.path = request.path;
+    this.body = request.body;
+    this.retries = request.retries;
+    this.type = type;
+  }
+
+  /**
+   * Whether the request may succeed if retried.
+   *
+   * @returns {boolean} `true` for rate limits and server errors.
+   */
+  get retryable(): boolean {
+    return false;
+  }
+
+  /**
+   * Creates the error for a request that did not receive a response.
+   *
+   * @param {unknown} error - The error thrown while making the request.
+   * @param {APIRequestInfo} request - The request that failed.
+   * @returns {StoatAPIError} The error to throw.
+   */
+  static from(error: unknown, request: APIRequestInfo): StoatAPIError {
+    if (error instanceof StoatAPIError) return error;
+
+    const reason = error instanceof Error ? error.message : String(error);
+    if (error instanceof Error && error.name === "TimeoutError") {
+      return new RequestTimeoutError(
+        request,
+        null,
+        null,
+        `${request.method} ${request.path} timed out: ${reason}`,
+      );
+    }
+    if (error instanceof Error && error.name === "AbortError") {
+      return new RequestCancelledError(
+        request,
+        null,
+        null,
+        `${request.method} ${request.path} was cancelled: ${reason}`,
+      );
+    }
+    return new StoatAPIError(
+      request,
+      null,
+      null,
+      `${request.method} ${request.path} failed: ${reason}`,
+    );
+  }
+
+  /**
+   * Creates the matching error for an unsuccessful response.
+   *
+   * @param {HTTPResponse} response - The response received.
+   * @param {APIRequestInfo} request - The request that failed.
+   * @returns {StoatAPIError} The error to throw.
+   */
+  static fromResponse(
+    response: HTTPResponse,
+    request: APIRequestInfo,
+  ): StoatAPIError {
+    const { status, data, headers } = response;
+    switch (true) {
+      case status === 400:
+        return new BadRequestError(request, status, data);
+      case status === 401:
+        return new UnauthorizedError(request, status, data);
+      case status === 403:
+        return new ForbiddenError(request, status, data);
+      case status === 404:
+        return new NotFoundError(request, status, data);
+      case status === 409:
+        return new ConflictError(request, status, data);
+      case status === 429:
+        return new RateLimitError(
+          request,
+          status,
+          data,
+          RateLimitError.parseRetryAfter(data, headers),
+        );
+      case status >= 500:
+        return new ServerError(request, status, data);
+      default:
+        return new StoatAPIError(request, status, data);
+    }
+  }
+}
+
+/**
+ * Represents a request that was cancelled before it completed, e.g. because the client was destroyed.
+ *
+ * @extends StoatAPIError
+ */
+export class RequestCancelledError extends StoatAPIError {}
+
+/**
+ * Represents a request that did not complete within the `timeout` given in its `RequestOptions`.
+ *
+ * @extends RequestCancelledError
+ */
+export class RequestTimeoutError extends RequestCancelledError {}
+
+/**
+ * Represents a request rejected as malformed (HTTP 400), e.g. a `FailedValidation` body.
+ *
+ * @extends StoatAPIError
+ */
+export class BadRequestError extends StoatAPIError {}
+
+/**
+ * Represents a request made with a missing or invalid token (HTTP 401).
+ *
+ * @extends StoatAPIError
+ */
+export class UnauthorizedError extends StoatAPIError {}
+
+/**
+ * Represents a request the client is not allowed to make (HTTP 403), e.g. `MissingPermission`.
+ *
+ * @extends StoatAPIError
+ */
+export class ForbiddenError extends StoatAPIError {}
+
+/**
+ * Represents a request for something that does not exist (HTTP 404).
+ *
+ * @extends StoatAPIError
+ */
+export class NotFoundError extends StoatAPIError {}
+
+/**
+ * Represents a request that conflicts with the current state (HTTP 409), e.g. `AlreadyConnected`.
+ *
+ * @extends StoatAPIError
+ */
+export class ConflictError extends StoatAPIError {}
+
+/**
+ * Represents a request that was rate limited (HTTP 429).
+ *
+ * @extends StoatAPIError
+ */
+export class RateLimitError extends StoatAPIError {
+  /**
+   * Creates a new RateLimitError instance.
+   *
+   * @param {APIRequestInfo} request - The request that failed.
+   * @param {number} status - The HTTP status.
+   * @param {unknown} data - The response body returned by the API.
+   * @param {number | null} retryAfter - How long to wait before retrying in milliseconds, if known.
+   */
+  constructor(
+    request: APIRequestInfo,
+    status: number,
+    data: unknown,
+    readonly retryAfter: number | null,
+  ) {
+    super(request, status, data);
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+
+  /**
+   * Reads the retry delay from a rate limited response.
+   * @private
+   */
+  static parseRetryAfter(
+    data: unknown,
+    headers: Record<string, unknown>,
+  ): number | null {
+    if (data && typeof data === "object" && "retry_after" in data) {
+      const ms = Number((data as { retry_after: unknown }).retry_after);
+      if (Number.isFinite(ms)) return ms;
+    }
+
+    const resetAfter = parseFloat(String(headers["x-ratelimit-reset-after"]));
+    if (Number.isFinite(resetAfter)) return resetAfter;
+
+    const retryAfter = parseFloat(String(headers["retry-after"]));
+    if (Number.isFinite(retryAfter)) return retryAfter * 1000;
+
+    return null;
+  }
+}
+
+/**
+ * Represents a failure on the API's side (HTTP 5xx).
+ *
+ * @extends StoatAPIError
+ */
+export class ServerError extends StoatAPIError {
+  get retryable(): boolean {
+    return true;
+  }
+}
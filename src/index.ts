@@ -1,5 +1,61 @@
 export * from "./managers/index";
-export { client } from "./client/client";
+export * from "./cache/index";
+export { client, type DestroyOptions } from "./client/client";
 export { AudioPlayer, type AudioPlayerEvents } from "./client/player";
+export {
+  Queue,
+  type LoopMode,
+  type QueueInput,
+  type Track,
+  type TrackEndReason,
+  type TrackOptions,
+} from "./client/queue";
+export {
+  CrossfadeFilter,
+  EqualizerFilter,
+  FadeFilter,
+  FFmpegFilter,
+  FilterChain,
+  GainFilter,
+  type AudioFilter,
+  type EqualizerBand,
+  type FilterContext,
+  type PCMFilter,
+} from "./client/filters";
+export {
+  VoiceReceiver,
+  VoiceRecording,
+  type RecordingFile,
+  type RecordingFormat,
+  type RecordingOptions,
+} from "./client/receiver";
+export type { GeoLocation, NodeSelection } from "./client/nodeSelector";
+export type { VoiceNode } from "./client/baseClient";
+export {
+  GatewayRecorder,
+  type GatewayRecord,
+  type GatewayRecorderOptions,
+} from "./client/recorder";
 export * from "./struct/index";
+export * from "./commands/index";
+export * from "./collectors/index";
+export * from "./cluster/index";
 export * from "./utils/index";
+export * from "./errors/index";
+export * from "./rest/transport/index";
+export type { RequestOptions } from "./rest/restClient";
+export type { WebSocketConstructor, WebSocketLike } from "./client/webSocket";
+export type {
+  RateLimitBucketInfo,
+  RateLimitData,
+} from "./rest/restUtils/rateLimitQueue";
+export {
+  Interceptors,
+  type APIRequest,
+  type APIRequestData,
+  type APIResponse,
+  type APIResponseData,
+  type ErrorInterceptor,
+  type RequestInterceptor,
+  type ResponseInterceptor,
+} from "./rest/restUtils/interceptors";
@@ -1,15 +1,57 @@
 import type { client } from "../client/client";
+import {
+  CacheName,
+  CacheStore,
+  CacheStoreFactory,
+  MapCacheStore,
+} from "../cache/index";
+
+/**
+ * How a manager orders its cache for eviction.
+ * - `insertion`: the oldest added entry is evicted first.
+ * - `lru`: the least recently read or updated entry is evicted first. Needs a store with `touch`,
+ *   stores without it keep their own order.
+ */
+export type CacheMode = "insertion" | "lru";
+
+/** Counters describing how well a manager's cache is performing. */
+export interface CacheStats {
+  /** Reads that found the entry in the cache. */
+  hits: number;
+  /** Reads that did not find the entry in the cache. */
+  misses: number;
+  /** Entries removed to stay within `maxSize`. */
+  evictions: number;
+}
 
 export abstract class BaseManager<Holds extends { id: string }, R = unknown> {
   /** Shared default max size for all managers (can be changed globally). */
   static defaultMaxSize = -1;
 
-  /** Insertion ordered cache of items this manager holds. */
-  readonly cache = new Map<string, Holds>();
+  /**
+   * Shared default cache mode for all managers (can be changed globally, or per manager class
+   * e.g. `MessageManager.defaultCacheMode = "lru"`).
+   */
+  static defaultCacheMode: CacheMode = "insertion";
+
+  /** The name used to pick this manager's store from `clientOptions.cache`. */
+  static cacheName: CacheName | null = null;
+
+  /** Cache of items this manager holds, backed by the configured cache store. */
+  readonly cache: CacheStore<Holds>;
 
   /** Instance level max size (can be changed per manager instance). */
   protected maxSize: number;
 
+  /** Instance level cache mode (can be changed per manager instance). */
+  protected cacheMode: CacheMode;
+
+  /** Hit, miss and eviction counters for this manager's cache. */
+  readonly stats: CacheStats = { hits: 0, misses: 0, evictions: 0 };
+
+  /** When each cached entry was last added, updated or read through the manager. */
+  #lastSeen = new WeakMap<Holds, number>();
+
   /** @private */
   Holds: any;
 
@@ -18,10 +60,20 @@ export abstract class BaseManager<Holds extends { id: string }, R = unknown> {
     maxSize = BaseManager.defaultMaxSize,
   ) {
     this.maxSize = maxSize;
+
+    const { cacheName, defaultCacheMode } = this
+      .constructor as typeof BaseManager;
+    this.cacheMode = defaultCacheMode;
+    const options = client.options.cache ?? {};
+    const factory = ((cacheName && options[cacheName]) ?? options.default) as
+      | CacheStoreFactory<Holds>
+      | undefined;
+    this.cache = factory ? factory(this) : new MapCacheStore<Holds>();
   }
 
   /**
    * Adds a raw object to the cache, constructing the holdable class.
+   * In `lru` mode an updated entry is also marked as recently used.
    * Automatically evicts oldest entries if the max size is exceeded.
    * @private
    */
@@ -29,10 +81,44 @@ export abstract class BaseManager<Holds extends { id: string }, R = unknown> {
     if (!this.holds) throw new Error("Holds is not defined");
     const obj = new this.holds(this.client, raw);
     this.cache.set(obj.id, obj);
+    if (this.cacheMode === "lru") this.cache.touch?.(obj.id);
+    this.#lastSeen.set(obj, Date.now());
     this.enforceMaxSize();
     return obj;
   }
 
+  /**
+   * Reads an entry from the cache, counting the hit or miss.
+   * In `lru` mode the entry is also marked as recently used.
+   * @private
+   */
+  _get(id: string): Holds | undefined {
+    const obj = this.cache.get(id);
+    if (obj === undefined) {
+      this.stats.misses++;
+      return undefined;
+    }
+
+    this.stats.hits++;
+    this.#lastSeen.set(obj, Date.now());
+    if (this.cacheMode === "lru") this.cache.touch?.(id);
+    return obj;
+  }
+
+  /**
+   * Gets when an entry was last added, updated or read through the manager.
+   * Entries the manager has not seen yet are marked as seen now.
+   * @private
+   */
+  _lastSeen(obj: Holds): number {
+    let timestamp = this.#lastSeen.get(obj);
+    if (timestamp === undefined) {
+      timestamp = Date.now();
+      this.#lastSeen.set(obj, timestamp);
+    }
+    return timestamp;
+  }
+
   /** Remove an entry by id.
    * @private
    */
@@ -48,11 +134,24 @@ export abstract class BaseManager<Holds extends { id: string }, R = unknown> {
     this.enforceMaxSize();
   }
 
+  /** Change the cache mode for this manager at runtime. */
+  setCacheMode(mode: CacheMode): void {
+    this.cacheMode = mode;
+  }
+
+  /** Reset the hit, miss and eviction counters. */
+  resetStats(): void {
+    this.stats.hits = 0;
+    this.stats.misses = 0;
+    this.stats.evictions = 0;
+  }
+
   /** Force eviction until cache size is within the limit. */
   protected enforceMaxSize(): void {
     if (this.maxSize === -1) return;
     if (this.maxSize === 0) {
       // Special case: caching disabled.
+      this.stats.evictions += this.cache.size;
       this.cache.clear();
       return;
     }
@@ -60,6 +159,7 @@ export abstract class BaseManager<Holds extends { id: string }, R = unknown> {
       const oldestKey = this.cache.keys().next().value as string | undefined;
       if (oldestKey === undefined) break;
       this.cache.delete(oldestKey);
+      this.stats.evictions++;
     }
   }
 
@@ -70,7 +170,7 @@ export abstract class BaseManager<Holds extends { id: string }, R = unknown> {
   resolve(resolvable: string | R | Holds): Holds | null;
   resolve(resolvable: string | R | Holds): Holds | null {
     const id = this.resolveId(resolvable);
-    if (id) return this.cache.get(id) ?? null;
+    if (id) return this._get(id) ?? null;
     return null;
   }
 
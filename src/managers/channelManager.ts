@@ -8,6 +8,7 @@ import {
   TextChannel,
   VoiceChannel,
 } from "../struct/index";
+import type { RequestOptions } from "../rest/restClient";
 
 export type ChannelResolvable = Channel | APIChannel | string;
 
@@ -15,6 +16,9 @@ export class ChannelManager extends BaseManager<Channel, APIChannel> {
   /** @private */
   holds = null;
 
+  /** @private */
+  static cacheName = "channels" as const;
+
   /** @private */
   _add(data: APIChannel & { voice?: any }): Channel {
     let channel: Channel;
@@ -77,12 +81,13 @@ export class ChannelManager extends BaseManager<Channel, APIChannel> {
    * used to fetch a channel
    *
    * @param channel The channel to fetch
-   * @param force Whether to force fetch the channel using the api or return it form cache if able
+   * @param options The options for the request, e.g. a signal or timeout
+   * @param options.force Whether to force fetch the channel using the api or return it form cache if able
    * @returns A promise that resolves with the fetched channel
    */
   async fetch(
     channel: ChannelResolvable,
-    { force = true } = {},
+    { force = true, ...options }: { force?: boolean } & RequestOptions = {},
   ): Promise<Channel> {
     const id = this.resolveId(channel);
 
@@ -91,11 +96,15 @@ export class ChannelManager extends BaseManager<Channel, APIChannel> {
     }
 
     if (!force) {
-      const channel = this.cache.get(id);
+      const channel = this._get(id);
       if (channel) return channel;
     }
 
-    const data = (await this.client.api.get(`/channels/${id}`)) as APIChannel;
+    const data = (await this.client.api.get(
+      `/channels/${id}`,
+      undefined,
+      options,
+    )) as APIChannel;
 
     return this._add(data);
   }
@@ -7,11 +7,12 @@ import type {
 import { File } from "node:buffer";
 import { Readable } from "stream";
 import FormData from "form-data";
-import axios from "axios";
 import { BaseManager } from "./baseManager";
 import { Channel, Emoji, MessageStruct, MessageEmbed } from "../struct/index";
 import { UUID } from "../utils/index";
 import { CDNAttachmentResponse } from "../utils/types";
+import type { RequestOptions } from "../rest/restClient";
+import { anySignal } from "../rest/restUtils/abort";
 
 export type MessageResolvable = MessageStruct | APIMessage | string;
 
@@ -53,6 +54,9 @@ export interface MessageQueryOptions {
 export class MessageManager extends BaseManager<MessageStruct, APIMessage> {
   /** @private */
   holds = MessageStruct;
+
+  /** @private */
+  static cacheName = "messages" as const;
   constructor(
     protected readonly channel: Channel,
     maxSize = 1000,
@@ -67,10 +71,21 @@ export class MessageManager extends BaseManager<MessageStruct, APIMessage> {
    * - replies: An array of message IDs to reply to
    * - attachments: An array of attachment URLs, Files, or ReadStreams
    * - embeds: An array of MessageEmbed objects
+   * @param options The options for the request that sends the message, e.g. a signal or timeout.
+   * The signal and timeout also cover downloading and uploading attachments and embed media.
    * @returns Promise that resolves to the sent message
    */
-  async send(content: MessageOptions | string): Promise<MessageStruct> {
+  async send(
+    content: MessageOptions | string,
+    options: RequestOptions = {},
+  ): Promise<MessageStruct> {
     if (typeof content === "string") content = { content };
+    const signal = anySignal([
+      options.signal,
+      options.timeout === undefined
+        ? undefined
+        : AbortSignal.timeout(options.timeout),
+    ]);
     let attachments: string[] = [];
     let embeds: SendableEmbed[] = [];
 
@@ -78,10 +93,8 @@ export class MessageManager extends BaseManager<MessageStruct, APIMessage> {
       const promises = content.attachments.map(async (att) => {
         const data = new FormData();
         if (typeof att === "string") {
-          const readableStream = (await axios.get(att, {
-            responseType: "stream",
-          })) as { data: Readable };
-          data.append("file", readableStream.data, {
+          const readableStream = await this.client.cdn.download(att, signal);
+          data.append("file", readableStream, {
             filename: att.split("/").pop(),
           });
         }
@@ -95,17 +108,19 @@ export class MessageManager extends BaseManager<MessageStruct, APIMessage> {
           data.append("file", buffer, { filename: att.name });
         }
 
-        await this.client.cdn.post("/attachments", data).then((attachment) => {
-          const { id } = attachment as CDNAttachmentResponse;
-          attachments.push(id);
-        });
+        await this.client.cdn
+          .post("/attachments", data, signal)
+          .then((attachment) => {
+            const { id } = attachment as CDNAttachmentResponse;
+            attachments.push(id);
+          });
       });
       await Promise.all(promises);
     }
 
     if (Array.isArray(content.embeds)) {
       const promises = content.embeds.map(async (embed) => {
-        const json = await embed.toJSONWithMedia(this.client);
+        const json = await embed.toJSONWithMedia(this.client, signal);
         embeds.push(json);
       });
       await Promise.all(promises);
@@ -116,6 +131,8 @@ export class MessageManager extends BaseManager<MessageStruct, APIMessage> {
       {
         body: { ...content, attachments, embeds, nonce: UUID.generate() },
       },
+      undefined,
+      { ...options, signal, timeout: undefined },
     )) as APIMessage;
     return this._add(resp);
   }
@@ -231,19 +248,32 @@ export class MessageManager extends BaseManager<MessageStruct, APIMessage> {
    * - limit: The maximum number of messages to return
    * - before: The message ID to start fetching from (exclusive)
    * - after: The message ID to stop fetching at (exclusive)
+   * @param options The options for the request, e.g. a signal or timeout
    * @returns Promise that resolves to a Message object or a Map of message IDs to Message objects
    */
-  fetch(message: MessageResolvable): Promise<MessageStruct>;
-  fetch(query?: MessageQueryOptions): Promise<Map<string, MessageStruct>>;
-  fetch(limit: number): Promise<Map<string, MessageStruct>>;
+  fetch(
+    message: MessageResolvable,
+    options?: RequestOptions,
+  ): Promise<MessageStruct>;
+  fetch(
+    query?: MessageQueryOptions,
+    options?: RequestOptions,
+  ): Promise<Map<string, MessageStruct>>;
+  fetch(
+    limit: number,
+    options?: RequestOptions,
+  ): Promise<Map<string, MessageStruct>>;
   async fetch(
     query?: MessageResolvable | MessageQueryOptions | number,
+    options?: RequestOptions,
   ): Promise<Map<string, MessageStruct> | MessageStruct> {
     const id = this.resolveId(query as string);
 
     if (id) {
       const data = (await this.client.api.get(
         `/channels/${this.channel.id}/messages/${id}`,
+        undefined,
+        options,
       )) as APIMessage;
       return this._add(data);
     }
@@ -258,6 +288,7 @@ export class MessageManager extends BaseManager<MessageStruct, APIMessage> {
     const messages = await this.client.api.get(
       `/channels/${this.channel.id}/messages`,
       queryObj,
+      options,
     );
 
     return (messages as APIMessage[]).reduce((coll, cur) => {
@@ -3,12 +3,16 @@ import { BaseManager } from "./baseManager";
 import { Role, Server } from "../struct/index";
 import { FullPermissions } from "../utils";
 import { editableRole } from "../utils/types";
+import type { RequestOptions } from "../rest/restClient";
 
 export type RoleResolvable = Role | string;
 
 export class RoleManager extends BaseManager<Role, APIRole & { id: string }> {
   /** @private */
   holds = Role;
+
+  /** @private */
+  static cacheName = "roles" as const;
   constructor(protected readonly server: Server) {
     super(server.client);
   }
@@ -33,6 +37,28 @@ export class RoleManager extends BaseManager<Role, APIRole & { id: string }> {
     return this._add(Object.assign(role, { id }));
   }
 
+  /**
+   * fetches a role from the server
+   * @param role the role to fetch
+   * @param force Whether to force fetch the role from the API. Defaults to true.
+   * If set to false, the method will return the role from the cache if it exists.
+   * @returns A promise that resolves with the fetched role
+   */
+  async fetch(role: RoleResolvable, { force = true } = {}): Promise<Role> {
+    const id = this.resolveId(role);
+    if (!id) throw new TypeError("INVALID_TYPE");
+
+    if (!force) {
+      const role = this._get(id);
+      if (role) return role;
+    }
+
+    const data = await this.client.api.get<APIRole>(
+      `/servers/${this.server.id}/roles/${id}`,
+    );
+    return this._add(Object.assign(data, { id }));
+  }
+
   /**
    * deletes a role from the server
    * @param role the role to delete
@@ -54,10 +80,15 @@ export class RoleManager extends BaseManager<Role, APIRole & { id: string }> {
    * @param data.hoist Whether the role is displayed separately in the member list
    * @param data.rank The rank of the role, used for ordering
    * @param data.remove Fields to remove from the role
+   * @param options The options for the requests, e.g. a reason or timeout
    * @returns Role
    * @throws {TypeError} If the role ID is invalid
    */
-  async edit(role: RoleResolvable, data: editableRole): Promise<Role> {
+  async edit(
+    role: RoleResolvable,
+    data: editableRole,
+    options?: RequestOptions,
+  ): Promise<Role> {
     const id = this.resolveId(role);
     if (!id) throw new TypeError("INVALID_TYPE");
 
@@ -70,12 +101,16 @@ export class RoleManager extends BaseManager<Role, APIRole & { id: string }> {
       await this.client.api.put(
         `/servers/${this.server.id}/permissions/${id}`,
         { body: { permissions } },
+        undefined,
+        options,
       );
     }
     delete data.permissions;
     const updatedRole = (await this.client.api.patch(
       `/servers/${this.server.id}/roles/${id}`,
       { body: data },
+      undefined,
+      options,
     )) as APIRole;
 
     return this._add(Object.assign(updatedRole, { id }));
@@ -24,6 +24,9 @@ export interface CreateChannelOptions {
 export class ServerChannelManager extends BaseManager<ServerChannel> {
   /** @private */
   holds = ServerChannel;
+
+  /** @private */
+  static cacheName = "serverChannels" as const;
   constructor(protected readonly server: Server) {
     super(server.client);
   }
@@ -95,7 +98,7 @@ export class ServerChannelManager extends BaseManager<ServerChannel> {
     }
 
     if (!force) {
-      const channel = this.cache.get(id);
+      const channel = this._get(id);
       if (channel) return channel;
     }
 
@@ -13,6 +13,9 @@ export class ServerManager extends BaseManager<Server, APIServer> {
   /** @private */
   readonly holds = Server;
 
+  /** @private */
+  static cacheName = "servers" as const;
+
   /** @private */
   _remove(id: string): void {
     const server = this.cache.get(id);
@@ -60,7 +63,7 @@ export class ServerManager extends BaseManager<Server, APIServer> {
     if (!id) throw new TypeError("INVALID_TYPE");
 
     if (!force) {
-      const server = this.cache.get(id);
+      const server = this._get(id);
       if (server) return server;
     }
 
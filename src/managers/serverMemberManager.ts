@@ -1,6 +1,7 @@
 import type { Member, User as APIUser } from "revolt-api";
 import { BaseManager } from "./baseManager";
 import { Server, ServerMember, User } from "../struct/index";
+import type { RequestOptions } from "../rest/restClient";
 
 export type ServerMemberResolvable = ServerMember | User | Member | string;
 
@@ -14,6 +15,9 @@ export interface EditServerMemberOptions {
 export class ServerMemberManager extends BaseManager<ServerMember, Member> {
   /** @private */
   holds = ServerMember;
+
+  /** @private */
+  static cacheName = "members" as const;
   constructor(protected readonly server: Server) {
     super(server.client);
   }
@@ -44,29 +48,47 @@ export class ServerMemberManager extends BaseManager<ServerMember, Member> {
    * ban selected member in the server
    * @param member The member to ban
    * @param reason the reason for the ban
+   * @param options The options for the request, e.g. a signal or timeout
    * @returns A promise that resolves when the member is banned
    */
-  async ban(member: ServerMemberResolvable, reason?: string): Promise<void> {
+  async ban(
+    member: ServerMemberResolvable,
+    reason?: string,
+    options: RequestOptions = {},
+  ): Promise<void> {
     const id = this.resolveId(member);
     if (!id) {
       throw new TypeError("INVALID_TYPE");
     }
-    await this.client.api.put(`/servers/${this.server.id}/bans/${id}`, {
-      body: { reason },
-    });
+    reason ??= options.reason;
+    await this.client.api.put(
+      `/servers/${this.server.id}/bans/${id}`,
+      { body: { reason } },
+      undefined,
+      { ...options, reason },
+    );
   }
 
   /**
    * kick selected member in the server
    * @param member The member to kick
+   * @param options The options for the request, e.g. a reason or timeout
    * @returns A promise that resolves when the member is kicked
    */
-  async kick(member: ServerMemberResolvable): Promise<void> {
+  async kick(
+    member: ServerMemberResolvable,
+    options?: RequestOptions,
+  ): Promise<void> {
     const id = this.resolveId(member);
     if (!id) {
       throw new TypeError("INVALID_TYPE");
     }
-    await this.client.api.delete(`/servers/${this.server.id}/members/${id}`);
+    await this.client.api.delete(
+      `/servers/${this.server.id}/members/${id}`,
+      undefined,
+      undefined,
+      options,
+    );
   }
 
   /**
@@ -86,14 +108,21 @@ export class ServerMemberManager extends BaseManager<ServerMember, Member> {
    * set timeout for a member in the server
    * @param member The member to set the timeout for
    * @param duration The duration of the timeout as a Date object
+   * @param options The options for the request, e.g. a reason or timeout
    * @returns A promise that resolves when the timeout is set
    */
-  async timeout(member: string, duration: Date): Promise<void> {
+  async timeout(
+    member: string,
+    duration: Date,
+    options?: RequestOptions,
+  ): Promise<void> {
     await this.client.api.patch(
       `/servers/${this.server.id}/members/${member}`,
       {
         body: { timeout: duration },
       },
+      undefined,
+      options,
     );
   }
 
@@ -8,6 +8,9 @@ export class UserManager extends BaseManager<User, APIUser> {
   /** @private */
   holds = User;
 
+  /** @private */
+  static cacheName = "users" as const;
+
   /**
    *
    * @param user The user to fetch
@@ -19,7 +22,7 @@ export class UserManager extends BaseManager<User, APIUser> {
     if (!id) throw new TypeError("INVALID_TYPE");
 
     if (!force) {
-      const user = this.cache.get(id);
+      const user = this._get(id);
       if (user) return user;
     }
 
@@ -5,7 +5,6 @@ import {
   createWebhookResponse,
   editWebhookOptions,
 } from "../utils/types";
-import axios from "axios";
 import FormData from "form-data";
 import { UUID } from "../utils";
 import { SendableEmbed, Message as APIMessage } from "revolt-api";
@@ -44,10 +43,8 @@ export class WebhookManager {
     const data = new FormData();
     let avatarID: string | undefined = undefined;
     if (typeof avatar === "string") {
-      const readableStream = (await axios.get(avatar, {
-        responseType: "stream",
-      })) as { data: Readable };
-      data.append("file", readableStream.data, {
+      const readableStream = await this.client.cdn.download(avatar);
+      data.append("file", readableStream, {
         filename: avatar.split("/").pop(),
       });
     }
@@ -154,10 +151,8 @@ export class WebhookManager {
       const promises = content.attachments.map(async (att) => {
         const data = new FormData();
         if (typeof att === "string") {
-          const readableStream = (await axios.get(att, {
-            responseType: "stream",
-          })) as { data: Readable };
-          data.append("file", readableStream.data, {
+          const readableStream = await this.client.cdn.download(att);
+          data.append("file", readableStream, {
             filename: att.split("/").pop(),
           });
         }
@@ -238,10 +233,8 @@ export class WebhookManager {
     const data = new FormData();
     let avatarID: string | undefined = undefined;
     if (typeof options.avatar === "string") {
-      const readableStream = (await axios.get(options.avatar, {
-        responseType: "stream",
-      })) as { data: Readable };
-      data.append("file", readableStream.data, {
+      const readableStream = await this.client.cdn.download(options.avatar);
+      data.append("file", readableStream, {
         filename: options.avatar.split("/").pop(),
       });
     }
@@ -1,110 +1,243 @@
-import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from "axios";
 import { BaseClient } from "../client/baseClient";
-import { DEFAULT_CLIENT_OPTIONS } from "../utils";
+import { DEFAULT_CLIENT_OPTIONS, Events } from "../utils";
 import { version } from "../../package.json";
 import FormData from "form-data";
-import { RateLimitQueue } from "./restUtils/rateLimitQueue";
+import { Readable } from "node:stream";
+import {
+  RateLimitBucketInfo,
+  RateLimitQueue,
+} from "./restUtils/rateLimitQueue";
+import { Interceptors } from "./restUtils/interceptors";
+import {
+  FetchTransport,
+  HTTPRequest,
+  HTTPResponse,
+  Transport,
+} from "./transport/index";
+import { HTTPMethod, RateLimitError, StoatAPIError } from "../errors/index";
+import { drain } from "./restUtils/drain";
+import { anySignal, createController, sleep } from "./restUtils/abort";
+
 export class CDNClient {
-  private rateLimitQueue = new RateLimitQueue();
-  constructor(private readonly client: BaseClient) {}
+  private rateLimitQueue: RateLimitQueue;
+
+  /** The interceptors every request made by this client passes through. */
+  readonly interceptors = new Interceptors();
+
+  /** The transport used when `rest.transport` is not set. */
+  private readonly defaultTransport = new FetchTransport();
+
+  /** The uploads and downloads in progress. */
+  private readonly pending = new Set<Promise<unknown>>();
+
+  /** Aborted by `close` to cancel every request in progress. */
+  private controller = createController();
+
+  constructor(private readonly client: BaseClient) {
+    this.rateLimitQueue = new RateLimitQueue((data) =>
+      this.client.emit(Events.RATE_LIMITED, data),
+    );
+  }
+
+  /**
+   * Gets the number of uploads and downloads in progress.
+   * @returns The number of requests that have not settled yet.
+   */
+  get inFlight(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Waits for the uploads and downloads in progress to finish, then cancels any that are left with a
+   * `RequestCancelledError`. A download counts as finished once its response has started.
+   * @param timeout How long to wait in milliseconds before cancelling. `0` cancels straight away.
+   * @returns A promise that resolves once every request has settled.
+   */
+  async close(timeout: number = 0): Promise<void> {
+    await drain(this.pending, timeout);
+    this.controller.abort(
+      new DOMException("The client was destroyed", "AbortError"),
+    );
+    this.controller = createController();
+    await Promise.allSettled(this.pending);
+  }
+
+  /**
+   * Gets a snapshot of the rate limit buckets used by this client, including how many
+   * requests are waiting on each.
+   * @returns The state of each bucket.
+   */
+  get rateLimits(): RateLimitBucketInfo[] {
+    return this.rateLimitQueue.snapshot();
+  }
+
+  /**
+   * Gets the transport requests are sent with.
+   * @returns The `rest.transport` option, or the default fetch transport.
+   */
+  get transport(): Transport {
+    return this.client.options.rest?.transport ?? this.defaultTransport;
+  }
+
+  /**
+   * Keeps track of a request until it settles.
+   * @private
+   */
+  private track<T>(promise: Promise<T>): Promise<T> {
+    this.pending.add(promise);
+    const settle = () => this.pending.delete(promise);
+    promise.then(settle, settle);
+    return promise;
+  }
 
   /**
    * Helper function to handle API requests.
+   * Rate limited and server errors are retried up to `rest.retries` times.
    * @param method The HTTP method (GET, POST, PATCH, PUT, DELETE).
    * @param url The URL for the request.
-   * @param body The request body (if applicable).
+   * @param data The request body.
    * @param query Query parameters (if applicable).
+   * @param signal Cancels the request when aborted.
    * @returns The API response.
+   * @throws {StoatAPIError} Throws the matching API error if the request fails.
    */
   private async request<T>(
-    method: "GET" | "POST" | "PATCH" | "PUT" | "DELETE",
+    method: HTTPMethod,
     url: string,
     data: FormData,
     query?: Record<string, string | number>,
-    retry?: boolean,
+    signal?: AbortSignal,
   ): Promise<T> {
-    try {
-      if (!this.client.token) throw new Error("Token is required");
-
-      const authHeader = this.client.bot ? "X-Bot-Token" : "X-Session-Token";
-      const config: AxiosRequestConfig & { url: string } = {
-        ...{
-          method,
-          url: `${this.client.options.rest?.instanceCDNURL}${url}`,
-          params: query,
-          data,
-          maxBodyLength: Infinity,
-          headers: {
-            [authHeader]: this.client.token,
-            "Content-Type": "multipart/form-data",
-            "User-Agent": `StoatBot.js/${version}`,
-            ...data.getHeaders(),
+    if (!this.client.token) throw new Error("Token is required");
+
+    signal = anySignal([this.controller.signal, signal]);
+    const authHeader = this.client.bot ? "X-Bot-Token" : "X-Session-Token";
+    const config: HTTPRequest = {
+      method,
+      url: `${this.client.options.rest?.instanceCDNURL}${url}`,
+      query,
+      body: data,
+      headers: {
+        [authHeader]: this.client.token,
+        "User-Agent": `StoatBot.js/${version}`,
+        ...data.getHeaders(),
+      },
+      signal,
+    };
+
+    const route = RateLimitQueue.route(method, url);
+    const logger = this.client.logger;
+    if (process.env.NODE_ENV === "DEV") {
+      logger.debug("Sending request", {
+        component: "cdn",
+        route,
+        url: config.url,
+        query,
+      });
+    }
+
+    const retries = this.client.options.rest?.retries ?? 3;
+    for (let attempt = 0; ; attempt++) {
+      const info = { method, path: url, body: data, retries: attempt };
+      try {
+        return await this.interceptors.dispatch<T>(
+          this.client,
+          this.rateLimitQueue,
+          this.transport,
+          {
+            method,
+            route,
+            path: url,
+            attempt,
+            config: { ...config, headers: { ...config.headers } },
           },
-        },
-        url: `${this.client.options.rest?.instanceCDNURL}${url}`,
-      };
-
-      if (process.env.NODE_ENV === "DEV") {
-        console.info("Request Data:", data);
-        console.info("Request Query:", query);
-        console.info("Request URL:", config.url);
-      }
+        );
+      } catch (error) {
+        const apiError = StoatAPIError.from(error, info);
 
-      // Use the rate limit queue for all requests
-      const response: AxiosResponse<T> =
-        await this.rateLimitQueue.request<T>(config);
-      return response.data;
-    } catch (error) {
-      if (retry) throw typeof error;
-      if (error instanceof AxiosError) {
-        if (error.status && (error.status === 429 || error.status >= 500)) {
-          return this.retryRequest<T>(0, method, url, data, query);
-        }
-        if (error.status) {
-          console.error(`API call failed with status ${error.status}:`, error);
-          throw new Error(
-            `API call failed with status ${error.status}: ${error.message}`,
-          );
+        if (!apiError.retryable || attempt >= retries) {
+          logger.error("Request failed", {
+            component: "cdn",
+            route,
+            error: apiError.message,
+          });
+          throw apiError;
         }
+
+        logger.warn(`Attempt ${attempt + 1} failed`, {
+          component: "cdn",
+          route,
+          error: apiError.message,
+        });
+        // Rate limited requests already wait for their bucket to reset in the queue.
+        if (apiError instanceof RateLimitError) continue;
+        await sleep(
+          this.client.options.rest?.timeout ??
+            DEFAULT_CLIENT_OPTIONS.rest!.timeout!,
+          signal,
+        ).catch((error) => {
+          throw StoatAPIError.from(error, info);
+        });
       }
-      throw new Error(
-        `API call failed: ${error instanceof Error ? error.message : error}`,
-      );
     }
   }
 
-  private async retryRequest<T>(
-    attempt: number = 0,
-    method: "GET" | "POST" | "PATCH" | "PUT" | "DELETE",
+  /**
+   * Downloads a file, e.g. an attachment given by URL, using the client's transport.
+   *
+   * @param {string} url - The URL of the file.
+   * @param {AbortSignal} [signal] - Cancels the download when aborted.
+   * @returns {Promise<Readable>} A stream of the file's contents.
+   * @throws {StoatAPIError} Throws the matching error if the file could not be downloaded.
+   *
+   * @example
+   * ```typescript
+   * const file = await client.cdn.download("https://example.com/cat.png");
+   * file.pipe(createWriteStream("cat.png"));
+   * ```
+   */
+  download(url: string, signal?: AbortSignal): Promise<Readable> {
+    return this.track(this.fetchFile(url, signal));
+  }
+
+  /**
+   * Sends a download request.
+   * @private
+   */
+  private async fetchFile(
     url: string,
-    body?: any,
-    query?: Record<string, string | number>,
-  ): Promise<T> {
-    if (attempt >= (this.client.options.rest?.retries ?? 3)) {
-      throw new Error("Max retries reached");
-    }
+    signal?: AbortSignal,
+  ): Promise<Readable> {
+    const request = { method: "GET", path: url, retries: 0 } as const;
 
+    let response: HTTPResponse<Readable>;
     try {
-      return await this.request<T>(method, url, body, query, true);
+      response = await this.transport.request<Readable>({
+        method: "GET",
+        url,
+        headers: { "User-Agent": `StoatBot.js/${version}` },
+        responseType: "stream",
+        signal: anySignal([this.controller.signal, signal]),
+      });
     } catch (error) {
-      console.warn(`Attempt ${attempt + 1} failed:`, error);
-      await new Promise((resolve) =>
-        setTimeout(
-          resolve,
-          this.client.options.rest?.timeout ??
-            DEFAULT_CLIENT_OPTIONS.rest?.timeout,
-        ),
-      );
-      return this.retryRequest<T>(attempt + 1, method, url, body, query);
+      throw StoatAPIError.from(error, request);
     }
+
+    if (response.status >= 400) {
+      response.data.destroy();
+      throw StoatAPIError.fromResponse({ ...response, data: null }, request);
+    }
+    return response.data;
   }
+
   /**
    * POST request.
    * @param url The URL for the request.
    * @param data The request body.
+   * @param signal Cancels the upload when aborted.
    * @returns The API response.
    */
-  async post<T>(url: string, data: FormData): Promise<T> {
-    return this.request<T>("POST", url, data);
+  async post<T>(url: string, data: FormData, signal?: AbortSignal): Promise<T> {
+    return this.track(this.request<T>("POST", url, data, undefined, signal));
   }
 }
@@ -1,140 +1,298 @@
-import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from "axios";
 import { BaseClient } from "../client/baseClient";
-import { apiUrl, DEFAULT_CLIENT_OPTIONS } from "../utils";
+import { apiUrl, DEFAULT_CLIENT_OPTIONS, Events } from "../utils";
 import { version } from "../../package.json";
-import { RateLimitQueue } from "./restUtils/rateLimitQueue";
+import {
+  RateLimitBucketInfo,
+  RateLimitQueue,
+} from "./restUtils/rateLimitQueue";
+import { Interceptors } from "./restUtils/interceptors";
+import {
+  FetchTransport,
+  HTTPRequest,
+  HTTPResponse,
+  Transport,
+} from "./transport/index";
 import { ApiDiscoveryResponse } from "../utils/types";
+import {
+  ConfigurationError,
+  HTTPMethod,
+  RateLimitError,
+  StoatAPIError,
+} from "../errors/index";
+import { drain } from "./restUtils/drain";
+import { anySignal, createController, sleep } from "./restUtils/abort";
+
+/**
+ * Represents the options for a single API request.
+ *
+ * @example
+ * ```typescript
+ * await channel.messages.fetch(messageId, { timeout: 5000, retries: 0 });
+ * await server.members.kick(member, { reason: "Spamming" });
+ * ```
+ */
+export interface RequestOptions {
+  /** Cancels the request with a `RequestCancelledError` when aborted. */
+  signal?: AbortSignal;
+  /**
+   * How long to wait for the request in milliseconds, including retries and time spent waiting
+   * for a rate limit, before cancelling it with a `RequestTimeoutError`.
+   */
+  timeout?: number;
+  /** How many times to retry rate limited and server errors. Defaults to `rest.retries`, `0` disables retries. */
+  retries?: number;
+  /** How long to wait in milliseconds before retrying a server error. Defaults to `rest.timeout`. */
+  retryDelay?: number;
+  /** Extra headers to send with the request. */
+  headers?: Record<string, string>;
+  /** The reason for the action, sent URL encoded in the `X-Audit-Log-Reason` header. */
+  reason?: string;
+}
 
 export class RestClient {
-  private rateLimitQueue = new RateLimitQueue();
-  constructor(private readonly client: BaseClient) {}
+  private rateLimitQueue: RateLimitQueue;
+
+  /** The interceptors every request made by this client passes through. */
+  readonly interceptors = new Interceptors();
+
+  /** The transport used when `rest.transport` is not set. */
+  private readonly defaultTransport = new FetchTransport();
+
+  /** The requests in progress, including retries and time spent waiting for a rate limit. */
+  private readonly pending = new Set<Promise<unknown>>();
+
+  /** Aborted by `close` to cancel every request in progress. */
+  private controller = createController();
+
+  constructor(private readonly client: BaseClient) {
+    this.rateLimitQueue = new RateLimitQueue((data) =>
+      this.client.emit(Events.RATE_LIMITED, data),
+    );
+  }
 
   /**
-   * Helper function to handle API requests.
+   * Gets the number of requests in progress.
+   * @returns The number of requests that have not settled yet.
+   */
+  get inFlight(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Waits for the requests in progress to finish, then cancels any that are left with a
+   * `RequestCancelledError`. Requests made while waiting are waited for too.
+   * @param timeout How long to wait in milliseconds before cancelling. `0` cancels straight away.
+   * @returns A promise that resolves once every request has settled.
+   */
+  async close(timeout: number = 0): Promise<void> {
+    await drain(this.pending, timeout);
+    this.controller.abort(
+      new DOMException("The client was destroyed", "AbortError"),
+    );
+    this.controller = createController();
+    await Promise.allSettled(this.pending);
+  }
+
+  /**
+   * Gets a snapshot of the rate limit buckets used by this client, including how many
+   * requests are waiting on each.
+   * @returns The state of each bucket.
+   */
+  get rateLimits(): RateLimitBucketInfo[] {
+    return this.rateLimitQueue.snapshot();
+  }
+
+  /**
+   * Gets the transport requests are sent with.
+   * @returns The `rest.transport` option, or the default fetch transport.
+   */
+  get transport(): Transport {
+    return this.client.options.rest?.transport ?? this.defaultTransport;
+  }
+
+  /**
+   * Helper function to handle API requests, keeping track of them until they settle.
    * @param method The HTTP method (GET, POST, PATCH, PUT, DELETE).
    * @param url The URL for the request.
    * @param body The request body (if applicable).
    * @param query Query parameters (if applicable).
+   * @param options The options for this request.
    * @returns The API response.
+   * @throws {StoatAPIError} Throws the matching API error if the request fails.
    */
-  private async request<T>(
-    method: "GET" | "POST" | "PATCH" | "PUT" | "DELETE",
+  private request<T>(
+    method: HTTPMethod,
     url: string,
     body?: any,
     query?: Record<string, string | number>,
-    retry?: boolean,
+    options: RequestOptions = {},
   ): Promise<T> {
-    try {
-      if (!this.client.token) throw new Error("Token is required");
-
-      const authHeader = this.client.bot ? "X-Bot-Token" : "X-Session-Token";
-      const config: AxiosRequestConfig & { url: string } = {
-        ...{
-          method,
-          url: `${this.client.options.rest?.instanceURL ? this.client.options.rest?.instanceURL : apiUrl}${url}`,
-          params: query,
-          data: body?.body,
-          headers: {
-            [authHeader]: this.client.token,
-            "User-Agent": `StoatBot.js/${version}`,
+    const signal = anySignal([
+      this.controller.signal,
+      options.signal,
+      options.timeout === undefined
+        ? undefined
+        : AbortSignal.timeout(options.timeout),
+    ]);
+    const promise = this.send<T>(method, url, body, query, options, signal);
+    this.pending.add(promise);
+    const settle = () => this.pending.delete(promise);
+    promise.then(settle, settle);
+    return promise;
+  }
+
+  /**
+   * Sends an API request.
+   * Rate limited and server errors are retried up to `retries` or `rest.retries` times.
+   * @private
+   */
+  private async send<T>(
+    method: HTTPMethod,
+    url: string,
+    body: any,
+    query: Record<string, string | number> | undefined,
+    options: RequestOptions,
+    signal: AbortSignal,
+  ): Promise<T> {
+    if (!this.client.token) throw new Error("Token is required");
+
+    const authHeader = this.client.bot ? "X-Bot-Token" : "X-Session-Token";
+    const config: HTTPRequest = {
+      method,
+      url: `${this.client.options.rest?.instanceURL ? this.client.options.rest?.instanceURL : apiUrl}${url}`,
+      query,
+      body: body?.body,
+      headers: {
+        [authHeader]: this.client.token,
+        "User-Agent": `StoatBot.js/${version}`,
+        ...options.headers,
+        ...(options.reason === undefined
+          ? {}
+          : { "X-Audit-Log-Reason": encodeURIComponent(options.reason) }),
+      },
+      signal,
+    };
+    const route = RateLimitQueue.route(method, url);
+    const logger = this.client.logger;
+    if (process.env.NODE_ENV === "DEV") {
+      logger.debug("Sending request", {
+        component: "rest",
+        route,
+        url: config.url,
+        query,
+        body: body?.body,
+      });
+    }
+
+    const retries = options.retries ?? this.client.options.rest?.retries ?? 3;
+    for (let attempt = 0; ; attempt++) {
+      const info = { method, path: url, body: body?.body, retries: attempt };
+      try {
+        return await this.interceptors.dispatch<T>(
+          this.client,
+          this.rateLimitQueue,
+          this.transport,
+          {
+            method,
+            route,
+            path: url,
+            attempt,
+            config: { ...config, headers: { ...config.headers } },
           },
-        },
-        url: `${this.client.options.rest?.instanceURL ? this.client.options.rest?.instanceURL : apiUrl}${url}`,
-      };
-      if (process.env.NODE_ENV === "DEV") {
-        console.info("Request Body:", body);
-        console.info("Request Query:", query);
-        console.info("Request URL:", config.url);
-      }
-      // Use the rate limit queue for all requests
-      const response: AxiosResponse<T> =
-        await this.rateLimitQueue.request<T>(config);
-      return response.data;
-    } catch (error) {
-      if (retry) throw typeof error;
-      if (error instanceof AxiosError) {
-        if (error.status && (error.status === 429 || error.status >= 500)) {
-          return this.retryRequest<T>(0, method, url, body, query);
-        }
-        if (error.status) {
-          if (process.env.NODE_ENV === "DEV") {
-            console.error("Error details:", error);
-            console.error("Error response data:", error.response?.data);
-            console.error("Error request config:", error.config);
-            console.error("Error message:", error.message);
-            console.error("Error URL:", url);
-          }
-          throw new Error(
-            `API call failed with status ${error.status}: ${error.response?.statusText}`,
-          );
+        );
+      } catch (error) {
+        const apiError = StoatAPIError.from(error, info);
+
+        if (process.env.NODE_ENV === "DEV") {
+          logger.debug("Request failed", {
+            component: "rest",
+            route,
+            status: apiError.status,
+            data: apiError.data,
+            error: apiError,
+          });
         }
+
+        if (!apiError.retryable || attempt >= retries) throw apiError;
+
+        logger.warn(`Attempt ${attempt + 1} failed`, {
+          component: "rest",
+          route,
+          error: apiError.message,
+        });
+        // Rate limited requests already wait for their bucket to reset in the queue.
+        if (apiError instanceof RateLimitError) continue;
+        await sleep(
+          options.retryDelay ??
+            this.client.options.rest?.timeout ??
+            DEFAULT_CLIENT_OPTIONS.rest!.timeout!,
+          signal,
+        ).catch((error) => {
+          throw StoatAPIError.from(error, info);
+        });
       }
-      throw new Error(
-        `API call failed: ${error instanceof Error ? error.message : error}`,
-      );
     }
   }
 
+  /**
+   * Fetches the instance's configuration from the API root and fills in the WebSocket, CDN and
+   * voice settings that were not set in the client options.
+   * @returns A promise that resolves once the options are updated.
+   * @throws {StoatAPIError} Throws the matching API error if the request fails.
+   * @throws {ConfigurationError} Throws if the response is not a valid configuration.
+   */
   async getConfig(): Promise<void> {
+    const request = { method: "GET", path: "/", retries: 0 } as const;
+
+    let response: HTTPResponse<ApiDiscoveryResponse>;
     try {
-      const response: AxiosResponse<ApiDiscoveryResponse> = await axios.get(
-        `${this.client.options.rest?.instanceURL ? this.client.options.rest?.instanceURL : apiUrl}/`,
-      );
-      const config = response.data;
-      this.client.options.rest = {
-        ...this.client.options.rest,
-        instanceCDNURL: config.features.autumn.url,
-      };
-      this.client.options.ws = {
-        ...this.client.options.ws,
-        instanceURL: config.ws,
-      };
-      this.client.voiceOptions = {
-        ...config.features.livekit,
-      };
+      response = await this.transport.request<ApiDiscoveryResponse>({
+        method: "GET",
+        url: `${this.client.options.rest?.instanceURL ? this.client.options.rest?.instanceURL : apiUrl}/`,
+        headers: { "User-Agent": `StoatBot.js/${version}` },
+      });
     } catch (error) {
-      console.error("Failed to fetch configuration:", error);
-      process.exit(1);
+      throw StoatAPIError.from(error, request);
     }
-  }
-
-  private async retryRequest<T>(
-    attempt: number = 0,
-    method: "GET" | "POST" | "PATCH" | "PUT" | "DELETE",
-    url: string,
-    body?: any,
-    query?: Record<string, string | number>,
-  ): Promise<T> {
-    if (attempt >= (this.client.options.rest?.retries ?? 3)) {
-      throw new Error("Max retries reached");
+    if (response.status >= 400) {
+      throw StoatAPIError.fromResponse(response, request);
     }
 
-    try {
-      return await this.request<T>(method, url, body, query, true);
-    } catch (error) {
-      console.warn(`Attempt ${attempt + 1} failed:`, error);
-      await new Promise((resolve) =>
-        setTimeout(
-          resolve,
-          this.client.options.rest?.timeout ??
-            DEFAULT_CLIENT_OPTIONS.rest?.timeout,
-        ),
+    const config = response.data;
+    if (typeof config?.ws !== "string" || !config.features?.autumn?.url) {
+      throw new ConfigurationError(
+        "The API returned an invalid configuration, is rest.instanceURL the API of a Stoat instance?",
       );
-      return this.retryRequest<T>(attempt + 1, method, url, body, query);
     }
+
+    this.client.options.rest = {
+      ...this.client.options.rest,
+      instanceCDNURL:
+        this.client.options.rest?.instanceCDNURL ?? config.features.autumn.url,
+    };
+    this.client.options.ws = {
+      ...this.client.options.ws,
+      instanceURL: this.client.options.ws?.instanceURL ?? config.ws,
+    };
+    this.client.voiceOptions = {
+      ...config.features.livekit,
+      ...this.client.options.voice,
+    };
   }
 
   /**
    * GET request.
    * @param url The URL for the request.
    * @param query Query parameters (if applicable).
+   * @param options The options for this request, e.g. a signal or timeout.
    * @returns The API response.
    */
   async get<T>(
     url: string,
     query?: Record<string, string | number>,
+    options?: RequestOptions,
   ): Promise<T> {
-    return this.request<T>("GET", url, undefined, query);
+    return this.request<T>("GET", url, undefined, query, options);
   }
 
   /**
@@ -142,14 +300,16 @@ export class RestClient {
    * @param url The URL for the request.
    * @param body The request body.
    * @param query Query parameters (if applicable).
+   * @param options The options for this request, e.g. a signal or timeout.
    * @returns The API response.
    */
   async post<T>(
     url: string,
     body?: any,
     query?: Record<string, string | number>,
+    options?: RequestOptions,
   ): Promise<T> {
-    return this.request<T>("POST", url, body, query);
+    return this.request<T>("POST", url, body, query, options);
   }
 
   /**
@@ -157,14 +317,16 @@ export class RestClient {
    * @param url The URL for the request.
    * @param body The request body.
    * @param query Query parameters (if applicable).
+   * @param options The options for this request, e.g. a signal or timeout.
    * @returns The API response.
    */
   async patch<T>(
     url: string,
     body: any,
     query?: Record<string, string | number>,
+    options?: RequestOptions,
   ): Promise<T> {
-    return this.request<T>("PATCH", url, body, query);
+    return this.request<T>("PATCH", url, body, query, options);
   }
 
   /**
@@ -172,27 +334,31 @@ export class RestClient {
    * @param url The URL for the request.
    * @param body The request body.
    * @param query Query parameters (if applicable).
+   * @param options The options for this request, e.g. a signal or timeout.
    * @returns The API response.
    */
   async put<T>(
     url: string,
     body?: any,
     query?: Record<string, string | number>,
+    options?: RequestOptions,
   ): Promise<T> {
-    return this.request<T>("PUT", url, body, query);
+    return this.request<T>("PUT", url, body, query, options);
   }
 
   /**
    * DELETE request.
    * @param url The URL for the request.
    * @param query Query parameters (if applicable).
+   * @param options The options for this request, e.g. a signal or timeout.
    * @returns The API response.
    */
   async delete<T>(
     url: string,
     body?: any,
     query?: Record<string, string | number>,
+    options?: RequestOptions,
   ): Promise<T> {
-    return this.request<T>("DELETE", url, body, query);
+    return this.request<T>("DELETE", url, body, query, options);
   }
 }
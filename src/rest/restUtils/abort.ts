@@ -0,0 +1,73 @@
+import { setMaxListeners } from "node:events";
+
+/**
+ * Waits for a number of milliseconds, rejecting with the signal's reason if it is aborted first.
+ *
+ * @param {number} ms - How long to wait in milliseconds.
+ * @param {AbortSignal} [signal] - Cancels the wait.
+ * @returns {Promise<void>} A promise that resolves once the time has passed.
+ * @private
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(signal.reason);
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Waits for a promise, rejecting with the signal's reason if it is aborted first.
+ *
+ * @param {Promise<T>} promise - The promise to wait for.
+ * @param {AbortSignal} [signal] - Cancels the wait. The promise itself keeps running.
+ * @returns {Promise<T>} A promise that settles like `promise`, unless the signal is aborted first.
+ * @private
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+}
+
+/**
+ * Creates a controller for cancelling many requests at once, without warnings about the number of listeners.
+ *
+ * @returns {AbortController} The controller.
+ * @private
+ */
+export function createController(): AbortController {
+  const controller = new AbortController();
+  setMaxListeners(Infinity, controller.signal);
+  return controller;
+}
+
+/**
+ * Combines signals into one that is aborted when any of them is, with that signal's reason.
+ *
+ * @param {(AbortSignal | undefined)[]} signals - The signals to combine. Missing signals are skipped.
+ * @returns {AbortSignal} The combined signal.
+ * @private
+ */
+export function anySignal(signals: (AbortSignal | undefined)[]): AbortSignal {
+  const present = signals.filter((signal): signal is AbortSignal => !!signal);
+  return present.length === 1 ? present[0] : AbortSignal.any(present);
+}
@@ -0,0 +1,26 @@
+/**
+ * Waits for a set of promises to settle, including promises added while waiting.
+ *
+ * @param {Set<Promise<unknown>>} pending - The promises to wait for. Settled promises are expected to remove themselves.
+ * @param {number} timeout - How long to wait in milliseconds.
+ * @returns {Promise<boolean>} A promise that resolves with `true` if every promise settled in time.
+ * @private
+ */
+export async function drain(
+  pending: Set<Promise<unknown>>,
+  timeout: number,
+): Promise<boolean> {
+  const deadline = Date.now() + timeout;
+  while (pending.size) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) return false;
+
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      Promise.allSettled(pending),
+      new Promise((resolve) => (timer = setTimeout(resolve, remaining))),
+    ]);
+    clearTimeout(timer);
+  }
+  return true;
+}
@@ -0,0 +1,230 @@
+import type { BaseClient } from "../../client/baseClient";
+import { Events } from "../../utils/constants";
+import { HTTPMethod, StoatAPIError } from "../../errors/index";
+import type { HTTPRequest, Transport } from "../transport/transport";
+import { RateLimitQueue } from "./rateLimitQueue";
+
+/**
+ * Describes a REST or CDN request, as emitted with the `apiRequest` event.
+ */
+export interface APIRequestData {
+  /** The HTTP method of the request. */
+  method: HTTPMethod;
+  /** The route template of the request, e.g. `POST /channels/:id/messages`. */
+  route: string;
+  /** The path of the request, relative to the API or CDN URL. */
+  path: string;
+  /** The number of times the request has been retried so far. */
+  attempt: number;
+}
+
+/**
+ * Describes the outcome of a REST or CDN request, as emitted with the `apiResponse` event.
+ */
+export interface APIResponseData extends APIRequestData {
+  /** The HTTP status, or `null` if no response was received. */
+  status: number | null;
+  /** How long the API took to respond in milliseconds, not counting time spent waiting for a rate limit. */
+  duration: number;
+  /** The rate limit bucket from the `x-ratelimit-bucket` header, if any. */
+  bucket: string | null;
+}
+
+/**
+ * Represents a request about to be sent. Request interceptors may change its `config`.
+ */
+export interface APIRequest extends APIRequestData {
+  /** The request passed to the transport, including the URL, headers and body. */
+  config: HTTPRequest;
+}
+
+/**
+ * Represents a successful response. Response interceptors may replace its `data`.
+ */
+export interface APIResponse extends APIResponseData {
+  /** The HTTP status. */
+  status: number;
+  /** The response headers, with lower case names. */
+  headers: Record<string, string>;
+  /** The response body, returned to the caller once every interceptor has run. */
+  data: unknown;
+  /** The request this is a response to. */
+  request: APIRequest;
+}
+
+/** Called before a request is sent. */
+export type RequestInterceptor = (request: APIRequest) => void | Promise<void>;
+
+/** Called after a successful response is received. */
+export type ResponseInterceptor = (
+  response: APIResponse,
+) => void | Promise<void>;
+
+/** Called whenever an attempt at a request fails, including attempts that are retried. */
+export type ErrorInterceptor = (
+  error: StoatAPIError,
+  request: APIRequest,
+) => void | Promise<void>;
+
+/**
+ * Represents the interceptor pipeline of a REST or CDN client.
+ *
+ * Interceptors run in the order they were added for every attempt at a request, so a retried
+ * request passes through them again. An error thrown by an interceptor fails the request.
+ *
+ * @example
+ * ```typescript
+ * client.api.interceptors.onRequest((request) => {
+ *   request.config.headers = { ...request.config.headers, "X-Trace-Id": randomUUID() };
+ * });
+ * client.api.interceptors.onError((error, request) => {
+ *   console.warn(`${request.route} failed with ${error.status}`);
+ * });
+ * ```
+ */
+export class Interceptors {
+  private requestHandlers: RequestInterceptor[] = [];
+  private responseHandlers: ResponseInterceptor[] = [];
+  private errorHandlers: ErrorInterceptor[] = [];
+
+  /**
+   * Adds an interceptor that can change a request before it is sent.
+   *
+   * @param {RequestInterceptor} handler - The interceptor to add.
+   * @returns {() => void} A function that removes the interceptor.
+   */
+  onRequest(handler: RequestInterceptor): () => void {
+    return add(this.requestHandlers, handler);
+  }
+
+  /**
+   * Adds an interceptor that observes successful responses.
+   *
+   * @param {ResponseInterceptor} handler - The interceptor to add.
+   * @returns {() => void} A function that removes the interceptor.
+   */
+  onResponse(handler: ResponseInterceptor): () => void {
+    return add(this.responseHandlers, handler);
+  }
+
+  /**
+   * Adds an interceptor that observes failed requests.
+   *
+   * @param {ErrorInterceptor} handler - The interceptor to add.
+   * @returns {() => void} A function that removes the interceptor.
+   */
+  onError(handler: ErrorInterceptor): () => void {
+    return add(this.errorHandlers, handler);
+  }
+
+  /**
+   * Sends one attempt at a request through the interceptors and the rate limit queue,
+   * emitting `apiRequest` and `apiResponse` on the client.
+   *
+   * @param {BaseClient} client - The client to emit events on.
+   * @param {RateLimitQueue} queue - The rate limit queue to send the request through.
+   * @param {Transport} transport - The transport to send the request with.
+   * @param {APIRequest} request - The request to send.
+   * @returns {Promise<T>} The response body.
+   * @throws {StoatAPIError} Throws the matching API error if the request fails.
+   * @private
+   */
+  async dispatch<T>(
+    client: BaseClient,
+    queue: RateLimitQueue,
+    transport: Transport,
+    request: APIRequest,
+  ): Promise<T> {
+    const { method, route, path, attempt } = request;
+    const info = { method, path, body: request.config.body, retries: attempt };
+    let started = Date.now();
+    let sent = false;
+
+    let result: APIResponse;
+    try {
+      for (const handler of [...this.requestHandlers]) await handler(request);
+      client.emit(Events.API_REQUEST, { method, route, path, attempt });
+
+      const response = await queue.request(
+        route,
+        () => {
+          started = Date.now();
+          sent = true;
+          return transport.request(request.config);
+        },
+        request.config.signal,
+      );
+
+      result = {
+        method,
+        route,
+        path,
+        attempt,
+        status: response.status,
+        duration: Date.now() - started,
+        bucket: response.headers["x-ratelimit-bucket"] ?? null,
+        headers: response.headers,
+        data: response.data,
+        request,
+      };
+    } catch (error) {
+      if (sent) {
+        client.emit(Events.API_RESPONSE, {
+          method,
+          route,
+          path,
+          attempt,
+          status: null,
+          duration: Date.now() - started,
+          bucket: null,
+        });
+      }
+      throw await this.fail(StoatAPIError.from(error, info), request);
+    }
+
+    client.emit(Events.API_RESPONSE, {
+      method,
+      route,
+      path,
+      attempt,
+      status: result.status,
+      duration: result.duration,
+      bucket: result.bucket,
+    });
+
+    if (result.status >= 400) {
+      throw await this.fail(StoatAPIError.fromResponse(result, info), request);
+    }
+
+    for (const handler of [...this.responseHandlers]) await handler(result);
+    return result.data as T;
+  }
+
+  /**
+   * Runs the error interceptors for a failed request.
+   * @returns The error to throw.
+   * @private
+   */
+  private async fail(
+    error: StoatAPIError,
+    request: APIRequest,
+  ): Promise<StoatAPIError> {
+    for (const handler of [...this.errorHandlers]) {
+      await handler(error, request);
+    }
+    return error;
+  }
+}
+
+/**
+ * Adds a handler to a list.
+ * @returns A function that removes the handler.
+ * @private
+ */
+function add<T>(handlers: T[], handler: T): () => void {
+  handlers.push(handler);
+  return () => {
+    const index = handlers.indexOf(handler);
+    if (index !== -1) handlers.splice(index, 1);
+  };
+}
@@ -1,102 +1,273 @@
-import axios, { AxiosRequestConfig, AxiosResponse } from "axios";
+import type { HTTPResponse } from "../transport/transport";
+import { abortable, sleep } from "./abort";
 
-interface RateLimitInfo {
+/**
+ * Represents a request that has to wait for a rate limit to reset.
+ */
+export interface RateLimitData {
+  /** The bucket that is exhausted, or `global` for a global limit. */
+  bucket: string;
+  /** The route template of the request, e.g. `POST /channels/:id/messages`. */
+  route: string;
+  /** The number of requests allowed per window. */
   limit: number;
-  remaining: number;
-  resetAfter: number; // epoch ms
+  /** How long the request waits in milliseconds. */
+  timeout: number;
+  /** Whether the limit applies to every route. */
+  global: boolean;
+}
+
+/**
+ * Represents a snapshot of one rate limit bucket.
+ */
+export interface RateLimitBucketInfo {
+  /** The bucket ID from the `x-ratelimit-bucket` header. */
   bucket: string;
-  resetIn: number; // ms until reset
+  /** The route templates known to use this bucket. */
+  routes: string[];
+  /** The number of requests allowed per window. */
+  limit: number;
+  /** The number of requests left in the current window. */
+  remaining: number;
+  /** The timestamp the window resets at, in milliseconds. */
+  resetAt: number;
+  /** The number of requests waiting for this bucket. */
+  queued: number;
 }
 
-interface BucketState extends RateLimitInfo {
-  queue: Array<() => void>;
-  resetTimeout?: NodeJS.Timeout;
-  lastPath: string;
+/** The state of a rate limit bucket. */
+interface BucketState {
+  bucket: string;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+  queued: number;
+  /** Settles once the previous request has reserved its slot. */
+  tail: Promise<void>;
 }
 
+const ID_SEGMENT = /^[0-9A-HJKMNP-TV-Z]{26}$/;
+
+/**
+ * Throttles requests according to the API's rate limit buckets.
+ *
+ * Routes are reduced to templates (IDs replaced with `:id`) and mapped to the bucket named in
+ * the `x-ratelimit-bucket` header, so requests to different channels share the same state.
+ * Requests in a bucket reserve their slot in order and wait once `x-ratelimit-remaining` runs out,
+ * and a 429 response blocks the bucket, or every bucket if it has none, for its retry-after.
+ * Errors are passed back to the caller, and requests still waiting when their signal is aborted
+ * are rejected with its reason.
+ */
 export class RateLimitQueue {
-  private bucketMap: Map<string, BucketState> = new Map();
-  private pathToBucket: Map<string, string> = new Map();
-
-  async request<T = any>(
-    config: AxiosRequestConfig & { url: string },
-  ): Promise<AxiosResponse<T>> {
-    const path = config.url!;
-    const bucketId = this.pathToBucket.get(path);
-    let bucket = bucketId ? this.bucketMap.get(bucketId) : undefined;
-
-    if (bucket && bucket.remaining <= 0 && Date.now() < bucket.resetAfter) {
-      // Rate limited, queue the request
-      return new Promise<AxiosResponse<T>>((resolve, reject) => {
-        bucket!.queue.push(async () => {
-          try {
-            const res = await this._doRequest<T>(config, path);
-            resolve(res);
-          } catch (e) {
-            console.error(e);
-          }
-        });
-      });
-    } else {
-      // Not rate limited, do the request
-      return this._doRequest<T>(config, path);
+  /** The bucket states, keyed by bucket ID. */
+  private buckets: Map<string, BucketState> = new Map();
+
+  /** The bucket ID of each route template. */
+  private routeToBucket: Map<string, string> = new Map();
+
+  /** The timestamp a global rate limit resets at, in milliseconds. */
+  private globalResetAt = 0;
+
+  /**
+   * Creates a new RateLimitQueue instance.
+   *
+   * @param {(data: RateLimitData) => void} [onRateLimit] - Called whenever a request has to wait.
+   */
+  constructor(private readonly onRateLimit?: (data: RateLimitData) => void) {}
+
+  /**
+   * Reduces a request to its route template.
+   *
+   * @param {string} method - The HTTP method.
+   * @param {string} path - The path of the request.
+   * @returns {string} The route template, e.g. `PUT /channels/:id/messages/:id/reactions/:emoji`.
+   */
+  static route(method: string, path: string): string {
+    const segments = path.split("?")[0].split("/");
+    const template = segments.map((segment, i) => {
+      if (segments[i - 1] === "reactions") return ":emoji";
+      return ID_SEGMENT.test(segment) ? ":id" : segment;
+    });
+    return `${method.toUpperCase()} ${template.join("/")}`;
+  }
+
+  /**
+   * Gets a snapshot of every known bucket.
+   *
+   * @returns {RateLimitBucketInfo[]} The state of each bucket.
+   */
+  snapshot(): RateLimitBucketInfo[] {
+    return [...this.buckets.values()].map((state) => ({
+      bucket: state.bucket,
+      routes: [...this.routeToBucket]
+        .filter(([, bucket]) => bucket === state.bucket)
+        .map(([route]) => route),
+      limit: state.limit,
+      remaining: state.remaining,
+      resetAt: state.resetAt,
+      queued: state.queued,
+    }));
+  }
+
+  /**
+   * Makes a request once its bucket allows it.
+   *
+   * @param {string} route - The route template of the request.
+   * @param {() => Promise<HTTPResponse<T>>} send - Sends the request.
+   * @param {AbortSignal} [signal] - Cancels the request while it is waiting for its bucket.
+   * @returns {Promise<HTTPResponse<T>>} A promise that resolves with the response, whatever its status.
+   * @throws Rethrows the error if no response was received, or the signal's reason if it is aborted while waiting.
+   */
+  async request<T = unknown>(
+    route: string,
+    send: () => Promise<HTTPResponse<T>>,
+    signal?: AbortSignal,
+  ): Promise<HTTPResponse<T>> {
+    const state = this.bucketFor(route);
+    const release = await this.acquire(state, route, signal);
+
+    try {
+      const response = await send();
+      this.update(route, response);
+      return response;
+    } finally {
+      release();
     }
   }
 
-  private async _doRequest<T>(
-    config: AxiosRequestConfig,
-    path: string,
-  ): Promise<AxiosResponse<T>> {
-    const response = await axios(config);
-    this._updateRateLimit(path, response);
-    return response;
+  /**
+   * Gets the bucket for a route, using a placeholder named after the route until the
+   * API says which bucket it belongs to.
+   * @private
+   */
+  private bucketFor(route: string): BucketState {
+    const id = this.routeToBucket.get(route) ?? route;
+    let state = this.buckets.get(id);
+    if (!state) {
+      state = {
+        bucket: id,
+        limit: Infinity,
+        remaining: Infinity,
+        resetAt: 0,
+        queued: 0,
+        tail: Promise.resolve(),
+      };
+      this.buckets.set(id, state);
+    }
+    return state;
+  }
+
+  /**
+   * Waits for a slot in the bucket. Requests reserve their slot in the order they were made.
+   * Until the bucket's limits are known, or after a window resets, the next request also waits
+   * for the previous response.
+   * @returns A function to call once the response has been received.
+   * @private
+   */
+  private async acquire(
+    state: BucketState,
+    route: string,
+    signal?: AbortSignal,
+  ): Promise<() => void> {
+    const previous = state.tail;
+    let release!: () => void;
+    state.tail = new Promise((resolve) => (release = resolve));
+    state.queued++;
+
+    let known = true;
+    let started = false;
+    try {
+      await abortable(previous, signal);
+      started = true;
+
+      const globalWait = this.globalResetAt - Date.now();
+      if (globalWait > 0) {
+        this.onRateLimit?.({
+          bucket: "global",
+          route,
+          limit: state.limit,
+          timeout: globalWait,
+          global: true,
+        });
+        await sleep(globalWait, signal);
+      }
+
+      if (state.remaining <= 0) {
+        const wait = state.resetAt - Date.now();
+        if (wait > 0) {
+          this.onRateLimit?.({
+            bucket: state.bucket,
+            route,
+            limit: state.limit,
+            timeout: wait,
+            global: false,
+          });
+          await sleep(wait, signal);
+        }
+        // The new window is unknown until this request's response arrives.
+        state.remaining = state.limit;
+        known = false;
+      }
+
+      state.remaining--;
+      known &&= Number.isFinite(state.limit);
+    } finally {
+      state.queued--;
+      // A request cancelled while queued still holds its place until the one before it is done.
+      if (!started) void previous.then(release);
+      else if (known) release();
+    }
+
+    return known ? () => {} : release;
   }
 
-  private _updateRateLimit(path: string, response: AxiosResponse) {
+  /**
+   * Updates a bucket from the rate limit headers of a response.
+   * @private
+   */
+  private update(route: string, response: HTTPResponse): void {
     const headers = response.headers;
+    const bucket = headers["x-ratelimit-bucket"] as string | undefined;
     const limit = parseInt(headers["x-ratelimit-limit"]);
     const remaining = parseInt(headers["x-ratelimit-remaining"]);
-    const resetAfter =
-      parseFloat(headers["x-ratelimit-reset-after"]) * 1000 + Date.now();
-    const bucket = headers["x-ratelimit-bucket"];
-    const resetIn = parseInt(headers["x-ratelimit-reset-after"]);
+    const resetAfter = parseFloat(headers["x-ratelimit-reset-after"]);
+    const retryAfter = Number(
+      (response.data as { retry_after?: unknown } | undefined)?.retry_after,
+    );
+
+    if (response.status === 429 && !bucket) {
+      const wait = Number.isFinite(retryAfter) ? retryAfter : resetAfter;
+      if (Number.isFinite(wait)) this.globalResetAt = Date.now() + wait;
+      return;
+    }
 
     if (!bucket) return;
-    this.pathToBucket.set(path, bucket);
-    let state = this.bucketMap.get(bucket);
+
+    const placeholder = this.buckets.get(route);
+    this.routeToBucket.set(route, bucket);
+
+    let state = this.buckets.get(bucket);
     if (!state) {
-      state = {
-        limit,
-        remaining,
-        resetAfter,
-        bucket,
-        resetIn,
-        queue: [],
-        lastPath: path,
-      };
-      this.bucketMap.set(bucket, state);
-    } else {
-      state.limit = limit;
-      state.remaining = remaining;
-      state.resetAfter = resetAfter;
-      state.lastPath = path;
+      state = placeholder ?? this.bucketFor(bucket);
+      state.bucket = bucket;
+      this.buckets.set(bucket, state);
+    }
+    if (placeholder && placeholder !== state) {
+      // Later requests for the route wait behind the placeholder's queue.
+      const tail = placeholder.tail;
+      state.tail = Promise.all([state.tail, tail]).then(() => undefined);
     }
+    if (placeholder) this.buckets.delete(route);
 
-    if (remaining <= 0) {
-      if (state.resetTimeout) clearTimeout(state.resetTimeout);
-      const delay = resetIn;
-      state.resetTimeout = setTimeout(() => {
-        state.remaining = state.limit;
-        state.resetTimeout = undefined;
-        // Process queued requests
-        while (state.queue.length > 0 && state.remaining > 0) {
-          const fn = state.queue.shift();
-          if (fn) {
-            state.remaining--;
-            fn();
-          }
-        }
-      }, delay);
+    if (Number.isFinite(limit)) state.limit = limit;
+    if (Number.isFinite(remaining)) state.remaining = remaining;
+    if (Number.isFinite(resetAfter)) state.resetAt = Date.now() + resetAfter;
+
+    if (response.status === 429) {
+      state.remaining = 0;
+      if (Number.isFinite(retryAfter)) {
+        state.resetAt = Date.now() + retryAfter;
+      }
     }
   }
 }
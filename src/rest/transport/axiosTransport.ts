@@ -0,0 +1,58 @@
+import type { AxiosInstance } from "axios";
+import type { HTTPRequest, HTTPResponse, Transport } from "./transport";
+
+/**
+ * Represents a transport using axios.
+ * axios is an optional dependency and is only loaded when the first request is sent,
+ * unless an instance is given.
+ *
+ * @implements Transport
+ *
+ * @example
+ * ```typescript
+ * const bot = new client({ rest: { transport: new AxiosTransport() } });
+ * ```
+ */
+export class AxiosTransport implements Transport {
+  /**
+   * Creates a new AxiosTransport instance.
+   *
+   * @param {AxiosInstance} [instance] - The axios instance to use, e.g. one with a proxy or custom agents. Defaults to the global instance.
+   */
+  constructor(private instance?: AxiosInstance) {}
+
+  async request<T = unknown>(request: HTTPRequest): Promise<HTTPResponse<T>> {
+    this.instance ??= (await import("axios")).default;
+
+    const response = await this.instance
+      .request({
+        method: request.method,
+        url: request.url,
+        params: request.query,
+        headers: request.headers,
+        data: request.body,
+        responseType: request.responseType === "stream" ? "stream" : "json",
+        maxBodyLength: Infinity,
+        validateStatus: () => true,
+        signal: request.signal,
+      })
+      .catch((error) => {
+        // axios rejects with its own `CanceledError`, which drops the abort reason.
+        throw request.signal?.aborted ? request.signal.reason : error;
+      });
+
+    const headers: Record<string, string> = {};
+    for (const [key, value] of Object.entries(response.headers)) {
+      if (value === undefined || value === null) continue;
+      headers[key.toLowerCase()] = Array.isArray(value)
+        ? value.join(", ")
+        : String(value);
+    }
+
+    return {
+      status: response.status,
+      headers,
+      data: (response.data === "" ? undefined : response.data) as T,
+    };
+  }
+}
@@ -0,0 +1,97 @@
+import { PassThrough, Readable, Stream } from "node:stream";
+import type { HTTPRequest, HTTPResponse, Transport } from "./transport";
+
+/**
+ * Represents a transport using the global `fetch`. This is the default transport.
+ *
+ * @implements Transport
+ */
+export class FetchTransport implements Transport {
+  /**
+   * Creates a new FetchTransport instance.
+   *
+   * @param {typeof fetch} [fetchImpl=fetch] - The `fetch` implementation to use, e.g. one from `undici` with a proxy dispatcher.
+   */
+  constructor(private readonly fetchImpl: typeof fetch = fetch) {}
+
+  async request<T = unknown>(request: HTTPRequest): Promise<HTTPResponse<T>> {
+    const url = new URL(request.url);
+    for (const [key, value] of Object.entries(request.query ?? {})) {
+      url.searchParams.append(key, String(value));
+    }
+
+    const headers = { ...request.headers };
+    let body: BodyInit | undefined;
+    let stream = false;
+
+    if (request.body === undefined || request.body === null) {
+      body = undefined;
+    } else if (
+      typeof request.body === "string" ||
+      request.body instanceof Uint8Array ||
+      request.body instanceof Blob ||
+      request.body instanceof FormData ||
+      request.body instanceof URLSearchParams
+    ) {
+      body = request.body as BodyInit;
+    } else if (request.body instanceof Stream) {
+      // form-data is a legacy stream, so it is piped into a Readable first.
+      const readable =
+        request.body instanceof Readable
+          ? request.body
+          : request.body.pipe(new PassThrough());
+      body = Readable.toWeb(readable) as unknown as BodyInit;
+      stream = true;
+    } else {
+      body = JSON.stringify(request.body);
+      if (!hasHeader(headers, "content-type")) {
+        headers["Content-Type"] = "application/json";
+      }
+    }
+
+    const response = await this.fetchImpl(url, {
+      method: request.method,
+      headers,
+      body,
+      signal: request.signal,
+      ...(stream ? { duplex: "half" } : {}),
+    } as RequestInit);
+
+    return {
+      status: response.status,
+      headers: Object.fromEntries(response.headers.entries()),
+      data: (await readBody(response, request.responseType)) as T,
+    };
+  }
+}
+
+/**
+ * Checks whether a header is set, ignoring case.
+ * @private
+ */
+function hasHeader(headers: Record<string, string>, name: string): boolean {
+  return Object.keys(headers).some((key) => key.toLowerCase() === name);
+}
+
+/**
+ * Reads a response body as requested.
+ * @private
+ */
+async function readBody(
+  response: Response,
+  responseType: HTTPRequest["responseType"],
+): Promise<unknown> {
+  if (responseType === "stream") {
+    return response.body
+      ? Readable.fromWeb(response.body as any)
+      : Readable.from([]);
+  }
+
+  const text = await response.text();
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
@@ -0,0 +1,3 @@
+export * from "./transport";
+export * from "./fetchTransport";
+export * from "./axiosTransport";
@@ -0,0 +1,60 @@
+import type { HTTPMethod } from "../../errors/index";
+
+/**
+ * Represents an HTTP request handed to a transport.
+ */
+export interface HTTPRequest {
+  /** The HTTP method of the request. */
+  method: HTTPMethod;
+  /** The absolute URL of the request, without the query string. */
+  url: string;
+  /** The query parameters to append to the URL. */
+  query?: Record<string, string | number>;
+  /** The request headers. */
+  headers: Record<string, string>;
+  /**
+   * The request body. Strings, buffers and streams (including `form-data` instances) are sent as they are,
+   * anything else is sent as JSON.
+   */
+  body?: unknown;
+  /** How the response body is read. `json` falls back to text if the body is not JSON. Defaults to `json`. */
+  responseType?: "json" | "stream";
+  /** Aborts the request, e.g. when the client is destroyed. Transports should reject with `signal.reason`. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Represents an HTTP response returned by a transport.
+ */
+export interface HTTPResponse<T = unknown> {
+  /** The HTTP status. */
+  status: number;
+  /** The response headers, with lower case names. */
+  headers: Record<string, string>;
+  /** The response body, or a `Readable` if the request asked for a stream. */
+  data: T;
+}
+
+/**
+ * Represents the HTTP client every REST, CDN and download request goes through.
+ *
+ * Transports resolve with the response whatever its status, and only reject if no response was received.
+ * Set one with `clientOptions.rest.transport` to use a different HTTP client, add a proxy agent or fake
+ * responses in tests.
+ *
+ * @example
+ * ```typescript
+ * const bot = new client({
+ *   rest: { transport: new AxiosTransport(axios.create({ proxy: false, httpsAgent })) },
+ * });
+ * ```
+ */
+export interface Transport {
+  /**
+   * Sends a request.
+   *
+   * @param {HTTPRequest} request - The request to send.
+   * @returns {Promise<HTTPResponse<T>>} A promise that resolves with the response.
+   */
+  request<T = unknown>(request: HTTPRequest): Promise<HTTPResponse<T>>;
+}
@@ -7,6 +7,11 @@ import {
   MessageOptions,
   MessageResolvable,
 } from "../index";
+import {
+  AwaitCollectorOptions,
+  MessageCollector,
+  MessageCollectorOptions,
+} from "../collectors/index";
 import { ChannelTypes, DEFAULT_PERMISSION_DM } from "../utils/index";
 
 type APIDirectChannel = Extract<APIChannel, { channel_type: "DirectMessage" }>;
@@ -100,4 +105,46 @@ export class DMChannel extends Channel implements TextBasedChannel {
   send(options: MessageOptions | string): Promise<MessageStruct> {
     return this.messages.send(options);
   }
+
+  /**
+   * Creates a collector for messages sent in this DM channel.
+   *
+   * @param {MessageCollectorOptions} [options={}] - The options for the collector.
+   * @returns {MessageCollector} The running collector.
+   *
+   * @example
+   * ```typescript
+   * const collector = dmChannel.createMessageCollector({ time: 60_000 });
+   * collector.on("collect", (message) => console.log(message.content));
+   * ```
+   */
+  createMessageCollector(
+    options: MessageCollectorOptions = {},
+  ): MessageCollector {
+    return new MessageCollector(this, options);
+  }
+
+  /**
+   * Waits for messages to be sent in this DM channel.
+   *
+   * @param {AwaitCollectorOptions<MessageStruct>} [options={}] - The options for the collector.
+   * @returns {Promise<Map<string, MessageStruct>>} A promise that resolves with the collected messages.
+   * Rejects with the collected messages if the collector ends for a reason listed in `options.errors`.
+   *
+   * @example
+   * ```typescript
+   * await dmChannel.send("What is your favourite colour?");
+   * const replies = await dmChannel.awaitMessages({
+   *   filter: (m) => m.authorId === userId,
+   *   max: 1,
+   *   time: 30_000,
+   *   errors: ["time"],
+   * });
+   * ```
+   */
+  awaitMessages(
+    options: AwaitCollectorOptions<MessageStruct> = {},
+  ): Promise<Map<string, MessageStruct>> {
+    return this.createMessageCollector(options).toPromise(options.errors);
+  }
 }
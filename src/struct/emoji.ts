@@ -1,3 +1,4 @@
+import type { Emoji as APIEmoji } from "revolt-api";
 import { Base } from "./base";
 import { client } from "../client/client";
 
@@ -7,7 +8,7 @@ import { client } from "../client/client";
  * @extends Base
  */
 export class Emoji extends Base {
-  /** The parent object of the emoji, which can be a server or other entity. */
+  /** The server that owns the emoji, or `null` if the emoji is detached from its server. */
   parent?: { type: string; id: string } | null = null;
 
   /** The ID of the user who created the emoji, or `null` if not available. */
@@ -20,13 +21,32 @@ export class Emoji extends Base {
    * Creates a new Emoji instance.
    *
    * @param {client} client - The client instance.
-   * @param {Emoji} data - The raw data for the emoji.
+   * @param {APIEmoji} data - The raw data for the emoji.
    */
-  constructor(client: client, data: Emoji) {
+  constructor(client: client, data: APIEmoji) {
     super(client);
     this._patch(data);
   }
 
+  /**
+   * Updates the emoji instance with new data from the API.
+   *
+   * @param {Partial<APIEmoji>} data - The raw data for the emoji from the API.
+   * @returns {this} The updated emoji instance.
+   * @protected
+   */
+  protected _patch(data: Partial<APIEmoji>): this {
+    super._patch(data);
+
+    if (data.parent) {
+      this.parent = data.parent.type === "Server" ? { ...data.parent } : null;
+    }
+    if (data.creator_id) this.creator_id = data.creator_id;
+    if (data.name) this.name = data.name;
+
+    return this;
+  }
+
   /**
    * Retrieves the user who created the emoji.
    *
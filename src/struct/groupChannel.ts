@@ -8,6 +8,11 @@ import {
   MessageResolvable,
   UserResolvable,
 } from "../managers/index.js";
+import {
+  AwaitCollectorOptions,
+  MessageCollector,
+  MessageCollectorOptions,
+} from "../collectors/index";
 import { ChannelPermissions, ChannelTypes } from "../utils/index";
 import { AudioPlayer } from "../client/player";
 
@@ -223,6 +228,48 @@ export class GroupChannel extends Channel implements TextBasedChannel {
     return this.messages.send(options);
   }
 
+  /**
+   * Creates a collector for messages sent in this group channel.
+   *
+   * @param {MessageCollectorOptions} [options={}] - The options for the collector.
+   * @returns {MessageCollector} The running collector.
+   *
+   * @example
+   * ```typescript
+   * const collector = groupChannel.createMessageCollector({ time: 60_000 });
+   * collector.on("collect", (message) => console.log(message.content));
+   * ```
+   */
+  createMessageCollector(
+    options: MessageCollectorOptions = {},
+  ): MessageCollector {
+    return new MessageCollector(this, options);
+  }
+
+  /**
+   * Waits for messages to be sent in this group channel.
+   *
+   * @param {AwaitCollectorOptions<MessageStruct>} [options={}] - The options for the collector.
+   * @returns {Promise<Map<string, MessageStruct>>} A promise that resolves with the collected messages.
+   * Rejects with the collected messages if the collector ends for a reason listed in `options.errors`.
+   *
+   * @example
+   * ```typescript
+   * await groupChannel.send("What is your favourite colour?");
+   * const replies = await groupChannel.awaitMessages({
+   *   filter: (m) => m.authorId === userId,
+   *   max: 1,
+   *   time: 30_000,
+   *   errors: ["time"],
+   * });
+   * ```
+   */
+  awaitMessages(
+    options: AwaitCollectorOptions<MessageStruct> = {},
+  ): Promise<Map<string, MessageStruct>> {
+    return this.createMessageCollector(options).toPromise(options.errors);
+  }
+
   /**
    * Creates and connects an AudioPlayer to this voice channel in one step.
    * This is a convenience method that combines createPlayer() and connect().
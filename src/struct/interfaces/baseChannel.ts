@@ -1,4 +1,7 @@
 import type {
+  AwaitCollectorOptions,
+  MessageCollector,
+  MessageCollectorOptions,
   MessageStruct,
   MessageManager,
   MessageOptions,
@@ -45,4 +48,27 @@ export interface TextBasedChannel {
   bulkDelete(
     messages: MessageResolvable[] | Map<string, MessageStruct> | number,
   ): Promise<void>;
+
+  /**
+   * Creates a collector for messages sent in the channel.
+   *
+   * @param {MessageCollectorOptions} [options] - The options for the collector.
+   * @returns {MessageCollector} The running collector.
+   */
+  createMessageCollector(options?: MessageCollectorOptions): MessageCollector;
+
+  /**
+   * Waits for messages to be sent in the channel.
+   *
+   * @param {AwaitCollectorOptions<MessageStruct>} [options] - The options for the collector.
+   * @returns {Promise<Map<string, MessageStruct>>} A promise that resolves with the collected messages.
+   *
+   * @example
+   * ```typescript
+   * const replies = await channel.awaitMessages({ max: 1, time: 30_000 });
+   * ```
+   */
+  awaitMessages(
+    options?: AwaitCollectorOptions<MessageStruct>,
+  ): Promise<Map<string, MessageStruct>>;
 }
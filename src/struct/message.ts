@@ -18,6 +18,12 @@ import {
   User,
   VoiceChannel,
 } from "./index";
+import {
+  AwaitCollectorOptions,
+  CollectedReaction,
+  ReactionCollector,
+  ReactionCollectorOptions,
+} from "../collectors/index";
 import { ChannelTypes, UUID } from "../utils/index";
 
 /**
@@ -342,6 +348,46 @@ export class MessageStruct extends Base {
     return this.channel.messages.removeAllReactions(this);
   }
 
+  /**
+   * Creates a collector for reactions added to the message.
+   *
+   * @param {ReactionCollectorOptions} [options={}] - The options for the collector.
+   * @returns {ReactionCollector} The running collector.
+   *
+   * @example
+   * ```typescript
+   * const collector = message.createReactionCollector({ time: 60_000 });
+   * collector.on("collect", (r) => console.log(`${r.userId} reacted with ${r.emojiId}`));
+   * ```
+   */
+  createReactionCollector(
+    options: ReactionCollectorOptions = {},
+  ): ReactionCollector {
+    return new ReactionCollector(this, options);
+  }
+
+  /**
+   * Waits for reactions to be added to the message.
+   *
+   * @param {AwaitCollectorOptions<CollectedReaction>} [options={}] - The options for the collector.
+   * @returns {Promise<Map<string, CollectedReaction>>} A promise that resolves with the collected reactions.
+   * Rejects with the collected reactions if the collector ends for a reason listed in `options.errors`.
+   *
+   * @example
+   * ```typescript
+   * const reactions = await message.awaitReactions({
+   *   filter: (r) => r.userId === userId && ["👍", "👎"].includes(r.emojiId),
+   *   max: 1,
+   *   time: 30_000,
+   * });
+   * ```
+   */
+  awaitReactions(
+    options: AwaitCollectorOptions<CollectedReaction> = {},
+  ): Promise<Map<string, CollectedReaction>> {
+    return this.createReactionCollector(options).toPromise(options.errors);
+  }
+
   /**
    * Checks if the message is in a server.
    *
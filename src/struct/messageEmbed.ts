@@ -1,7 +1,6 @@
 import type { Embed as APIEmbed, Special, SendableEmbed } from "revolt-api";
 import { client } from "../client/client";
 import { Readable } from "stream";
-import axios from "axios";
 import FormData from "form-data";
 import { File } from "node:buffer";
 import { CDNAttachmentResponse } from "../utils/types";
@@ -91,10 +90,14 @@ export class MessageEmbed {
   /**
    *
    * @param client The client instance used to send the embed.
+   * @param signal Cancels the media download and upload when aborted.
    * @returns SendableEmbed
    * Converts the embed to a JSON object that can be sent to the API, including media handling.
    */
-  async toJSONWithMedia(client: client): Promise<SendableEmbed> {
+  async toJSONWithMedia(
+    client: client,
+    signal?: AbortSignal,
+  ): Promise<SendableEmbed> {
     const embed: SendableEmbed = {
       title: this.#title,
       icon_url: this.#icon_url,
@@ -107,10 +110,8 @@ export class MessageEmbed {
       let att = this.#media;
       const data = new FormData();
       if (typeof att === "string") {
-        const readableStream = (await axios.get(att, {
-          responseType: "stream",
-        })) as { data: Readable };
-        data.append("file", readableStream.data, {
+        const readableStream = await client.cdn.download(att, signal);
+        data.append("file", readableStream, {
           filename: att.split("/").pop(),
         });
       }
@@ -124,7 +125,7 @@ export class MessageEmbed {
         data.append("file", buffer, { filename: att.name });
       }
 
-      await client.cdn.post("/attachments", data).then((attachment) => {
+      await client.cdn.post("/attachments", data, signal).then((attachment) => {
         const { id } = attachment as CDNAttachmentResponse;
         embed.media = id;
       });
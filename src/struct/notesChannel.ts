@@ -7,6 +7,11 @@ import {
   MessageOptions,
   MessageResolvable,
 } from "../managers/index";
+import {
+  AwaitCollectorOptions,
+  MessageCollector,
+  MessageCollectorOptions,
+} from "../collectors/index";
 import { ChannelTypes } from "../utils/index";
 
 type APINotesChannel = Extract<APIChannel, { channel_type: "SavedMessages" }>;
@@ -72,6 +77,48 @@ export class NotesChannel extends Channel implements TextBasedChannel {
     return this.messages.send(options);
   }
 
+  /**
+   * Creates a collector for messages sent in this notes channel.
+   *
+   * @param {MessageCollectorOptions} [options={}] - The options for the collector.
+   * @returns {MessageCollector} The running collector.
+   *
+   * @example
+   * ```typescript
+   * const collector = notesChannel.createMessageCollector({ time: 60_000 });
+   * collector.on("collect", (message) => console.log(message.content));
+   * ```
+   */
+  createMessageCollector(
+    options: MessageCollectorOptions = {},
+  ): MessageCollector {
+    return new MessageCollector(this, options);
+  }
+
+  /**
+   * Waits for messages to be sent in this notes channel.
+   *
+   * @param {AwaitCollectorOptions<MessageStruct>} [options={}] - The options for the collector.
+   * @returns {Promise<Map<string, MessageStruct>>} A promise that resolves with the collected messages.
+   * Rejects with the collected messages if the collector ends for a reason listed in `options.errors`.
+   *
+   * @example
+   * ```typescript
+   * await notesChannel.send("What is your favourite colour?");
+   * const replies = await notesChannel.awaitMessages({
+   *   filter: (m) => m.authorId === userId,
+   *   max: 1,
+   *   time: 30_000,
+   *   errors: ["time"],
+   * });
+   * ```
+   */
+  awaitMessages(
+    options: AwaitCollectorOptions<MessageStruct> = {},
+  ): Promise<Map<string, MessageStruct>> {
+    return this.createMessageCollector(options).toPromise(options.errors);
+  }
+
   /**
    * Deletes multiple messages from this notes channel.
    *
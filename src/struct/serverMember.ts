@@ -3,6 +3,7 @@ import { Base } from "./base";
 import { Attachment, Server, User, Role, Presence } from "./index";
 import { client } from "../client/client";
 import { FullPermissions, Badges } from "../utils";
+import type { RequestOptions } from "../rest/restClient";
 
 /**
  * Represents a member of a server.
@@ -138,6 +139,7 @@ export class ServerMember extends Base {
    * Bans the server member.
    *
    * @param {string} [reason] - The reason for the ban.
+   * @param {RequestOptions} [options] - The options for the request, e.g. a signal or timeout.
    * @returns {Promise<void>} A promise that resolves when the member is banned.
    *
    * @example
@@ -145,22 +147,23 @@ export class ServerMember extends Base {
    * await member.ban("Violation of rules");
    * ```
    */
-  ban(reason?: string): Promise<void> {
-    return this.server.members.ban(this, reason);
+  ban(reason?: string, options?: RequestOptions): Promise<void> {
+    return this.server.members.ban(this, reason, options);
   }
 
   /**
    * Kicks the server member.
    *
+   * @param {RequestOptions} [options] - The options for the request, e.g. a reason or timeout.
    * @returns {Promise<void>} A promise that resolves when the member is kicked.
    *
    * @example
    * ```typescript
-   * await member.kick();
+   * await member.kick({ reason: "Spamming" });
    * ```
    */
-  kick(): Promise<void> {
-    return this.server.members.kick(this);
+  kick(options?: RequestOptions): Promise<void> {
+    return this.server.members.kick(this, options);
   }
 
   /**
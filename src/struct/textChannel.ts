@@ -7,6 +7,11 @@ import {
   MessageOptions,
   MessageResolvable,
 } from "../managers/index";
+import {
+  AwaitCollectorOptions,
+  MessageCollector,
+  MessageCollectorOptions,
+} from "../collectors/index";
 import { ChannelTypes } from "../utils/index";
 
 type APITextChannel = Extract<Channel, { channel_type: "TextChannel" }>;
@@ -77,6 +82,48 @@ export class TextChannel extends ServerChannel implements TextBasedChannel {
     return this.messages.send(options);
   }
 
+  /**
+   * Creates a collector for messages sent in this text channel.
+   *
+   * @param {MessageCollectorOptions} [options={}] - The options for the collector.
+   * @returns {MessageCollector} The running collector.
+   *
+   * @example
+   * ```typescript
+   * const collector = textChannel.createMessageCollector({ time: 60_000 });
+   * collector.on("collect", (message) => console.log(message.content));
+   * ```
+   */
+  createMessageCollector(
+    options: MessageCollectorOptions = {},
+  ): MessageCollector {
+    return new MessageCollector(this, options);
+  }
+
+  /**
+   * Waits for messages to be sent in this text channel.
+   *
+   * @param {AwaitCollectorOptions<MessageStruct>} [options={}] - The options for the collector.
+   * @returns {Promise<Map<string, MessageStruct>>} A promise that resolves with the collected messages.
+   * Rejects with the collected messages if the collector ends for a reason listed in `options.errors`.
+   *
+   * @example
+   * ```typescript
+   * await textChannel.send("What is your favourite colour?");
+   * const replies = await textChannel.awaitMessages({
+   *   filter: (m) => m.authorId === userId,
+   *   max: 1,
+   *   time: 30_000,
+   *   errors: ["time"],
+   * });
+   * ```
+   */
+  awaitMessages(
+    options: AwaitCollectorOptions<MessageStruct> = {},
+  ): Promise<Map<string, MessageStruct>> {
+    return this.createMessageCollector(options).toPromise(options.errors);
+  }
+
   /**
    * Deletes multiple messages from this text channel.
    *
@@ -0,0 +1,215 @@
+import type {
+  Channel,
+  Emoji,
+  Member,
+  Message,
+  Role,
+  Server,
+  User,
+} from "revolt-api";
+
+const CROCKFORD = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+let counter = 0;
+
+/**
+ * Encodes a number in Crockford base32.
+ * @private
+ */
+function encode(value: number, length: number): string {
+  let out = "";
+  for (let i = 0; i < length; i++) {
+    out = CROCKFORD[value % 32] + out;
+    value = Math.floor(value / 32);
+  }
+  return out;
+}
+
+/**
+ * Generates a unique ID in the same format as the API's ULIDs, so route templates and
+ * timestamps work as they would with real IDs. IDs generated later sort after earlier ones.
+ *
+ * @returns {string} A 26 character ID.
+ */
+export function mockId(): string {
+  return encode(Date.now(), 10) + encode(++counter, 16);
+}
+
+/**
+ * Builds a user.
+ *
+ * @param {Partial<User>} [data] - Fields to set on the user.
+ * @returns {User} The raw user.
+ *
+ * @example
+ * ```typescript
+ * const user = buildUser({ username: "alice" });
+ * ```
+ */
+export function buildUser(data: Partial<User> = {}): User {
+  const _id = data._id ?? mockId();
+  return {
+    _id,
+    username: `user-${_id.slice(-6).toLowerCase()}`,
+    discriminator: "0001",
+    relationship: "None",
+    online: true,
+    ...data,
+  };
+}
+
+/**
+ * Builds a server. Add its channels, roles and members with the other builders.
+ *
+ * @param {Partial<Server>} [data] - Fields to set on the server. `owner` should be set to an existing user.
+ * @returns {Server} The raw server.
+ */
+export function buildServer(data: Partial<Server> = {}): Server {
+  return {
+    _id: mockId(),
+    owner: mockId(),
+    name: "Test Server",
+    channels: [],
+    roles: {},
+    default_permissions: 0,
+    ...data,
+  };
+}
+
+/**
+ * Builds a channel. A text channel is built when `channel_type` is not set.
+ *
+ * @param {Partial<Channel>} [data] - Fields to set on the channel. Server channels need `server` set.
+ * @returns {Channel} The raw channel.
+ *
+ * @example
+ * ```typescript
+ * const general = buildChannel({ server: server._id, name: "general" });
+ * const dm = buildChannel({ channel_type: "DirectMessage", recipients: [bot._id, user._id] });
+ * ```
+ */
+export function buildChannel(data: Partial<Channel> = {}): Channel {
+  const _id = data._id ?? mockId();
+
+  switch (data.channel_type) {
+    case "DirectMessage":
+      return {
+        _id,
+        channel_type: "DirectMessage",
+        active: true,
+        recipients: [],
+        ...data,
+      } as Channel;
+    case "Group":
+      return {
+        _id,
+        channel_type: "Group",
+        name: "Group",
+        owner: mockId(),
+        recipients: [],
+        ...data,
+      } as Channel;
+    case "SavedMessages":
+      return {
+        _id,
+        channel_type: "SavedMessages",
+        user: mockId(),
+        ...data,
+      } as Channel;
+    case "VoiceChannel":
+      return {
+        _id,
+        channel_type: "VoiceChannel",
+        name: "voice",
+        server: mockId(),
+        ...data,
+      } as Channel;
+    default:
+      return {
+        _id,
+        channel_type: "TextChannel",
+        name: "general",
+        server: mockId(),
+        ...data,
+      } as Channel;
+  }
+}
+
+/**
+ * Builds a server member.
+ *
+ * @param {string} server - The ID of the server.
+ * @param {string} user - The ID of the user.
+ * @param {Partial<Member>} [data] - Fields to set on the member.
+ * @returns {Member} The raw member.
+ */
+export function buildMember(
+  server: string,
+  user: string,
+  data: Partial<Member> = {},
+): Member {
+  return {
+    _id: { server, user },
+    joined_at: new Date().toISOString(),
+    roles: [],
+    ...data,
+  };
+}
+
+/**
+ * Builds a role.
+ *
+ * @param {Partial<Role>} [data] - Fields to set on the role.
+ * @returns {Role} The raw role.
+ */
+export function buildRole(data: Partial<Role> = {}): Role {
+  return {
+    name: "Role",
+    permissions: { a: 0, d: 0 },
+    rank: 0,
+    ...data,
+  };
+}
+
+/**
+ * Builds a message.
+ *
+ * @param {string} channel - The ID of the channel.
+ * @param {string} author - The ID of the author.
+ * @param {Partial<Message>} [data] - Fields to set on the message.
+ * @returns {Message} The raw message.
+ */
+export function buildMessage(
+  channel: string,
+  author: string,
+  data: Partial<Message> = {},
+): Message {
+  return {
+    _id: mockId(),
+    channel,
+    author,
+    content: "",
+    ...data,
+  };
+}
+
+/**
+ * Builds a server emoji.
+ *
+ * @param {string} server - The ID of the server.
+ * @param {string} creator - The ID of the user that created the emoji.
+ * @param {Partial<Emoji>} [data] - Fields to set on the emoji.
+ * @returns {Emoji} The raw emoji.
+ */
+export function buildEmoji(
+  server: string,
+  creator: string,
+  data: Partial<Emoji> = {},
+): Emoji {
+  return {
+    _id: mockId(),
+    parent: { type: "Server", id: server },
+    creator_id: creator,
+    name: "emoji",
+    ...data,
+  };
+}
@@ -0,0 +1,5 @@
+export * from "./builders";
+export * from "./mockServer";
+export * from "./replay";
+export { MockWebSocket } from "./mockWebSocket";
+export type { MockSocketHost } from "./mockWebSocket";
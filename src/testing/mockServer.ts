@@ -0,0 +1,1420 @@
+import { AssertionError } from "node:assert";
+import { isDeepStrictEqual } from "node:util";
+import { Readable } from "node:stream";
+import type {
+  Channel,
+  Emoji,
+  Member,
+  Message,
+  Role,
+  Server,
+  User,
+  Webhook,
+} from "revolt-api";
+import type { clientOptions } from "../client/baseClient";
+import type { WebSocketConstructor } from "../client/webSocket";
+import type { HTTPMethod } from "../errors/index";
+import type {
+  HTTPRequest,
+  HTTPResponse,
+  Transport,
+} from "../rest/transport/transport";
+import { RateLimitQueue } from "../rest/restUtils/rateLimitQueue";
+import { abortable } from "../rest/restUtils/abort";
+import { WSEvents } from "../utils/constants";
+import {
+  buildChannel,
+  buildEmoji,
+  buildMember,
+  buildMessage,
+  buildRole,
+  buildServer,
+  buildUser,
+  mockId,
+} from "./builders";
+import { MockSocketHost, MockWebSocket } from "./mockWebSocket";
+
+/**
+ * Represents a request received by a `MockServer`.
+ */
+export interface MockRequest {
+  /** The HTTP method of the request. */
+  method: HTTPMethod;
+  /** The route template of the request, e.g. `POST /channels/:id/messages`. */
+  route: string;
+  /** The path of the request, without the query string. */
+  path: string;
+  /** The query parameters of the request. */
+  query: Record<string, string>;
+  /** The request headers. */
+  headers: Record<string, string>;
+  /** The request body. */
+  body: any;
+  /** The parameters captured by the route that handled the request. */
+  params: Record<string, string>;
+}
+
+/**
+ * Represents the response a route handler returns.
+ */
+export interface MockResponse {
+  /** The HTTP status. Defaults to `200`, or `204` if there is no body. */
+  status?: number;
+  /** The response body. */
+  body?: unknown;
+  /** Additional response headers. */
+  headers?: Record<string, string>;
+}
+
+/** Handles a request to a mock route. */
+export type MockRouteHandler = (
+  request: MockRequest,
+) => MockResponse | Promise<MockResponse>;
+
+/**
+ * Represents the options for a `MockServer`.
+ */
+export interface MockServerOptions {
+  /** The token the client has to log in with. Defaults to `mock-token`. */
+  token?: string;
+  /** Fields to set on the bot user. */
+  user?: Partial<User>;
+}
+
+/** A webhook along with its token. */
+type MockWebhook = Webhook & { token: string };
+
+/** A packet sent over the WebSocket. */
+type Packet = { type: string; [key: string]: unknown };
+
+interface MockRoute {
+  method: HTTPMethod;
+  segments: string[];
+  handler: MockRouteHandler;
+}
+
+/**
+ * Thrown by route handlers to respond with an error.
+ * @private
+ */
+class MockFailure {
+  constructor(
+    readonly status: number,
+    readonly type: string,
+  ) {}
+}
+
+const CDN_URL = "https://cdn.stoat.mock";
+const WS_URL = "wss://events.stoat.mock";
+
+/**
+ * Represents an in-memory Stoat server for testing bots without the network.
+ *
+ * The server answers the REST routes the managers use through `transport`, and speaks the WebSocket
+ * protocol through `WebSocket`: it authenticates the client, sends `Ready` built from its state and
+ * answers pings. Requests that change state emit the same events the real API would, so the client's
+ * caches follow along.
+ *
+ * Every request is recorded so tests can assert which calls a bot made.
+ *
+ * @implements MockSocketHost
+ *
+ * @example
+ * ```typescript
+ * import { client } from "stoatbot.js";
+ * import { MockServer } from "stoatbot.js/testing";
+ *
+ * const mock = new MockServer();
+ * const server = mock.addServer({ name: "Test" });
+ * const channel = mock.addChannel({ server: server._id });
+ * const alice = mock.addUser({ username: "alice" });
+ *
+ * const bot = new client(mock.clientOptions());
+ * bot.on("message", (message) => {
+ *   if (message.content === "!ping") message.reply("pong");
+ * });
+ * await bot.login(mock.token);
+ *
+ * mock.sendMessage(channel._id, alice._id, "!ping");
+ * await mock.waitForRequest("POST", "/channels/:id/messages");
+ * mock.expectRequest("POST", "/channels/:id/messages", { content: "pong" });
+ * ```
+ */
+export class MockServer implements MockSocketHost {
+  /** The token the client has to log in with. */
+  readonly token: string;
+
+  /** The bot user the client logs in as. */
+  readonly user: User;
+
+  /** The users known to the server, keyed by ID. */
+  readonly users = new Map<string, User>();
+
+  /** The servers, keyed by ID. */
+  readonly servers = new Map<string, Server>();
+
+  /** The channels, keyed by ID. */
+  readonly channels = new Map<string, Channel>();
+
+  /** The server members, keyed by `serverId:userId`. */
+  readonly members = new Map<string, Member>();
+
+  /** The messages, keyed by ID. */
+  readonly messages = new Map<string, Message>();
+
+  /** The server emojis, keyed by ID. */
+  readonly emojis = new Map<string, Emoji>();
+
+  /** The webhooks, keyed by ID. */
+  readonly webhooks = new Map<string, MockWebhook>();
+
+  /** The files served to downloads, keyed by URL. */
+  readonly files = new Map<string, Buffer | string>();
+
+  /** Every REST and CDN request received, oldest first. Discovery requests are not recorded. */
+  readonly requests: MockRequest[] = [];
+
+  /** Every packet received over the WebSocket, oldest first. */
+  readonly packets: Packet[] = [];
+
+  /** The open WebSocket connections. */
+  readonly sockets = new Set<MockWebSocket>();
+
+  /** The transport that answers REST, CDN and download requests. */
+  readonly transport: Transport;
+
+  /** The `WebSocket` implementation that connects to this server. */
+  readonly WebSocket: WebSocketConstructor;
+
+  /** The bans, keyed by `serverId:userId`. */
+  private bans = new Map<string, string | null>();
+
+  /** The voice channels the bot is connected to. */
+  private calls = new Set<string>();
+
+  private routes: MockRoute[] = [];
+  private waiters: {
+    match: (request: MockRequest) => boolean;
+    resolve: (request: MockRequest) => void;
+  }[] = [];
+
+  /**
+   * Creates a new MockServer instance.
+   *
+   * @param {MockServerOptions} [options={}] - The options for the server.
+   */
+  constructor(options: MockServerOptions = {}) {
+    this.token = options.token ?? "mock-token";
+    this.user = this.addUser({
+      username: "bot",
+      bot: { owner: mockId() },
+      ...options.user,
+    });
+
+    this.transport = {
+      request: (request) => abortable(this.handle(request), request.signal),
+    };
+
+    const host = this;
+    this.WebSocket = class extends MockWebSocket {
+      constructor(url: string) {
+        super(host, url);
+      }
+    };
+
+    this.defaultRoutes();
+  }
+
+  /**
+   * Gets the client options that connect a client to this server.
+   *
+   * @param {clientOptions} [options={}] - Other options to include.
+   * @returns {clientOptions} The options to create the client with.
+   */
+  clientOptions(options: clientOptions = {}): clientOptions {
+    return {
+      ...options,
+      rest: { ...options.rest, transport: this.transport },
+      ws: { ...options.ws, webSocket: this.WebSocket },
+    };
+  }
+
+  /**
+   * Adds a user. No event is emitted.
+   *
+   * @param {Partial<User>} [data] - Fields to set on the user.
+   * @returns {User} The raw user.
+   */
+  addUser(data?: Partial<User>): User {
+    const user = buildUser(data);
+    this.users.set(user._id, user);
+    return user;
+  }
+
+  /**
+   * Adds a server owned by the bot, with the bot as a member. No event is emitted.
+   *
+   * @param {Partial<Server>} [data] - Fields to set on the server.
+   * @returns {Server} The raw server.
+   */
+  addServer(data?: Partial<Server>): Server {
+    const server = buildServer({ owner: this.user._id, ...data });
+    this.servers.set(server._id, server);
+    this.addMember(server._id, this.user._id);
+    return server;
+  }
+
+  /**
+   * Adds a channel, and adds it to its server's channel list. No event is emitted.
+   *
+   * @param {Partial<Channel>} [data] - Fields to set on the channel. Server channels need `server` set.
+   * @returns {Channel} The raw channel.
+   */
+  addChannel(data?: Partial<Channel>): Channel {
+    const channel = buildChannel(data);
+    this.channels.set(channel._id, channel);
+    if ("server" in channel) {
+      const server = this.servers.get(channel.server);
+      if (server && !server.channels.includes(channel._id)) {
+        server.channels.push(channel._id);
+      }
+    }
+    return channel;
+  }
+
+  /**
+   * Adds a member to a server. No event is emitted.
+   *
+   * @param {string} server - The ID of the server.
+   * @param {string} user - The ID of the user.
+   * @param {Partial<Member>} [data] - Fields to set on the member.
+   * @returns {Member} The raw member.
+   */
+  addMember(server: string, user: string, data?: Partial<Member>): Member {
+    const member = buildMember(server, user, data);
+    this.members.set(`${server}:${user}`, member);
+    return member;
+  }
+
+  /**
+   * Adds a role to a server. No event is emitted.
+   *
+   * @param {string} server - The ID of the server.
+   * @param {Partial<Role>} [data] - Fields to set on the role.
+   * @returns {string} The ID of the role.
+   */
+  addRole(server: string, data?: Partial<Role>): string {
+    const id = mockId();
+    const raw = this.require(this.servers, server);
+    raw.roles = { ...raw.roles, [id]: buildRole(data) };
+    return id;
+  }
+
+  /**
+   * Adds an emoji to a server. No event is emitted.
+   *
+   * @param {string} server - The ID of the server.
+   * @param {Partial<Emoji>} [data] - Fields to set on the emoji.
+   * @returns {Emoji} The raw emoji.
+   */
+  addEmoji(server: string, data?: Partial<Emoji>): Emoji {
+    const emoji = buildEmoji(server, this.user._id, data);
+    this.emojis.set(emoji._id, emoji);
+    return emoji;
+  }
+
+  /**
+   * Adds a message. No event is emitted.
+   *
+   * @param {string} channel - The ID of the channel.
+   * @param {string} author - The ID of the author.
+   * @param {Partial<Message>} [data] - Fields to set on the message.
+   * @returns {Message} The raw message.
+   */
+  addMessage(
+    channel: string,
+    author: string,
+    data?: Partial<Message>,
+  ): Message {
+    const message = buildMessage(channel, author, data);
+    this.messages.set(message._id, message);
+    return message;
+  }
+
+  /**
+   * Sends an event to every authenticated client.
+   *
+   * @param {Packet} packet - The event to send, e.g. `{ type: "ChannelStartTyping", id, user }`.
+   */
+  emit(packet: Packet): void {
+    for (const socket of this.sockets) {
+      if (socket.authenticated) socket.receive(packet);
+    }
+  }
+
+  /**
+   * Adds a message and sends the `Message` event for it, as if a user had sent it.
+   *
+   * @param {string} channel - The ID of the channel.
+   * @param {string} author - The ID of the author.
+   * @param {string | Partial<Message>} content - The content of the message, or fields to set on it.
+   * @returns {Message} The raw message.
+   */
+  sendMessage(
+    channel: string,
+    author: string,
+    content: string | Partial<Message>,
+  ): Message {
+    const message = this.addMessage(
+      channel,
+      author,
+      typeof content === "string" ? { content } : content,
+    );
+    this.emit({ type: WSEvents.MESSAGE, ...message });
+    return message;
+  }
+
+  /**
+   * Closes every WebSocket connection from the server's side, as if the connection was lost.
+   *
+   * @param {number} [code=1006] - The close code.
+   * @param {string} [reason="Connection lost"] - The close reason.
+   */
+  disconnect(code: number = 1006, reason: string = "Connection lost"): void {
+    for (const socket of [...this.sockets]) socket.close(code, reason);
+  }
+
+  /**
+   * Adds or replaces a route. Routes added later take precedence over earlier and built-in routes.
+   *
+   * @param {HTTPMethod} method - The HTTP method.
+   * @param {string} template - The path, with `:name` segments for parameters, e.g. `/channels/:channel/messages`.
+   * @param {MockRouteHandler} handler - Handles matching requests.
+   *
+   * @example
+   * ```typescript
+   * mock.route("POST", "/channels/:channel/messages", () => ({
+   *   status: 403,
+   *   body: { type: "MissingPermission", permission: "SendMessage" },
+   * }));
+   * ```
+   */
+  route(method: HTTPMethod, template: string, handler: MockRouteHandler): void {
+    this.routes.unshift({ method, segments: template.split("/"), handler });
+  }
+
+  /**
+   * Finds the recorded requests matching a method and path.
+   *
+   * @param {HTTPMethod} method - The HTTP method.
+   * @param {string} path - The path or route template, e.g. `/channels/:id/messages`.
+   * @returns {MockRequest[]} The matching requests, oldest first.
+   */
+  findRequests(method: HTTPMethod, path: string): MockRequest[] {
+    const segments = path.split("?")[0].split("/");
+    return this.requests.filter(
+      (request) =>
+        request.method === method && matchPath(segments, request.path) !== null,
+    );
+  }
+
+  /**
+   * Asserts that a request was made, optionally with a body containing the given fields.
+   *
+   * @param {HTTPMethod} method - The HTTP method.
+   * @param {string} path - The path or route template, e.g. `/channels/:id/messages`.
+   * @param {unknown} [body] - Fields the request body must contain.
+   * @returns {MockRequest} The last matching request.
+   * @throws {AssertionError} Throws if no matching request was made.
+   */
+  expectRequest(method: HTTPMethod, path: string, body?: unknown): MockRequest {
+    const found = this.findRequests(method, path).filter(
+      (request) => body === undefined || matches(request.body, body),
+    );
+    if (!found.length) {
+      throw new AssertionError({
+        message: `Expected a ${method} ${path} request${body === undefined ? "" : ` with body ${JSON.stringify(body)}`}, received:\n${this.describeRequests()}`,
+        actual: this.requests.map((r) => `${r.method} ${r.path}`),
+        expected: `${method} ${path}`,
+        operator: "expectRequest",
+      });
+    }
+    return found[found.length - 1];
+  }
+
+  /**
+   * Asserts that no request was made to a method and path.
+   *
+   * @param {HTTPMethod} method - The HTTP method.
+   * @param {string} path - The path or route template.
+   * @throws {AssertionError} Throws if a matching request was made.
+   */
+  expectNoRequest(method: HTTPMethod, path: string): void {
+    if (this.findRequests(method, path).length) {
+      throw new AssertionError({
+        message: `Expected no ${method} ${path} request, received:\n${this.describeRequests()}`,
+        operator: "expectNoRequest",
+      });
+    }
+  }
+
+  /**
+   * Waits for a request to a method and path, resolving straight away if one was already made
+   * since the requests were last cleared.
+   *
+   * @param {HTTPMethod} method - The HTTP method.
+   * @param {string} path - The path or route template.
+   * @param {number} [timeout=1000] - How long to wait in milliseconds.
+   * @returns {Promise<MockRequest>} The matching request.
+   * @throws {AssertionError} Throws if no request is made in time.
+   */
+  waitForRequest(
+    method: HTTPMethod,
+    path: string,
+    timeout: number = 1000,
+  ): Promise<MockRequest> {
+    const found = this.findRequests(method, path);
+    if (found.length) return Promise.resolve(found[found.length - 1]);
+
+    const segments = path.split("?")[0].split("/");
+    return new Promise((resolve, reject) => {
+      const waiter = {
+        match: (request: MockRequest) =>
+          request.method === method &&
+          matchPath(segments, request.path) !== null,
+        resolve: (request: MockRequest) => {
+          clearTimeout(timer);
+          resolve(request);
+        },
+      };
+      const timer = setTimeout(() => {
+        this.waiters.splice(this.waiters.indexOf(waiter), 1);
+        reject(
+          new AssertionError({
+            message: `Timed out waiting for a ${method} ${path} request`,
+            operator: "waitForRequest",
+          }),
+        );
+      }, timeout);
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Forgets the recorded requests and packets.
+   */
+  clearRequests(): void {
+    this.requests.length = 0;
+    this.packets.length = 0;
+  }
+
+  /**
+   * Registers an opened socket.
+   * @private
+   */
+  onConnect(socket: MockWebSocket): void {
+    this.sockets.add(socket);
+  }
+
+  /**
+   * Forgets a closed socket.
+   * @private
+   */
+  onDisconnect(socket: MockWebSocket): void {
+    this.sockets.delete(socket);
+  }
+
+  /**
+   * Handles a packet sent by a client.
+   * @private
+   */
+  onPacket(socket: MockWebSocket, packet: Packet): void {
+    this.packets.push(packet);
+
+    switch (packet.type) {
+      case WSEvents.AUTHENTICATE:
+        if (packet.token !== this.token) {
+          socket.receive({ type: WSEvents.ERROR, error: "InvalidSession" });
+          socket.close(1000, "InvalidSession");
+          return;
+        }
+        socket.authenticated = true;
+        socket.receive({ type: WSEvents.AUTHENTICATED });
+        socket.receive({ type: WSEvents.READY, ...this.ready() });
+        break;
+      case WSEvents.PING:
+        socket.receive({ type: WSEvents.PONG, data: packet.data });
+        break;
+    }
+  }
+
+  /**
+   * Builds the `Ready` payload from the server's state.
+   * @private
+   */
+  private ready() {
+    const servers = [...this.servers.values()].filter((server) =>
+      this.members.has(`${server._id}:${this.user._id}`),
+    );
+    const serverIds = new Set(servers.map((server) => server._id));
+
+    return {
+      users: [...this.users.values()].map((user) =>
+        user._id === this.user._id ? { ...user, relationship: "User" } : user,
+      ),
+      servers,
+      channels: [...this.channels.values()].filter((channel) => {
+        if ("server" in channel) return serverIds.has(channel.server);
+        if ("recipients" in channel) {
+          return channel.recipients.includes(this.user._id);
+        }
+        return channel.user === this.user._id;
+      }),
+      members: [...this.members.values()].filter(
+        (member) =>
+          member._id.user === this.user._id && serverIds.has(member._id.server),
+      ),
+      emojis: [...this.emojis.values()].filter(
+        (emoji) =>
+          emoji.parent.type === "Server" && serverIds.has(emoji.parent.id),
+      ),
+    };
+  }
+
+  /**
+   * Answers a request made through the transport.
+   * @private
+   */
+  private async handle<T>(request: HTTPRequest): Promise<HTTPResponse<T>> {
+    const url = new URL(request.url);
+    for (const [key, value] of Object.entries(request.query ?? {})) {
+      url.searchParams.append(key, String(value));
+    }
+
+    const file = this.files.get(request.url);
+    if (file !== undefined) {
+      return {
+        status: 200,
+        headers: { "content-type": "application/octet-stream" },
+        data: Readable.from([Buffer.from(file)]) as T,
+      };
+    }
+
+    const cdn = url.origin === CDN_URL;
+    if (!cdn && url.pathname === "/" && request.method === "GET") {
+      return respond(request, { body: this.discovery() });
+    }
+
+    const record: MockRequest = {
+      method: request.method,
+      route: RateLimitQueue.route(request.method, url.pathname),
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      headers: request.headers,
+      body: request.body,
+      params: {},
+    };
+    this.requests.push(record);
+    for (const waiter of [...this.waiters]) {
+      if (!waiter.match(record)) continue;
+      this.waiters.splice(this.waiters.indexOf(waiter), 1);
+      waiter.resolve(record);
+    }
+
+    if (request.responseType === "stream") {
+      return respond(request, { status: 404, body: { type: "NotFound" } });
+    }
+
+    const token = Object.entries(request.headers).find(([key]) =>
+      ["x-bot-token", "x-session-token"].includes(key.toLowerCase()),
+    )?.[1];
+    if (token !== this.token) {
+      return respond(request, { status: 401, body: { type: "Unauthorized" } });
+    }
+
+    if (cdn) {
+      return respond(request, { body: { id: mockId() } });
+    }
+
+    for (const route of this.routes) {
+      if (route.method !== request.method) continue;
+      const params = matchPath(route.segments, url.pathname);
+      if (!params) continue;
+
+      record.params = params;
+      try {
+        return respond(request, await route.handler(record));
+      } catch (error) {
+        if (!(error instanceof MockFailure)) throw error;
+        return respond(request, {
+          status: error.status,
+          body: { type: error.type },
+        });
+      }
+    }
+
+    return respond(request, { status: 404, body: { type: "NotFound" } });
+  }
+
+  /**
+   * Builds the discovery response.
+   * @private
+   */
+  private discovery() {
+    return {
+      revolt: "0.8.0",
+      features: {
+        captcha: { enabled: false, key: "" },
+        email: false,
+        invite_only: false,
+        autumn: { enabled: true, url: CDN_URL },
+        january: { enabled: false, url: "" },
+        livekit: { enabled: false, nodes: [] },
+      },
+      ws: WS_URL,
+      app: "https://app.stoat.mock",
+      vapid: "",
+      build: {},
+    };
+  }
+
+  /**
+   * Describes the recorded requests for assertion messages.
+   * @private
+   */
+  private describeRequests(): string {
+    if (!this.requests.length) return "  (no requests)";
+    return this.requests
+      .map((r) => `  ${r.method} ${r.path} ${JSON.stringify(r.body) ?? ""}`)
+      .join("\n");
+  }
+
+  /**
+   * Gets an entry from a map, failing with a 404 if it does not exist.
+   * @private
+   */
+  private require<T>(map: Map<string, T>, id: string): T {
+    const value = map.get(id);
+    if (value === undefined) throw new MockFailure(404, "NotFound");
+    return value;
+  }
+
+  /**
+   * Resolves `@me` to the bot's ID.
+   * @private
+   */
+  private userId(id: string): string {
+    return id === "@me" ? this.user._id : id;
+  }
+
+  /**
+   * Creates a message sent by the bot or a webhook and emits it.
+   * @private
+   */
+  private createMessage(
+    channel: string,
+    author: string,
+    body: any,
+    extra: Partial<Message> = {},
+  ): Message {
+    const message = this.addMessage(
+      channel,
+      author,
+      defined({
+        content: body?.content,
+        nonce: body?.nonce,
+        masquerade: body?.masquerade,
+        replies: body?.replies?.map((reply: { id: string }) => reply.id),
+        attachments: body?.attachments?.map((id: string) => ({
+          _id: id,
+          tag: "attachments",
+          filename: id,
+          metadata: { type: "File" },
+          content_type: "application/octet-stream",
+          size: 0,
+        })),
+        embeds: body?.embeds?.map((embed: object) => ({
+          type: "Text",
+          ...embed,
+        })),
+        ...extra,
+      }),
+    );
+    this.emit({ type: WSEvents.MESSAGE, ...message });
+    return message;
+  }
+
+  /**
+   * Registers the built-in routes.
+   * @private
+   */
+  private defaultRoutes(): void {
+    const add = (
+      method: HTTPMethod,
+      template: string,
+      handler: MockRouteHandler,
+    ) => this.routes.push({ method, segments: template.split("/"), handler });
+
+    // users
+    add("GET", "/users/:user", ({ params }) => ({
+      body: this.require(this.users, this.userId(params.user)),
+    }));
+    add("PATCH", "/users/@me/username", ({ body }) => {
+      Object.assign(this.user, { username: body.username });
+      this.emit({
+        type: WSEvents.USER_UPDATE,
+        id: this.user._id,
+        data: { username: body.username },
+        clear: [],
+      });
+      return { body: this.user };
+    });
+    add("PATCH", "/users/:user", ({ params, body }) => {
+      const user = this.require(this.users, this.userId(params.user));
+      const { remove = [], ...data } = body ?? {};
+      applyPatch(user, data, remove);
+      this.emit({
+        type: WSEvents.USER_UPDATE,
+        id: user._id,
+        data,
+        clear: remove,
+      });
+      return { body: user };
+    });
+    add("GET", "/users/:user/dm", ({ params }) => {
+      const user = this.require(this.users, this.userId(params.user));
+      const existing = [...this.channels.values()].find(
+        (channel) =>
+          channel.channel_type === "DirectMessage" &&
+          channel.recipients.includes(user._id) &&
+          channel.recipients.includes(this.user._id),
+      );
+      return {
+        body:
+          existing ??
+          this.addChannel({
+            channel_type: "DirectMessage",
+            recipients: [this.user._id, user._id],
+          }),
+      };
+    });
+    for (const [method, relationship] of [
+      ["PUT", "Blocked"],
+      ["DELETE", "None"],
+    ] as const) {
+      add(method, "/users/:user/block", ({ params }) => {
+        const user = this.require(this.users, params.user);
+        user.relationship = relationship;
+        this.emit({
+          type: WSEvents.USER_RELATIONSHIP,
+          id: this.user._id,
+          user,
+        });
+        return { body: user };
+      });
+    }
+
+    // channels
+    add("GET", "/channels/:channel", ({ params }) => ({
+      body: this.require(this.channels, params.channel),
+    }));
+    add("PATCH", "/channels/:channel", ({ params, body }) => {
+      const channel = this.require(this.channels, params.channel);
+      const { remove = [], ...data } = body ?? {};
+      applyPatch(channel, data, remove);
+      this.emit({
+        type: WSEvents.CHANNEL_UPDATE,
+        id: channel._id,
+        data,
+        clear: remove,
+      });
+      return { body: channel };
+    });
+    add("DELETE", "/channels/:channel", ({ params }) => {
+      const channel = this.require(this.channels, params.channel);
+      this.channels.delete(channel._id);
+      if ("server" in channel) {
+        const server = this.servers.get(channel.server);
+        if (server) {
+          server.channels = server.channels.filter((id) => id !== channel._id);
+        }
+      }
+      this.emit({ type: WSEvents.CHANNEL_DELETE, id: channel._id });
+      return {};
+    });
+    add("PUT", "/channels/:channel/permissions/:role", ({ params, body }) => {
+      const channel = this.require(this.channels, params.channel) as any;
+      const permissions = overrideOf(body?.permissions);
+      const data =
+        params.role === "default"
+          ? { default_permissions: permissions }
+          : {
+              role_permissions: {
+                ...channel.role_permissions,
+                [params.role]: permissions,
+              },
+            };
+      Object.assign(channel, data);
+      this.emit({
+        type: WSEvents.CHANNEL_UPDATE,
+        id: channel._id,
+        data,
+        clear: [],
+      });
+      return { body: channel };
+    });
+    add("POST", "/channels/:channel/invites", ({ params }) => {
+      const channel = this.require(this.channels, params.channel);
+      const code = mockId().slice(-8);
+      return {
+        body:
+          "server" in channel
+            ? {
+                type: "Server",
+                _id: code,
+                server: channel.server,
+                creator: this.user._id,
+                channel: channel._id,
+              }
+            : {
+                type: "Group",
+                _id: code,
+                creator: this.user._id,
+                channel: channel._id,
+              },
+      };
+    });
+    for (const [method, type] of [
+      ["PUT", WSEvents.CHANNEL_GROUP_JOIN],
+      ["DELETE", WSEvents.CHANNEL_GROUP_LEAVE],
+    ] as const) {
+      add(method, "/channels/:channel/recipients/:user", ({ params }) => {
+        const channel = this.require(this.channels, params.channel);
+        if (channel.channel_type !== "Group") {
+          throw new MockFailure(400, "InvalidOperation");
+        }
+        channel.recipients = channel.recipients.filter(
+          (id) => id !== params.user,
+        );
+        if (method === "PUT") channel.recipients.push(params.user);
+        this.emit({ type, id: channel._id, user: params.user });
+        return {};
+      });
+    }
+    add("PUT", "/channels/:channel/ack/:message", () => ({}));
+    add("POST", "/channels/:channel/join_call", ({ params }) => {
+      this.require(this.channels, params.channel);
+      if (this.calls.has(params.channel)) {
+        throw new MockFailure(409, "AlreadyConnected");
+      }
+      this.calls.add(params.channel);
+      return {
+        body: { token: "mock-livekit-token", url: "wss://livekit.stoat.mock" },
+      };
+    });
+    add("DELETE", "/channels/:channel/join_call", ({ params }) => {
+      this.calls.delete(params.channel);
+      return {};
+    });
+
+    // messages
+    add("GET", "/channels/:channel/messages", ({ params, query }) => {
+      this.require(this.channels, params.channel);
+      const limit = Number(query.limit ?? 50);
+      let messages = [...this.messages.values()]
+        .filter((message) => message.channel === params.channel)
+        .filter((message) => !query.before || message._id < query.before)
+        .filter((message) => !query.after || message._id > query.after)
+        .sort((a, b) => (a._id < b._id ? -1 : 1));
+      if (query.sort !== "Oldest") messages = messages.reverse();
+      return { body: messages.slice(0, limit) };
+    });
+    add("POST", "/channels/:channel/messages", ({ params, body }) => {
+      this.require(this.channels, params.channel);
+      return {
+        body: this.createMessage(params.channel, this.user._id, body),
+      };
+    });
+    add("POST", "/channels/:channel/search", ({ params, body, query }) => {
+      const search = String(body?.query ?? query.query ?? "").toLowerCase();
+      return {
+        body: [...this.messages.values()].filter(
+          (message) =>
+            message.channel === params.channel &&
+            message.content?.toLowerCase().includes(search),
+        ),
+      };
+    });
+    add("DELETE", "/channels/:channel/messages/bulk", ({ params, body }) => {
+      const ids: string[] = body?.ids ?? [];
+      for (const id of ids) this.messages.delete(id);
+      this.emit({
+        type: WSEvents.MESSAGE_BULK_DELETE,
+        channel: params.channel,
+        ids,
+      });
+      return {};
+    });
+    add("GET", "/channels/:channel/messages/:message", ({ params }) => ({
+      body: this.require(this.messages, params.message),
+    }));
+    add("PATCH", "/channels/:channel/messages/:message", ({ params, body }) => {
+      const message = this.require(this.messages, params.message);
+      const data = {
+        ...(body?.content !== undefined && { content: body.content }),
+        ...(body?.embeds !== undefined && { embeds: body.embeds }),
+        edited: new Date().toISOString(),
+      };
+      Object.assign(message, data);
+      this.emit({
+        type: WSEvents.MESSAGE_UPDATE,
+        id: message._id,
+        channel: message.channel,
+        data,
+      });
+      return { body: message };
+    });
+    add("DELETE", "/channels/:channel/messages/:message", ({ params }) => {
+      const message = this.require(this.messages, params.message);
+      this.messages.delete(message._id);
+      this.emit({
+        type: WSEvents.MESSAGE_DELETE,
+        id: message._id,
+        channel: message.channel,
+      });
+      return {};
+    });
+    add(
+      "PUT",
+      "/channels/:channel/messages/:message/reactions/:emoji",
+      ({ params }) => {
+        const message = this.require(this.messages, params.message);
+        const users = message.reactions?.[params.emoji] ?? [];
+        message.reactions = {
+          ...message.reactions,
+          [params.emoji]: [...new Set([...users, this.user._id])],
+        };
+        this.emit({
+          type: "MessageReact",
+          id: message._id,
+          channel_id: message.channel,
+          user_id: this.user._id,
+          emoji_id: params.emoji,
+        });
+        return {};
+      },
+    );
+    add(
+      "DELETE",
+      "/channels/:channel/messages/:message/reactions/:emoji",
+      ({ params, query }) => {
+        const message = this.require(this.messages, params.message);
+        const user = query.user_id ?? this.user._id;
+        const users = message.reactions?.[params.emoji] ?? [];
+        message.reactions = {
+          ...message.reactions,
+          [params.emoji]:
+            query.remove_all === "true" ? [] : users.filter((u) => u !== user),
+        };
+        this.emit({
+          type: "MessageUnreact",
+          id: message._id,
+          channel_id: message.channel,
+          user_id: user,
+          emoji_id: params.emoji,
+        });
+        return {};
+      },
+    );
+    add(
+      "DELETE",
+      "/channels/:channel/messages/:message/reactions",
+      ({ params }) => {
+        const message = this.require(this.messages, params.message);
+        message.reactions = {};
+        return {};
+      },
+    );
+
+    // webhooks
+    add("POST", "/channels/:channel/webhooks", ({ params, body }) => {
+      const channel = this.require(this.channels, params.channel);
+      const webhook: MockWebhook = {
+        id: mockId(),
+        name: body?.name ?? "Webhook",
+        creator_id: this.user._id,
+        channel_id: channel._id,
+        permissions: 0,
+        token: mockId(),
+      };
+      this.webhooks.set(webhook.id, webhook);
+      this.emit({
+        type: WSEvents.WEBHOOKS_CREATE,
+        ...webhook,
+        server_id: "server" in channel ? channel.server : undefined,
+      });
+      return { body: webhook };
+    });
+    add("GET", "/channels/:channel/webhooks", ({ params }) => ({
+      body: [...this.webhooks.values()].filter(
+        (webhook) => webhook.channel_id === params.channel,
+      ),
+    }));
+    add("GET", "/webhooks/:webhook", ({ params }) => {
+      const { token, ...webhook } = this.require(this.webhooks, params.webhook);
+      return { body: webhook };
+    });
+    add("GET", "/webhooks/:webhook/:token", ({ params }) => ({
+      body: this.webhook(params.webhook, params.token),
+    }));
+    add("POST", "/webhooks/:webhook/:token", ({ params, body }) => {
+      const webhook = this.webhook(params.webhook, params.token);
+      return {
+        body: this.createMessage(webhook.channel_id, webhook.id, body, {
+          webhook: { name: webhook.name, avatar: null },
+        }),
+      };
+    });
+    add("PATCH", "/webhooks/:webhook/:token", ({ params, body }) => {
+      const webhook = this.webhook(params.webhook, params.token);
+      const { remove = [], ...data } = body ?? {};
+      applyPatch(webhook, data, remove);
+      this.emit({
+        type: WSEvents.WEBHOOKS_UPDATE,
+        id: webhook.id,
+        data,
+        remove,
+      });
+      return { body: webhook };
+    });
+    add("DELETE", "/webhooks/:webhook/:token", ({ params }) => {
+      const webhook = this.webhook(params.webhook, params.token);
+      const channel = this.channels.get(webhook.channel_id);
+      this.webhooks.delete(webhook.id);
+      this.emit({
+        type: WSEvents.WEBHOOKS_DELETE,
+        id: webhook.id,
+        channel_id: webhook.channel_id,
+        server_id: channel && "server" in channel ? channel.server : undefined,
+      });
+      return {};
+    });
+
+    // servers
+    add("GET", "/servers/:server", ({ params }) => ({
+      body: this.require(this.servers, params.server),
+    }));
+    add("PATCH", "/servers/:server", ({ params, body }) => {
+      const server = this.require(this.servers, params.server);
+      const { remove = [], ...data } = body ?? {};
+      applyPatch(server, data, remove);
+      this.emit({
+        type: WSEvents.SERVER_UPDATE,
+        id: server._id,
+        data,
+        clear: remove,
+      });
+      return { body: server };
+    });
+    add("DELETE", "/servers/:server", ({ params }) => {
+      const server = this.require(this.servers, params.server);
+      this.members.delete(`${server._id}:${this.user._id}`);
+      if (server.owner === this.user._id) this.servers.delete(server._id);
+      this.emit({ type: WSEvents.SERVER_DELETE, id: server._id });
+      return {};
+    });
+    add("POST", "/servers/:server/channels", ({ params, body }) => {
+      this.require(this.servers, params.server);
+      const channel = this.addChannel(
+        defined({
+          channel_type: body?.type === "Voice" ? "VoiceChannel" : "TextChannel",
+          server: params.server,
+          name: body?.name,
+          description: body?.description,
+          nsfw: body?.nsfw,
+        }) as Partial<Channel>,
+      );
+      this.emit({ type: WSEvents.CHANNEL_CREATE, ...channel });
+      return { body: channel };
+    });
+    add("GET", "/servers/:server/channels/:channel", ({ params }) => ({
+      body: this.require(this.channels, params.channel),
+    }));
+    add("PUT", "/servers/:server/permissions/:role", ({ params, body }) => {
+      const server = this.require(this.servers, params.server);
+      if (params.role === "default") {
+        server.default_permissions = Number(body?.permissions ?? 0);
+        this.emit({
+          type: WSEvents.SERVER_UPDATE,
+          id: server._id,
+          data: { default_permissions: server.default_permissions },
+          clear: [],
+        });
+        return { body: server };
+      }
+
+      const role = this.require(
+        new Map(Object.entries(server.roles ?? {})),
+        params.role,
+      );
+      role.permissions = overrideOf(body?.permissions);
+      this.emit({
+        type: WSEvents.SERVER_ROLE_UPDATE,
+        id: server._id,
+        role_id: params.role,
+        data: { permissions: role.permissions },
+        clear: [],
+      });
+      return { body: server };
+    });
+
+    // roles
+    add("POST", "/servers/:server/roles", ({ params, body }) => {
+      const id = this.addRole(
+        params.server,
+        defined({ name: body?.name, rank: body?.rank }),
+      );
+      const role = this.servers.get(params.server)!.roles![id];
+      this.emit({
+        type: WSEvents.SERVER_ROLE_UPDATE,
+        id: params.server,
+        role_id: id,
+        data: role,
+        clear: [],
+      });
+      return { body: { id, role } };
+    });
+    add("GET", "/servers/:server/roles/:role", ({ params }) => {
+      const server = this.require(this.servers, params.server);
+      return {
+        body: this.require(
+          new Map(Object.entries(server.roles ?? {})),
+          params.role,
+        ),
+      };
+    });
+    add("PATCH", "/servers/:server/roles/:role", ({ params, body }) => {
+      const server = this.require(this.servers, params.server);
+      const role = this.require(
+        new Map(Object.entries(server.roles ?? {})),
+        params.role,
+      );
+      const { remove = [], ...data } = body ?? {};
+      applyPatch(role, data, remove);
+      this.emit({
+        type: WSEvents.SERVER_ROLE_UPDATE,
+        id: server._id,
+        role_id: params.role,
+        data,
+        clear: remove,
+      });
+      return { body: role };
+    });
+    add("DELETE", "/servers/:server/roles/:role", ({ params }) => {
+      const server = this.require(this.servers, params.server);
+      if (!server.roles?.[params.role]) throw new MockFailure(404, "NotFound");
+      delete server.roles[params.role];
+      this.emit({
+        type: WSEvents.SERVER_ROLE_DELETE,
+        id: server._id,
+        role_id: params.role,
+      });
+      return {};
+    });
+
+    // members
+    add("GET", "/servers/:server/members", ({ params }) => {
+      this.require(this.servers, params.server);
+      const members = [...this.members.values()].filter(
+        (member) => member._id.server === params.server,
+      );
+      return {
+        body: {
+          members,
+          users: members
+            .map((member) => this.users.get(member._id.user))
+            .filter(Boolean),
+        },
+      };
+    });
+    add("GET", "/servers/:server/members/:member", ({ params }) => ({
+      body: this.require(this.members, `${params.server}:${params.member}`),
+    }));
+    add("PATCH", "/servers/:server/members/:member", ({ params, body }) => {
+      const member = this.require(
+        this.members,
+        `${params.server}:${params.member}`,
+      );
+      const { remove = [], ...data } = body ?? {};
+      applyPatch(member, data, remove);
+      this.emit({
+        type: WSEvents.SERVER_MEMBER_UPDATE,
+        id: member._id,
+        data,
+        clear: remove,
+      });
+      return { body: member };
+    });
+    add("DELETE", "/servers/:server/members/:member", ({ params }) => {
+      this.require(this.members, `${params.server}:${params.member}`);
+      this.members.delete(`${params.server}:${params.member}`);
+      this.emit({
+        type: WSEvents.SERVER_MEMBER_LEAVE,
+        id: params.server,
+        user: params.member,
+        reason: "Kick",
+      });
+      return {};
+    });
+    add("PUT", "/servers/:server/bans/:user", ({ params, body }) => {
+      this.require(this.servers, params.server);
+      const key = `${params.server}:${params.user}`;
+      this.bans.set(key, body?.reason ?? null);
+      if (this.members.delete(key)) {
+        this.emit({
+          type: WSEvents.SERVER_MEMBER_LEAVE,
+          id: params.server,
+          user: params.user,
+          reason: "Ban",
+        });
+      }
+      return {
+        body: {
+          _id: { server: params.server, user: params.user },
+          reason: body?.reason ?? null,
+        },
+      };
+    });
+    add("DELETE", "/servers/:server/bans/:user", ({ params }) => {
+      if (!this.bans.delete(`${params.server}:${params.user}`)) {
+        throw new MockFailure(404, "NotFound");
+      }
+      return {};
+    });
+
+    // emojis
+    add("GET", "/custom/emoji/:emoji", ({ params }) => ({
+      body: this.require(this.emojis, params.emoji),
+    }));
+  }
+
+  /**
+   * Gets a webhook, checking its token.
+   * @private
+   */
+  private webhook(id: string, token: string): MockWebhook {
+    const webhook = this.require(this.webhooks, id);
+    if (webhook.token !== token) {
+      throw new MockFailure(401, "InvalidCredentials");
+    }
+    return webhook;
+  }
+}
+
+/**
+ * Matches a path against a route template, returning the captured parameters.
+ * @private
+ */
+function matchPath(
+  template: string[],
+  path: string,
+): Record<string, string> | null {
+  const segments = path.split("/");
+  if (segments.length !== template.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < template.length; i++) {
+    if (template[i].startsWith(":")) {
+      params[template[i].slice(1)] = decodeURIComponent(segments[i]);
+    } else if (template[i] !== segments[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+/**
+ * Checks whether a value contains every field of an expected value.
+ * @private
+ */
+function matches(actual: unknown, expected: unknown): boolean {
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((value, i) => matches(actual[i], value))
+    );
+  }
+  if (expected && typeof expected === "object") {
+    if (!actual || typeof actual !== "object") return false;
+    return Object.entries(expected).every(([key, value]) =>
+      matches((actual as Record<string, unknown>)[key], value),
+    );
+  }
+  return isDeepStrictEqual(actual, expected);
+}
+
+/**
+ * Applies a partial update and removes the cleared fields, e.g. `SystemMessages` clears `system_messages`.
+ * @private
+ */
+function applyPatch(
+  target: object,
+  data: Record<string, unknown>,
+  remove: string[],
+): void {
+  Object.assign(target, data);
+  for (const field of remove) {
+    const key = field.replace(/(?<=[a-z])(?=[A-Z])/g, "_").toLowerCase();
+    delete (target as Record<string, unknown>)[key];
+  }
+}
+
+/**
+ * Removes the fields that are not set, so they do not replace a builder's defaults.
+ * @private
+ */
+function defined<T extends object>(data: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined),
+  ) as Partial<T>;
+}
+
+/**
+ * Converts an `{ allow, deny }` permission body to the `{ a, d }` form the API returns.
+ * @private
+ */
+function overrideOf(permissions: any): { a: number; d: number } {
+  return {
+    a: Number(permissions?.allow ?? 0),
+    d: Number(permissions?.deny ?? 0),
+  };
+}
+
+/**
+ * Builds a transport response, cloning the body so the client cannot change the server's state.
+ * @private
+ */
+function respond<T>(
+  request: HTTPRequest,
+  response: MockResponse,
+): HTTPResponse<T> {
+  const body =
+    response.body === undefined ? undefined : structuredClone(response.body);
+  const status = response.status ?? (body === undefined ? 204 : 200);
+  const headers = {
+    "content-type": "application/json",
+    ...response.headers,
+  };
+
+  if (request.responseType === "stream") {
+    return {
+      status,
+      headers,
+      data: Readable.from(
+        body === undefined ? [] : [Buffer.from(JSON.stringify(body))],
+      ) as T,
+    };
+  }
+  return { status, headers, data: body as T };
+}
@@ -0,0 +1,100 @@
+import type { WebSocketLike } from "../client/webSocket";
+
+/**
+ * Represents the server side of a mock connection, which handles the packets a client sends.
+ * @private
+ */
+export interface MockSocketHost {
+  /** Called when a socket is opened. */
+  onConnect(socket: MockWebSocket): void;
+  /** Called for every packet a client sends. */
+  onPacket(socket: MockWebSocket, packet: any): void;
+  /** Called when a socket is closed by either side. */
+  onDisconnect(socket: MockWebSocket): void;
+}
+
+/**
+ * Represents an in-memory WebSocket connected to a `MockServer`.
+ * Messages are delivered asynchronously in the order they were sent, as they would be over a network.
+ *
+ * @implements WebSocketLike
+ */
+export class MockWebSocket implements WebSocketLike {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+
+  /** The state of the connection, using the same values as `WebSocket`. */
+  readyState: number = MockWebSocket.CONNECTING;
+
+  /** Whether the client has sent a valid `Authenticate` packet. */
+  authenticated = false;
+
+  onopen: ((event: any) => void) | null = null;
+  onmessage: ((event: any) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+  onclose: ((event: any) => void) | null = null;
+
+  /**
+   * Creates a new MockWebSocket instance.
+   *
+   * @param {MockSocketHost} host - The server the socket is connected to.
+   * @param {string} url - The URL the client connected to.
+   */
+  constructor(
+    private readonly host: MockSocketHost,
+    readonly url: string,
+  ) {
+    setImmediate(() => {
+      if (this.readyState !== MockWebSocket.CONNECTING) return;
+      this.readyState = MockWebSocket.OPEN;
+      this.host.onConnect(this);
+      this.onopen?.({ type: "open" });
+    });
+  }
+
+  /**
+   * Sends a packet from the client to the server.
+   *
+   * @param {string} data - The JSON encoded packet.
+   * @throws {Error} Throws if the socket is not open.
+   */
+  send(data: string): void {
+    if (this.readyState !== MockWebSocket.OPEN) {
+      throw new Error("Socket is not open");
+    }
+    const packet = JSON.parse(data);
+    setImmediate(() => {
+      if (this.readyState === MockWebSocket.OPEN) {
+        this.host.onPacket(this, packet);
+      }
+    });
+  }
+
+  /**
+   * Sends a packet from the server to the client.
+   *
+   * @param {unknown} packet - The packet to send.
+   */
+  receive(packet: unknown): void {
+    if (this.readyState !== MockWebSocket.OPEN) return;
+    const data = JSON.stringify(packet);
+    setImmediate(() => {
+      if (this.readyState === MockWebSocket.OPEN) this.onmessage?.({ data });
+    });
+  }
+
+  /**
+   * Closes the connection. Called by the client, or by the server to simulate a dropped connection.
+   *
+   * @param {number} [code=1000] - The close code.
+   * @param {string} [reason=""] - The close reason.
+   */
+  close(code: number = 1000, reason: string = ""): void {
+    if (this.readyState >= MockWebSocket.CLOSING) return;
+    this.readyState = MockWebSocket.CLOSED;
+    this.host.onDisconnect(this);
+    setImmediate(() => this.onclose?.({ code, reason, wasClean: true }));
+  }
+}
@@ -0,0 +1,145 @@
+import { createReadStream } from "node:fs";
+import { createInterface } from "node:readline";
+import type { client } from "../client/client";
+import type { GatewayRecord } from "../client/recorder";
+import { Events, WSEvents } from "../utils/constants";
+
+/**
+ * Represents the options for replaying a recording.
+ */
+export interface ReplayOptions {
+  /**
+   * How fast to replay, relative to the recording. `1` keeps the original gaps between packets,
+   * `10` is ten times faster and `Infinity` sends packets back to back. Defaults to `1`.
+   */
+  speed?: number;
+}
+
+/**
+ * Represents a driver that feeds a gateway recording back into a client without a network.
+ *
+ * Packets go through the same handling as packets from a real connection, one at a time and
+ * in order, so the client's caches and emitted events can be asserted on once `run` resolves.
+ * The client does not need to log in. Handlers that fetch from the API, such as fetching members
+ * after `Ready`, need a token and working REST options, e.g. from `MockServer.clientOptions`.
+ *
+ * @example
+ * ```typescript
+ * const bot = new client();
+ * const deleted: Message[] = [];
+ * bot.on("messageDelete", (message) => deleted.push(message));
+ *
+ * const replay = await GatewayReplay.load(bot, "./gateway.jsonl");
+ * await replay.run({ speed: Infinity });
+ *
+ * assert.equal(bot.servers.cache.size, 3);
+ * assert.equal(deleted.length, 1);
+ * ```
+ */
+export class GatewayReplay {
+  /** The number of packets replayed so far. */
+  position = 0;
+
+  private stopped = false;
+  private timer: { timeout: NodeJS.Timeout; resolve: () => void } | null = null;
+
+  /**
+   * Creates a new GatewayReplay instance.
+   *
+   * @param {client} client - The client to feed the packets into.
+   * @param {GatewayRecord[]} records - The recorded packets, oldest first.
+   */
+  constructor(
+    private readonly client: client,
+    readonly records: GatewayRecord[],
+  ) {}
+
+  /**
+   * Loads a recording written by a `GatewayRecorder`.
+   *
+   * @param {client} client - The client to feed the packets into.
+   * @param {string} file - The path of the JSONL file.
+   * @returns {Promise<GatewayReplay>} The replay driver.
+   */
+  static async load(client: client, file: string): Promise<GatewayReplay> {
+    const records: GatewayRecord[] = [];
+    const lines = createInterface({
+      input: createReadStream(file),
+      crlfDelay: Infinity,
+    });
+    for await (const line of lines) {
+      if (line.trim()) records.push(JSON.parse(line));
+    }
+    return new GatewayReplay(client, records);
+  }
+
+  /**
+   * Replays the remaining packets.
+   *
+   * @param {ReplayOptions} [options={}] - The options for the replay.
+   * @returns {Promise<void>} A promise that resolves once every packet has been handled, or the replay is stopped.
+   * @throws {Error} Throws the error of the first packet that fails to be handled.
+   */
+  async run(options: ReplayOptions = {}): Promise<void> {
+    const speed = options.speed ?? 1;
+    if (!(speed > 0)) throw new RangeError("Speed must be greater than 0");
+
+    this.stopped = false;
+    const ws = this.client.ws;
+
+    while (!this.stopped && this.position < this.records.length) {
+      const record = this.records[this.position];
+      const previous = this.records[this.position - 1];
+      if (previous && Number.isFinite(speed)) {
+        await this.sleep(Math.max(0, record.time - previous.time) / speed);
+        if (this.stopped) break;
+      }
+
+      this.position++;
+      this.client.emit(Events.RAW, record.packet);
+      await ws.onPacket(record.packet);
+
+      // There is no socket to keep alive, so the heartbeat started by `Ready` is cleared.
+      if (hasType(record.packet, WSEvents.READY)) ws.setHeartbeatTimer(-1);
+    }
+  }
+
+  /**
+   * Stops the replay after the packet being handled. Calling `run` again continues from there.
+   */
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer.timeout);
+      this.timer.resolve();
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Waits between packets.
+   * @private
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      this.timer = {
+        timeout: setTimeout(() => {
+          this.timer = null;
+          resolve();
+        }, ms),
+        resolve,
+      };
+    });
+  }
+}
+
+/**
+ * Checks whether a packet, or any packet in a `Bulk` packet, has a type.
+ * @private
+ */
+function hasType(packet: any, type: WSEvents): boolean {
+  if (packet?.type === WSEvents.BULK) {
+    return packet.v.some((p: unknown) => hasType(p, type));
+  }
+  return packet?.type === type;
+}
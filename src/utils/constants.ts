@@ -6,10 +6,17 @@ import { UUID } from "./UUID";
  * @private
  */
 export enum Events {
+  API_REQUEST = "apiRequest",
+  API_RESPONSE = "apiResponse",
+  CACHE_SWEEP = "cacheSweep",
   CHANNEL_CREATE = "channelCreate",
   CHANNEL_DELETE = "channelDelete",
   CHANNEL_UPDATE = "channelUpdate",
+  COMMAND_DENIED = "commandDenied",
+  COMMAND_ERROR = "commandError",
+  COMMAND_RUN = "commandRun",
   DEBUG = "debug",
+  DESTROY = "destroy",
   ERROR = "error",
   GROUP_JOIN = "groupJoin",
   GROUP_LEAVE = "groupLeave",
@@ -19,8 +26,11 @@ export enum Events {
   MESSAGE_UPDATE = "messageUpdate",
   MESSAGE_REACT = "messageReact",
   MESSAGE_REACT_REMOVE = "messageUnreact",
+  RATE_LIMITED = "rateLimited",
   RAW = "raw",
   READY = "ready",
+  RECONNECTING = "reconnecting",
+  RESUMED = "resumed",
   ROLE_CREATE = "roleCreate",
   ROLE_DELETE = "roleDelete",
   ROLE_UPDATE = "roleUpdate",
@@ -30,6 +40,7 @@ export enum Events {
   SERVER_MEMBER_LEAVE = "serverMemberLeave",
   SERVER_MEMBER_UPDATE = "serverMemberUpdate",
   SERVER_UPDATE = "serverUpdate",
+  SHARD_DISCONNECT = "shardDisconnect",
   TYPING_START = "typingStart",
   TYPING_STOP = "typingStop",
   USER_UPDATE = "userUpdate",
@@ -84,6 +95,24 @@ export enum WSEvents {
   VOICE_CHANNEL_LEAVE = "VoiceChannelLeave",
 }
 
+/**
+ * Enum representing the states of the WebSocket connection.
+ */
+export enum WSStatus {
+  /** Not connected yet. */
+  IDLE = "idle",
+  /** Opening the socket. */
+  CONNECTING = "connecting",
+  /** The socket is open and waiting for the `Ready` payload. */
+  AUTHENTICATING = "authenticating",
+  /** Connected and receiving events. */
+  READY = "ready",
+  /** Waiting to reconnect after the connection was lost. */
+  RECONNECTING = "reconnecting",
+  /** Closed by the client, or after running out of reconnect attempts. */
+  CLOSED = "closed",
+}
+
 /**
  * Enum representing the types of channels supported by the client.
  */
@@ -110,6 +139,12 @@ export const DEFAULT_CLIENT_OPTIONS: clientOptions = {
   ws: {
     heartbeatInterval: 30000,
     reconnect: true,
+    maxReconnectAttempts: 10,
+    reconnectDelay: 1000,
+    maxReconnectDelay: 30000,
+  },
+  shutdown: {
+    timeout: 10000,
   },
 };
 
@@ -3,3 +3,12 @@ export * from "./bitField";
 export * from "./constants";
 export * from "./permissions";
 export * from "./badges";
+export {
+  ConsoleLogger,
+  DebugEventLogger,
+  PinoLogger,
+  type LogFields,
+  type LogLevel,
+  type Logger,
+  type PinoLike,
+} from "./logger";
@@ -0,0 +1,217 @@
+import type { BaseClient } from "../client/baseClient";
+import { Events } from "./constants";
+
+/**
+ * The levels log entries are written at, from least to most severe.
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Represents the structured fields attached to a log entry.
+ */
+export interface LogFields {
+  /** The part of the library the entry comes from, e.g. `rest`, `cdn`, `ws`, `voice` or `client`. */
+  component?: string;
+  /** The route template of the request the entry is about, e.g. `POST /channels/:id/messages`. */
+  route?: string;
+  /** The ID of the channel the entry is about. */
+  channelId?: string;
+  /** The ID of the server the entry is about. */
+  serverId?: string;
+  /** The error that caused the entry. */
+  error?: unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * Represents a logger the library writes its output to. Set one with `clientOptions.logger`.
+ *
+ * Every method receives a message and structured fields. Filtering by level is up to the logger.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * Represents a logger with the API of pino, where fields come before the message.
+ */
+export interface PinoLike {
+  debug(fields: object, message?: string): void;
+  info(fields: object, message?: string): void;
+  warn(fields: object, message?: string): void;
+  error(fields: object, message?: string): void;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+/**
+ * Represents a logger that writes to the console, e.g.
+ * `[stoatbot.js] warn [rest] Attempt 1 failed {"route":"GET /users/:id"}`.
+ *
+ * @implements Logger
+ */
+export class ConsoleLogger implements Logger {
+  /**
+   * Creates a new ConsoleLogger instance.
+   *
+   * @param {LogLevel} [level="info"] - The least severe level to write.
+   */
+  constructor(readonly level: LogLevel = "info") {}
+
+  debug(message: string, fields?: LogFields): void {
+    this.write("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write("error", message, fields);
+  }
+
+  /**
+   * Writes an entry if its level is enabled.
+   * @private
+   */
+  private write(level: LogLevel, message: string, fields: LogFields = {}) {
+    if (LEVELS[level] < LEVELS[this.level]) return;
+
+    const { component, error, ...rest } = fields;
+    const args: unknown[] = [
+      `[stoatbot.js] ${level} ${component ? `[${component}] ` : ""}${message}`,
+    ];
+    if (Object.keys(rest).length) args.push(JSON.stringify(rest));
+    if (error !== undefined) args.push(error);
+    console[level](...args);
+  }
+}
+
+/**
+ * Represents an adapter that writes to a pino logger, or any logger with the same API.
+ * Errors are passed as `err` so pino's error serializer picks them up.
+ *
+ * @implements Logger
+ *
+ * @example
+ * ```typescript
+ * import pino from "pino";
+ *
+ * const bot = new client({ logger: new PinoLogger(pino({ level: "debug" })) });
+ * ```
+ */
+export class PinoLogger implements Logger {
+  /**
+   * Creates a new PinoLogger instance.
+   *
+   * @param {PinoLike} pino - The logger to write to, e.g. `pino()` or a child logger.
+   */
+  constructor(private readonly pino: PinoLike) {}
+
+  debug(message: string, fields?: LogFields): void {
+    this.pino.debug(toPino(fields), message);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.pino.info(toPino(fields), message);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.pino.warn(toPino(fields), message);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.pino.error(toPino(fields), message);
+  }
+}
+
+/**
+ * Represents an adapter that emits entries as `debug` events on the client, formatted as
+ * `[component] message`. Warnings and errors are prefixed with their level.
+ *
+ * @implements Logger
+ *
+ * @example
+ * ```typescript
+ * const bot = new client();
+ * bot.options.logger = new DebugEventLogger(bot);
+ * bot.on("debug", (message) => console.log(message));
+ * ```
+ */
+export class DebugEventLogger implements Logger {
+  /**
+   * Creates a new DebugEventLogger instance.
+   *
+   * @param {BaseClient} client - The client to emit `debug` events on.
+   */
+  constructor(private readonly client: BaseClient) {}
+
+  debug(message: string, fields?: LogFields): void {
+    this.write("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write("error", message, fields);
+  }
+
+  /**
+   * Emits an entry.
+   * @private
+   */
+  private write(level: LogLevel, message: string, fields: LogFields = {}) {
+    const { component, error, ...rest } = fields;
+    let line = `${component ? `[${component}] ` : ""}${message}`;
+    if (LEVELS[level] >= LEVELS.warn) line = `${level.toUpperCase()} ${line}`;
+    if (Object.keys(rest).length) line += ` ${JSON.stringify(rest)}`;
+    if (error !== undefined) line += `: ${error}`;
+    this.client.emit(Events.DEBUG, line);
+  }
+}
+
+/**
+ * Creates the logger used when `clientOptions.logger` is not set, which emits debug and info
+ * entries as `debug` events and writes warnings and errors to the console.
+ *
+ * @param {BaseClient} client - The client to emit `debug` events on.
+ * @returns {Logger} The logger.
+ * @private
+ */
+export function createDefaultLogger(client: BaseClient): Logger {
+  const events = new DebugEventLogger(client);
+  const output = new ConsoleLogger("warn");
+  return {
+    debug: (message, fields) => events.debug(message, fields),
+    info: (message, fields) => events.info(message, fields),
+    warn: (message, fields) => output.warn(message, fields),
+    error: (message, fields) => output.error(message, fields),
+  };
+}
+
+/**
+ * Converts fields to pino's conventions.
+ * @private
+ */
+function toPino(fields: LogFields = {}): object {
+  const { error, ...rest } = fields;
+  return error === undefined ? rest : { ...rest, err: error };
+}
@@ -1,7 +1,7 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/index.ts", "!src/test.ts"],
+  entry: ["src/index.ts", "src/testing/index.ts", "!src/test.ts"],
   format: ["cjs", "esm"],
   dts: true,
   sourcemap: false,